@@ -0,0 +1,153 @@
+// controller/src/cli.test.ts
+// Tests for the headless command-line runner, run against the mock helper
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mockPersistence } from "./test/mockPersistence";
+import type { RunRecord } from "./store/persistence";
+import type { Scenario } from "./types";
+
+const SCENARIOS: Scenario[] = [
+  {
+    id: "quick",
+    name: "Quick",
+    steps: [{ type: "click", position: { x: 1, y: 1 }, button: "left" }],
+    createdAt: 1,
+    lastUsedAt: 2,
+  },
+  {
+    id: "slow",
+    name: "Slow",
+    steps: [{ type: "delay", ms: 10_000 }],
+    createdAt: 1,
+    lastUsedAt: 1,
+  },
+  {
+    id: "stuck",
+    name: "Stuck",
+    steps: [
+      {
+        type: "pixel-state",
+        position: { x: 0, y: 0 },
+        color: { r: 255, g: 0, b: 0 },
+        threshold: 5,
+        timeoutMs: 20,
+      },
+    ],
+    createdAt: 1,
+    lastUsedAt: 1,
+  },
+];
+
+// In-memory scenarios.json and runs.json, which another process may also write
+let scenariosFile: Scenario[] = [];
+let runsFile: RunRecord[] = [];
+
+mockPersistence({
+  loadScenarios: async () => structuredClone(scenariosFile),
+  saveScenarios: async (scenarios) => {
+    scenariosFile = structuredClone(scenarios);
+  },
+  loadRuns: async () => structuredClone(runsFile),
+  saveRuns: async (runs) => {
+    runsFile = structuredClone(runs);
+  },
+  getConfigDir: () => "/nonexistent",
+});
+
+import { EXIT_COMPLETED, EXIT_ERROR, EXIT_TIMEOUT, EXIT_USAGE, runCli } from "./cli";
+import { swiftBridge } from "./ipc/bridge";
+import { MockHelper } from "./mock";
+
+/**
+ * Run the CLI with a fresh mock helper, capturing its output
+ */
+async function cli(...argv: string[]) {
+  const out: string[] = [];
+  const err: string[] = [];
+  const code = await runCli(
+    argv,
+    { out: (line) => out.push(line), err: (line) => err.push(line) },
+    { transport: new MockHelper().transport() }
+  );
+  return { code, out, err };
+}
+
+beforeEach(() => {
+  scenariosFile = structuredClone(SCENARIOS);
+  runsFile = [];
+});
+
+afterEach(() => {
+  swiftBridge.stop();
+});
+
+describe("runCli", () => {
+  test("lists scenarios as JSON lines", async () => {
+    const { code, out } = await cli("list", "--json");
+
+    expect(code).toBe(EXIT_COMPLETED);
+    expect(out.map((line) => JSON.parse(line).name)).toEqual(["Quick", "Slow", "Stuck"]);
+  });
+
+  test("runs a scenario by name and reports completion", async () => {
+    const { code, out } = await cli("run", "Quick", "--json");
+    const events = out.map((line) => JSON.parse(line));
+
+    expect(code).toBe(EXIT_COMPLETED);
+    expect(events.some((e) => e.event === "progress" && e.status === "running")).toBe(true);
+    expect(events.at(-1)).toEqual({ event: "result", outcome: "completed", exitCode: 0 });
+  });
+
+  test("exits with the timeout code when a wait times out", async () => {
+    const { code, err } = await cli("run", "stuck");
+
+    expect(code).toBe(EXIT_TIMEOUT);
+    expect(err.at(-1)).toContain("Timed out after 20ms");
+  });
+
+  test("exits with the timeout code when the run exceeds --timeout", async () => {
+    const { code, err } = await cli("run", "Slow", "--timeout", "30");
+
+    expect(code).toBe(EXIT_TIMEOUT);
+    expect(err.at(-1)).toBe("timeout: Run exceeded 30ms");
+  });
+
+  test("keeps what another process saves during a run", async () => {
+    scenariosFile.push({
+      id: "short",
+      name: "Short",
+      steps: [{ type: "delay", ms: 50 }],
+      createdAt: 1,
+      lastUsedAt: 1,
+    });
+    const running = cli("run", "Short");
+    await Bun.sleep(20);
+
+    // Meanwhile the TUI renames a scenario and records a run of its own
+    scenariosFile = scenariosFile.map((s) => (s.id === "quick" ? { ...s, name: "Renamed" } : s));
+    runsFile = [
+      {
+        id: "tui",
+        scenarioId: "quick",
+        scenarioName: "Quick",
+        startedAt: 1,
+        endedAt: 2,
+        outcome: "completed",
+        steps: [],
+      },
+    ];
+
+    expect((await running).code).toBe(EXIT_COMPLETED);
+    expect(scenariosFile.find((s) => s.id === "quick")!.name).toBe("Renamed");
+    expect(runsFile.map((r) => [r.scenarioId, r.outcome])).toEqual([
+      ["quick", "completed"],
+      ["short", "completed"],
+    ]);
+  });
+
+  test("fails for unknown scenarios and bad usage", async () => {
+    expect((await cli("run", "Nope")).code).toBe(EXIT_ERROR);
+    expect((await cli("run")).code).toBe(EXIT_USAGE);
+    expect((await cli("frobnicate")).code).toBe(EXIT_USAGE);
+  });
+});
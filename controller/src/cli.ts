@@ -0,0 +1,309 @@
+// controller/src/cli.ts
+// Headless entry point - list, run, validate and export scenarios from scripts
+
+import { join } from "path";
+import { parseArgs } from "util";
+import { swiftBridge, ipc } from "./ipc/protocol";
+import type { HelperTransport } from "./ipc/transport";
+import { executeScenario, WaitTimeoutError, type ExecutionProgress } from "./execution/executor";
+import { activeRun, RunInProgressError } from "./execution/runLock";
+import { scenariosStore } from "./store/scenarios";
+import { trashStore } from "./store/trash";
+import { exportBundle, expandHome } from "./store/bundles";
+import { migrateScenariosFile } from "./store/migrations";
+import { getConfigDir } from "./store/persistence";
+import { validate, type Scenario, type ValidationError } from "./types";
+
+// Exit codes (timeout and aborted follow timeout(1) and SIGINT conventions)
+export const EXIT_COMPLETED = 0;
+export const EXIT_ERROR = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_TIMEOUT = 124;
+export const EXIT_ABORTED = 130;
+
+const USAGE = `Usage: sequencer <command> [options]
+
+Commands:
+  list                     List saved scenarios
+  run <name|id>            Run a scenario
+  validate [file]          Check scenarios.json (or a bundle file) against the schema
+  export <name|id> <file>  Write a scenario and the scenarios it references to a bundle
+
+Options:
+  --json                   Print JSON lines instead of text
+  --timeout <ms>           Abort a run that takes longer than this
+  --arg <name=value>       Pass a value for one of the scenario's parameters (repeatable)
+  -h, --help               Show this help
+
+Exit codes: 0 completed (or redirected by a timeout), 1 error, 2 usage, 124 timeout, 130 aborted`;
+
+export interface CliIO {
+  out(line: string): void;
+  err(line: string): void;
+}
+
+export interface CliOptions {
+  transport?: HelperTransport; // Talk to this helper instead of spawning one (tests)
+}
+
+const consoleIO: CliIO = {
+  out: (line) => console.log(line),
+  err: (line) => console.error(line),
+};
+
+/**
+ * Find a scenario by id, or by exact name if no id matches
+ */
+function findScenario(query: string): Scenario {
+  const byId = scenariosStore.getScenarioById(query);
+  if (byId) return byId;
+
+  const byName = scenariosStore.getState().scenarios.filter((s) => s.name === query);
+  if (byName.length > 1) {
+    throw new Error(
+      `Several scenarios are named "${query}", use an id: ${byName.map((s) => s.id).join(", ")}`
+    );
+  }
+  const [match] = byName;
+  if (!match) {
+    throw new Error(`Scenario not found: ${query}`);
+  }
+  return match;
+}
+
+function formatProgress(progress: ExecutionProgress): string {
+  const position = `[${progress.currentStep}/${progress.totalSteps}]`;
+  const detail = progress.error ?? progress.currentStepDescription;
+  return detail ? `${position} ${progress.status}: ${detail}` : `${position} ${progress.status}`;
+}
+
+async function listCommand(io: CliIO, json: boolean): Promise<number> {
+  for (const scenario of scenariosStore.getSortedScenarios()) {
+    io.out(
+      json
+        ? JSON.stringify({ id: scenario.id, name: scenario.name, steps: scenario.steps.length })
+        : `${scenario.id}  ${scenario.name} (${scenario.steps.length} steps)`
+    );
+  }
+  return EXIT_COMPLETED;
+}
+
+async function runCommand(
+  io: CliIO,
+  query: string,
+  json: boolean,
+  timeoutMs: number | undefined,
+  args: Record<string, string>,
+  options: CliOptions
+): Promise<number> {
+  const scenario = findScenario(query);
+  // Fail before touching the helper if the TUI or another CLI run is active
+  const running = await activeRun();
+  if (running !== null) {
+    throw new RunInProgressError(`"${running}" is already running`);
+  }
+
+  await swiftBridge.start(options.transport);
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer =
+    timeoutMs !== undefined
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : null;
+  const onSignal = () => controller.abort();
+  process.on("SIGINT", onSignal);
+  process.on("SIGTERM", onSignal);
+
+  const report = (outcome: string, exitCode: number, error?: string) => {
+    if (json) {
+      io.out(JSON.stringify({ event: "result", outcome, exitCode, error }));
+    } else if (error) {
+      io.err(`${outcome}: ${error}`);
+    } else {
+      io.out(outcome);
+    }
+    return exitCode;
+  };
+
+  try {
+    const permissions = await ipc.checkPermissions();
+    if (!permissions.accessibility || !permissions.screenRecording) {
+      io.err("Warning: Accessibility or Screen Recording permission is missing");
+    }
+
+    // Only print when something changed; waits report the same progress repeatedly
+    let last = "";
+    let redirects: string[] | undefined;
+    await executeScenario(
+      scenario,
+      controller.signal,
+      (progress) => {
+        redirects = progress.redirects;
+        const line = json
+          ? JSON.stringify({ event: "progress", ...progress })
+          : formatProgress(progress);
+        if (line === last) return;
+        last = line;
+        io.out(line);
+      },
+      // The TUI or control server may be editing the same files: leave
+      // scenarios.json alone and add the run to runs.json as it is now
+      { args, markUsed: false, appendRun: true }
+    );
+    if (redirects) {
+      // Finished, but in the scenario a timed-out wait jumped to
+      io.out(
+        json
+          ? JSON.stringify({ event: "result", outcome: "redirected", exitCode: EXIT_COMPLETED, redirects })
+          : `redirected to ${redirects.map((name) => `"${name}"`).join(" -> ")}`
+      );
+      return EXIT_COMPLETED;
+    }
+    return report("completed", EXIT_COMPLETED);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      return timedOut
+        ? report("timeout", EXIT_TIMEOUT, `Run exceeded ${timeoutMs}ms`)
+        : report("aborted", EXIT_ABORTED);
+    }
+    if (error instanceof WaitTimeoutError) {
+      return report("timeout", EXIT_TIMEOUT, error.message);
+    }
+    return report("error", EXIT_ERROR, error instanceof Error ? error.message : String(error));
+  } finally {
+    if (timer) clearTimeout(timer);
+    process.off("SIGINT", onSignal);
+    process.off("SIGTERM", onSignal);
+    swiftBridge.stop();
+  }
+}
+
+async function validateCommand(io: CliIO, file: string | undefined, json: boolean): Promise<number> {
+  const filePath = expandHome(file ?? join(getConfigDir(), "scenarios.json"));
+  const source = Bun.file(filePath);
+  if (!(await source.exists())) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  // Bundles carry their scenarios directly; scenarios.json may need upgrading first
+  const data: unknown = JSON.parse(await source.text());
+  const scenarios: unknown =
+    typeof data === "object" && data !== null && "rootId" in data
+      ? (data as { rootId: unknown; scenarios?: unknown }).scenarios
+      : migrateScenariosFile(data).file.scenarios;
+  if (!Array.isArray(scenarios)) {
+    throw new Error(`${filePath}: bundle has no scenarios array`);
+  }
+
+  const errors: ValidationError[] = scenarios.flatMap((scenario, i) =>
+    validate("Scenario", scenario, `$.scenarios[${i}]`)
+  );
+
+  if (json) {
+    io.out(JSON.stringify({ event: "validation", file: filePath, valid: errors.length === 0, errors }));
+  } else if (errors.length === 0) {
+    io.out(`${filePath}: ${scenarios.length} scenario(s) valid`);
+  } else {
+    for (const error of errors) io.err(`${error.path}: ${error.message}`);
+  }
+  return errors.length === 0 ? EXIT_COMPLETED : EXIT_ERROR;
+}
+
+async function exportCommand(io: CliIO, query: string, file: string, json: boolean): Promise<number> {
+  const bundle = await exportBundle(findScenario(query).id, file);
+  io.out(
+    json
+      ? JSON.stringify({ event: "export", file, scenarios: bundle.scenarios.map((s) => s.id) })
+      : `Exported ${bundle.scenarios.length} scenario(s) to ${file}`
+  );
+  return EXIT_COMPLETED;
+}
+
+/**
+ * Run a CLI command and resolve with the process exit code
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIO = consoleIO,
+  options: CliOptions = {}
+): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        json: { type: "boolean", default: false },
+        timeout: { type: "string" },
+        arg: { type: "string", multiple: true, default: [] },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (error) {
+    io.err(error instanceof Error ? error.message : String(error));
+    io.err(USAGE);
+    return EXIT_USAGE;
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...args] = positionals;
+  const json = values.json ?? false;
+  const timeoutMs = values.timeout !== undefined ? Number(values.timeout) : undefined;
+
+  if (values.help || !command) {
+    (values.help ? io.out : io.err)(USAGE);
+    return values.help ? EXIT_COMPLETED : EXIT_USAGE;
+  }
+  if (timeoutMs !== undefined && !(timeoutMs > 0)) {
+    io.err(`Invalid --timeout: ${values.timeout}`);
+    return EXIT_USAGE;
+  }
+  const runArgs: Record<string, string> = {};
+  for (const arg of values.arg ?? []) {
+    const eq = arg.indexOf("=");
+    if (eq <= 0) {
+      io.err(`Invalid --arg (expected name=value): ${arg}`);
+      return EXIT_USAGE;
+    }
+    runArgs[arg.slice(0, eq)] = arg.slice(eq + 1);
+  }
+
+  try {
+    if (command !== "validate") {
+      await scenariosStore.load();
+    }
+
+    switch (command) {
+      case "list":
+        return await listCommand(io, json);
+      case "run":
+        if (args.length !== 1) break;
+        await trashStore.load();
+        return await runCommand(io, args[0]!, json, timeoutMs, runArgs, options);
+      case "validate":
+        if (args.length > 1) break;
+        return await validateCommand(io, args[0], json);
+      case "export":
+        if (args.length !== 2) break;
+        return await exportCommand(io, args[0]!, args[1]!, json);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    io.err(
+      json
+        ? JSON.stringify({ event: "result", outcome: "error", exitCode: EXIT_ERROR, error: message })
+        : message
+    );
+    return EXIT_ERROR;
+  }
+
+  io.err(USAGE);
+  return EXIT_USAGE;
+}
+
+if (import.meta.main) {
+  runCli(Bun.argv.slice(2)).then((code) => process.exit(code));
+}
@@ -10,22 +10,68 @@ import { StepsViewer } from "./StepsViewer";
 import { StepPreview } from "./StepPreview";
 import { StatusBar } from "./StatusBar";
 import { PlayModal } from "./PlayModal";
+import { RunHistoryModal } from "./RunHistoryModal";
+import { ConfirmModal } from "./ConfirmModal";
+import { TrashModal } from "./TrashModal";
+import { ScenarioPickerModal } from "./ScenarioPickerModal";
+import { CalibrationModal } from "./CalibrationModal";
+import { BundleModal } from "./BundleModal";
+import { ParametersModal } from "./ParametersModal";
 import { scenariosStore } from "../store/scenarios";
 import { historyStore } from "../store/history";
 import { recorderStore } from "../store/recorder";
+import { editorStore } from "../store/editor";
+import { flushPendingSaves } from "../store/debounce";
 import { useStoreSubscription } from "../hooks/useStoreSubscription";
 import { ipc } from "../ipc/protocol";
+import type { ExecuteOptions } from "../execution/executor";
+import type { PixelCondition, Scenario } from "../types";
+
+type PlayRange = Pick<ExecuteOptions, "startIndex" | "endIndex">;
 
 export function App() {
   const nav = useVimNavigation();
   const renderer = useRenderer();
   const recorderState = useStoreSubscription(recorderStore);
+  const editorState = useStoreSubscription(editorStore);
   const recording = useRecording();
   const [showPlayModal, setShowPlayModal] = useState(false);
+  const [playRange, setPlayRange] = useState<PlayRange>({});
+  const [showRunHistory, setShowRunHistory] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<Scenario | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showPicker, setShowPicker] = useState(false);
+  const [bundleMode, setBundleMode] = useState<"export" | "import" | null>(null);
+  const [editingParameters, setEditingParameters] = useState<Scenario | null>(null);
+  // Why the last undo/redo was refused, shown until the next key
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [calibrating, setCalibrating] = useState<{
+    scenarioId: string;
+    stepIndex: number;
+    step: PixelCondition;
+  } | null>(null);
   const scenariosState = useStoreSubscription(scenariosStore);
+  const isModalOpen =
+    showPlayModal ||
+    showRunHistory ||
+    pendingDelete !== null ||
+    showTrash ||
+    showPicker ||
+    bundleMode !== null ||
+    editingParameters !== null ||
+    calibrating !== null;
 
   // Handle keyboard input
   useKeyboard((key) => {
+    // Open modals handle their own keys
+    if (isModalOpen) {
+      return;
+    }
+
+    if (historyError) {
+      setHistoryError(null);
+    }
+
     // Global escape handler
     if (key.name === "escape") {
       if (recorderState.status === "recording") {
@@ -37,6 +83,15 @@ export function App() {
         recording.cancelNaming();
         return;
       }
+      if (recorderState.status === "repicking") {
+        recording.cancelRepicking().catch(() => {});
+        return;
+      }
+    }
+
+    // While re-picking, the magnifier handles input
+    if (recorderState.status === "repicking") {
+      return;
     }
 
     // While recording, only handle escape and 'r' to stop
@@ -65,6 +120,45 @@ export function App() {
       return;
     }
 
+    // While editing a step, keys go to the form
+    if (editorState.status === "editing") {
+      if (editorState.input !== null) {
+        if (key.name === "return") {
+          editorStore.commitInput();
+        } else if (key.name === "escape") {
+          editorStore.cancelInput();
+        } else if (key.name === "backspace") {
+          editorStore.backspaceInput();
+        } else if (key.sequence && key.sequence.length === 1 && !key.ctrl && !key.meta) {
+          editorStore.appendInput(key.sequence);
+        }
+        return;
+      }
+      if (key.name === "j" || key.name === "down") {
+        editorStore.moveField(1);
+      } else if (key.name === "k" || key.name === "up") {
+        editorStore.moveField(-1);
+      } else if (key.name === "return") {
+        editorStore.beginInput();
+      } else if (key.name === "u") {
+        setHistoryError(historyStore.undo());
+      } else if (key.name === "r" && key.ctrl) {
+        setHistoryError(historyStore.redo());
+      } else if (key.name === "escape") {
+        editorStore.close();
+      }
+      return;
+    }
+
+    // Enter in the Preview column edits the selected step
+    if (key.name === "return" && nav.column === 2) {
+      const state = scenariosStore.getState();
+      if (state.selectedScenarioId && state.selectedStepIndex !== null) {
+        editorStore.open(state.selectedScenarioId, state.selectedStepIndex);
+      }
+      return;
+    }
+
     // Vim navigation
     if (key.name === "h" && !key.ctrl) {
       nav.moveLeft();
@@ -104,14 +198,41 @@ export function App() {
       return;
     }
 
+    // Shift+C: calibrate the threshold of the selected pixel step
+    if (key.name === "c" && key.shift) {
+      const state = scenariosStore.getState();
+      const step = scenariosStore.getSelectedScenario()?.steps[state.selectedStepIndex ?? -1];
+      if (
+        state.selectedScenarioId &&
+        state.selectedStepIndex !== null &&
+        nav.column !== 0 &&
+        (step?.type === "pixel-state" || step?.type === "pixel-zone")
+      ) {
+        setCalibrating({
+          scenarioId: state.selectedScenarioId,
+          stepIndex: state.selectedStepIndex,
+          step,
+        });
+      }
+      return;
+    }
+
     // Actions
     if (key.name === "c") {
       // Create new scenario and enter naming mode
-      const scenario = scenariosStore.createScenario("New Scenario");
+      const scenario = historyStore.createScenario("New Scenario");
       recorderStore.startNaming(scenario.id);
       return;
     }
 
+    if (key.name === "n" && key.shift) {
+      // Declare the selected scenario's parameters
+      if (nav.column === 0) {
+        setEditingParameters(scenariosStore.getSelectedScenario());
+      }
+      return;
+    }
+
     if (key.name === "n") {
       // Rename selected scenario (pre-fill with existing name)
       const scenario = scenariosStore.getSelectedScenario();
@@ -121,6 +242,48 @@ export function App() {
       return;
     }
 
+    if (key.name === "d" && nav.column === 0) {
+      // Delete selected scenario (after confirmation)
+      setPendingDelete(scenariosStore.getSelectedScenario());
+      return;
+    }
+
+    if (key.name === "y" && nav.column === 0) {
+      // Duplicate selected scenario
+      const scenario = scenariosStore.getSelectedScenario();
+      if (scenario) {
+        historyStore.duplicateScenario(scenario.id);
+      }
+      return;
+    }
+
+    // Shift+E / Shift+I: export the selected scenario as a bundle / import one
+    if (key.name === "e" && key.shift) {
+      if (nav.column === 0 && scenariosStore.getSelectedScenario()) {
+        setBundleMode("export");
+      }
+      return;
+    }
+
+    if (key.name === "i" && key.shift) {
+      setBundleMode("import");
+      return;
+    }
+
+    if (key.name === "i") {
+      // Insert a reference to another scenario after the selected step
+      if (scenariosStore.getSelectedScenario()) {
+        setShowPicker(true);
+      }
+      return;
+    }
+
+    if (key.name === "t" && !key.shift) {
+      // Open trash of deleted scenarios
+      setShowTrash(true);
+      return;
+    }
+
     if (key.name === "d") {
       // Delete selected step
       const state = scenariosStore.getState();
@@ -134,9 +297,30 @@ export function App() {
       return;
     }
 
+    if (key.name === "b") {
+      // Toggle breakpoint on selected step
+      const state = scenariosStore.getState();
+      if (
+        state.selectedScenarioId &&
+        state.selectedStepIndex !== null &&
+        nav.column === 1
+      ) {
+        historyStore.toggleBreakpoint(state.selectedScenarioId, state.selectedStepIndex);
+      }
+      return;
+    }
+
+    if (key.name === "v") {
+      // View run history of selected scenario
+      if (scenariosStore.getSelectedScenario()) {
+        setShowRunHistory(true);
+      }
+      return;
+    }
+
     if (key.name === "u") {
       // Undo
-      historyStore.undo();
+      setHistoryError(historyStore.undo());
       return;
     }
 
@@ -144,7 +328,22 @@ export function App() {
       // Quit - always try to hide overlay in case it's showing
       ipc.hideRecorderOverlay().catch(() => {});
       renderer.destroy();
-      process.exit(0);
+      flushPendingSaves().finally(() => process.exit(0));
+      return;
+    }
+
+    if (key.name === "r" && key.ctrl) {
+      // Redo
+      setHistoryError(historyStore.redo());
+      return;
+    }
+
+    // Shift+R: re-pick the selected step's position/color from the screen
+    if (key.name === "r" && key.shift) {
+      if (nav.column === 1) {
+        recording.startRepicking().catch(() => recorderStore.stopRepicking());
+      }
+      return;
     }
 
     // Recording
@@ -153,10 +352,28 @@ export function App() {
       return;
     }
 
+    // Partial playback of the selected step (Shift+P: from it, Ctrl+P: up to it, e: only it)
+    if ((key.name === "p" && (key.shift || key.ctrl)) || key.name === "e") {
+      const state = scenariosStore.getState();
+      const stepIndex = state.selectedStepIndex;
+      if (state.selectedScenarioId && stepIndex !== null && nav.column === 1) {
+        setPlayRange(
+          key.name === "e"
+            ? { startIndex: stepIndex, endIndex: stepIndex + 1 }
+            : key.shift
+              ? { startIndex: stepIndex }
+              : { endIndex: stepIndex + 1 }
+        );
+        setShowPlayModal(true);
+      }
+      return;
+    }
+
     if (key.name === "p") {
       // Play - open play modal if scenario has steps
       const scenario = scenariosStore.getSelectedScenario();
       if (scenario && scenario.steps.length > 0) {
+        setPlayRange({});
         setShowPlayModal(true);
       }
       return;
@@ -165,6 +382,9 @@ export function App() {
 
   // Get selected scenario for play modal
   const selectedScenario = scenariosStore.getSelectedScenario();
+  const deleteReferrers = pendingDelete
+    ? scenariosStore.getReferencingScenarios(pendingDelete.id)
+    : [];
 
   return (
     <box flexDirection="column" width="100%" height="100%">
@@ -215,20 +435,94 @@ export function App() {
           flexGrow={1}
           flexDirection="column"
         >
-          <StepPreview focused={nav.column === 2} />
+          <StepPreview focused={nav.column === 2 && !isModalOpen} />
         </box>
       </box>
 
       {/* Status bar */}
-      <StatusBar column={nav.column} isExecuting={showPlayModal} />
+      <StatusBar column={nav.column} isExecuting={showPlayModal} error={historyError} />
 
       {/* Play modal overlay */}
       {showPlayModal && selectedScenario && (
         <PlayModal
           scenario={selectedScenario}
+          range={playRange}
           onClose={() => setShowPlayModal(false)}
         />
       )}
+
+      {/* Run history overlay */}
+      {showRunHistory && selectedScenario && (
+        <RunHistoryModal
+          scenario={selectedScenario}
+          onClose={() => setShowRunHistory(false)}
+        />
+      )}
+
+      {/* Delete confirmation */}
+      {pendingDelete && (
+        <ConfirmModal
+          title={`Delete "${pendingDelete.name}"?`}
+          lines={[
+            `${pendingDelete.steps.length} steps will be moved to the trash ('t').`,
+            ...(deleteReferrers.length > 0
+              ? [`Referenced by: ${deleteReferrers.map((s) => s.name).join(", ")}`]
+              : []),
+          ]}
+          onConfirm={() => {
+            historyStore.deleteScenario(pendingDelete.id);
+            setPendingDelete(null);
+          }}
+          onCancel={() => setPendingDelete(null)}
+        />
+      )}
+
+      {/* Scenario picker for inserting references */}
+      {showPicker && selectedScenario && (
+        <ScenarioPickerModal
+          parent={selectedScenario}
+          onPick={(target) => {
+            const { selectedStepIndex } = scenariosStore.getState();
+            historyStore.addStep(
+              selectedScenario.id,
+              { type: "scenario-ref", scenarioId: target.id },
+              selectedStepIndex ?? undefined
+            );
+            setShowPicker(false);
+          }}
+          onClose={() => setShowPicker(false)}
+        />
+      )}
+
+      {/* Bundle export/import */}
+      {bundleMode && (
+        <BundleModal
+          mode={bundleMode}
+          scenario={selectedScenario}
+          onClose={() => setBundleMode(null)}
+        />
+      )}
+
+      {/* Scenario parameters */}
+      {editingParameters && (
+        <ParametersModal
+          scenario={editingParameters}
+          onClose={() => setEditingParameters(null)}
+        />
+      )}
+
+      {/* Threshold calibration */}
+      {calibrating && (
+        <CalibrationModal
+          scenarioId={calibrating.scenarioId}
+          stepIndex={calibrating.stepIndex}
+          step={calibrating.step}
+          onClose={() => setCalibrating(null)}
+        />
+      )}
+
+      {/* Trash overlay */}
+      {showTrash && <TrashModal onClose={() => setShowTrash(false)} />}
     </box>
   );
 }
@@ -0,0 +1,125 @@
+// controller/src/components/BundleModal.tsx
+// Modal for exporting a scenario bundle to a file or importing one
+
+import { useState } from "react";
+import { useKeyboard } from "@opentui/react";
+import { exportBundle, importBundleFile } from "../store/bundles";
+import type { Scenario } from "../types";
+
+interface BundleModalProps {
+  mode: "export" | "import";
+  scenario: Scenario | null; // Scenario to export (unused when importing)
+  onClose: () => void;
+}
+
+type BundleState =
+  | { status: "input" }
+  | { status: "working" }
+  | { status: "done"; lines: string[] }
+  | { status: "error"; message: string };
+
+/**
+ * Suggested export file name for a scenario
+ */
+function defaultPath(scenario: Scenario | null): string {
+  const slug = (scenario?.name ?? "scenario")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `~/${slug || "scenario"}.sequencer.json`;
+}
+
+export function BundleModal({ mode, scenario, onClose }: BundleModalProps) {
+  const [path, setPath] = useState(mode === "export" ? defaultPath(scenario) : "~/");
+  const [state, setState] = useState<BundleState>({ status: "input" });
+
+  const run = () => {
+    setState({ status: "working" });
+
+    const task =
+      mode === "export"
+        ? scenario
+          ? exportBundle(scenario.id, path).then((bundle) => [
+              `Exported ${bundle.scenarios.length} scenario(s) to ${path}`,
+              ...bundle.scenarios.filter((s) => s.id !== bundle.rootId).map((s) => `  + ${s.name}`),
+            ])
+          : Promise.reject(new Error("No scenario selected"))
+        : importBundleFile(path).then((result) => [
+            `Imported ${result.imported.length} scenario(s) from ${path}`,
+            ...result.renamed.map((r) => `  "${r.from}" renamed to "${r.to}"`),
+          ]);
+
+    task
+      .then((lines) => setState({ status: "done", lines }))
+      .catch((error) =>
+        setState({ status: "error", message: error instanceof Error ? error.message : String(error) })
+      );
+  };
+
+  useKeyboard((key) => {
+    if (state.status === "working") return;
+
+    if (key.name === "escape" || state.status === "done") {
+      onClose();
+      return;
+    }
+
+    if (key.name === "return") {
+      if (path.trim()) run();
+      return;
+    }
+    if (key.name === "backspace") {
+      setPath((p) => p.slice(0, -1));
+      setState({ status: "input" });
+      return;
+    }
+    if (key.sequence && key.sequence.length === 1 && !key.ctrl && !key.meta) {
+      setPath((p) => p + key.sequence);
+      setState({ status: "input" });
+    }
+  });
+
+  const title =
+    mode === "export" ? `Export "${scenario?.name ?? ""}" with its references` : "Import scenarios";
+  const messageLines =
+    state.status === "done" ? state.lines : state.status === "error" ? state.message.split("\n") : [];
+
+  return (
+    <box
+      position="absolute"
+      top="25%"
+      left="15%"
+      width="70%"
+      height={Math.min(messageLines.length, 10) + 7}
+      border
+      borderStyle="double"
+      borderColor="#00FFFF"
+      bg="#1a1a1a"
+      flexDirection="column"
+      padding={1}
+    >
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#FFFFFF" bold>
+        {title}
+      </text>
+      <text>
+        File: {path}
+        {state.status === "input" ? "█" : ""}
+      </text>
+
+      {state.status === "working" && (
+        // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+        <text fg="#FFFF00">{mode === "export" ? "Exporting..." : "Importing..."}</text>
+      )}
+      {messageLines.slice(0, 10).map((line, i) => (
+        // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+        <text key={i} fg={state.status === "error" ? "#FF6666" : "#00FF00"}>{line}</text>
+      ))}
+
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#666666">
+        {state.status === "done" ? "(any key: close)" : "(type a path, Enter: confirm, ESC: cancel)"}
+      </text>
+    </box>
+  );
+}
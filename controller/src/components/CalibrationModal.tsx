@@ -0,0 +1,151 @@
+// controller/src/components/CalibrationModal.tsx
+// Modal for sampling a pixel step over time and picking its threshold
+
+import { useEffect, useRef, useState } from "react";
+import { useKeyboard } from "@opentui/react";
+import { historyStore } from "../store/history";
+import { calibrateCondition, type CalibrationResult } from "../execution/sampling";
+import type { PixelCondition } from "../types";
+
+interface CalibrationModalProps {
+  scenarioId: string;
+  stepIndex: number;
+  step: PixelCondition;
+  onClose: () => void;
+}
+
+const DEFAULT_SECONDS = 5;
+const MAX_SECONDS = 60;
+
+type CalibrationState =
+  | { status: "setup" }
+  | { status: "sampling"; count: number; lastDistance: number | null }
+  | { status: "done"; result: CalibrationResult }
+  | { status: "error"; message: string };
+
+export function CalibrationModal({ scenarioId, stepIndex, step, onClose }: CalibrationModalProps) {
+  const [seconds, setSeconds] = useState(DEFAULT_SECONDS);
+  const [state, setState] = useState<CalibrationState>({ status: "setup" });
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop sampling if the modal goes away mid-run
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const start = () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setState({ status: "sampling", count: 0, lastDistance: null });
+
+    calibrateCondition(step, seconds * 1000, controller.signal, (sample, count) =>
+      setState({ status: "sampling", count, lastDistance: sample.distance })
+    )
+      .then((result) => setState({ status: "done", result }))
+      .catch((error) => {
+        if (error instanceof Error && error.name === "AbortError") return;
+        setState({ status: "error", message: String(error) });
+      });
+  };
+
+  useKeyboard((key) => {
+    if (key.name === "escape") {
+      abortRef.current?.abort();
+      onClose();
+      return;
+    }
+
+    if (state.status === "setup" || state.status === "error") {
+      if (key.name === "return") {
+        start();
+      } else if (key.name === "k" || key.name === "up" || key.sequence === "+") {
+        setSeconds((s) => Math.min(s + 1, MAX_SECONDS));
+      } else if (key.name === "j" || key.name === "down" || key.sequence === "-") {
+        setSeconds((s) => Math.max(s - 1, 1));
+      }
+      return;
+    }
+
+    if (state.status === "done") {
+      if (key.name === "return" || key.name === "a") {
+        historyStore.updateStep(scenarioId, stepIndex, {
+          ...step,
+          threshold: state.result.suggestedThreshold,
+        });
+        onClose();
+      } else if (key.name === "r") {
+        start();
+      }
+    }
+  });
+
+  const where =
+    step.type === "pixel-state"
+      ? `pixel (${step.position.x}, ${step.position.y})`
+      : `zone (${step.rect.x}, ${step.rect.y}) ${step.rect.width}x${step.rect.height}`;
+
+  return (
+    <box
+      position="absolute"
+      top="25%"
+      left="20%"
+      width="60%"
+      height={14}
+      border
+      borderStyle="double"
+      borderColor="#00FFFF"
+      bg="#1a1a1a"
+      flexDirection="column"
+      padding={1}
+    >
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#FFFFFF" bold>
+        Calibrate threshold: {where}
+      </text>
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#888888">Current threshold: {step.threshold}</text>
+
+      {state.status === "setup" && (
+        <box flexDirection="column">
+          <text>Sample for: {seconds}s</text>
+          {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+          <text fg="#666666">Show the screen state this step waits for, then start.</text>
+        </box>
+      )}
+
+      {state.status === "sampling" && (
+        <box flexDirection="column">
+          {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+          <text fg="#FFFF00">Sampling... {state.count} samples</text>
+          {state.lastDistance !== null && (
+            <text>Last distance: {state.lastDistance.toFixed(1)}</text>
+          )}
+        </box>
+      )}
+
+      {state.status === "done" && (
+        <box flexDirection="column">
+          <text>Samples: {state.result.samples}</text>
+          <text>
+            Distance min {state.result.min.toFixed(1)} / mean {state.result.mean.toFixed(1)} / max{" "}
+            {state.result.max.toFixed(1)}
+          </text>
+          {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+          <text fg="#00FF00">Suggested threshold: {state.result.suggestedThreshold}</text>
+        </box>
+      )}
+
+      {state.status === "error" && (
+        // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+        <text fg="#FF6666">Sampling failed: {state.message}</text>
+      )}
+
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#666666">
+        {state.status === "done"
+          ? "(Enter/a: apply, r: sample again, ESC: close)"
+          : state.status === "sampling"
+            ? "(ESC: stop)"
+            : "(j/k: seconds, Enter: start, ESC: close)"}
+      </text>
+    </box>
+  );
+}
@@ -0,0 +1,51 @@
+// controller/src/components/ConfirmModal.tsx
+// Yes/no confirmation dialog for destructive actions
+
+import { useKeyboard } from "@opentui/react";
+
+interface ConfirmModalProps {
+  title: string;
+  lines: string[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export function ConfirmModal({ title, lines, onConfirm, onCancel }: ConfirmModalProps) {
+  useKeyboard((key) => {
+    if (key.name === "y" || key.name === "return") {
+      onConfirm();
+      return;
+    }
+    if (key.name === "n" || key.name === "escape") {
+      onCancel();
+      return;
+    }
+  });
+
+  return (
+    <box
+      position="absolute"
+      top="30%"
+      left="25%"
+      width="50%"
+      height={lines.length + 6}
+      border
+      borderStyle="double"
+      borderColor="#FF4444"
+      bg="#1a1a1a"
+      flexDirection="column"
+      padding={1}
+    >
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#FFFFFF" bold>
+        {title}
+      </text>
+      {lines.map((line, i) => (
+        // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+        <text key={i} fg="#AAAAAA">{line}</text>
+      ))}
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#666666">(y/Enter: confirm, n/ESC: cancel)</text>
+    </box>
+  );
+}
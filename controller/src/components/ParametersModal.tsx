@@ -0,0 +1,79 @@
+// controller/src/components/ParametersModal.tsx
+// Modal for declaring a scenario's parameters and their defaults
+
+import { useState } from "react";
+import { useKeyboard } from "@opentui/react";
+import { historyStore } from "../store/history";
+import { formatParameterList, parseParameterList } from "../execution/parameters";
+import type { Scenario } from "../types";
+
+interface ParametersModalProps {
+  scenario: Scenario;
+  onClose: () => void;
+}
+
+export function ParametersModal({ scenario, onClose }: ParametersModalProps) {
+  const [input, setInput] = useState(formatParameterList(scenario.parameters ?? []));
+  const [error, setError] = useState<string | null>(null);
+
+  useKeyboard((key) => {
+    if (key.name === "escape") {
+      onClose();
+      return;
+    }
+
+    if (key.name === "return") {
+      try {
+        historyStore.updateScenarioParameters(scenario.id, parseParameterList(input));
+        onClose();
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      }
+      return;
+    }
+    if (key.name === "backspace") {
+      setInput((i) => i.slice(0, -1));
+      setError(null);
+      return;
+    }
+    if (key.sequence && key.sequence.length === 1 && !key.ctrl && !key.meta) {
+      setInput((i) => i + key.sequence);
+      setError(null);
+    }
+  });
+
+  return (
+    <box
+      position="absolute"
+      top="25%"
+      left="15%"
+      width="70%"
+      height={error ? 10 : 9}
+      border
+      borderStyle="double"
+      borderColor="#00FFFF"
+      bg="#1a1a1a"
+      flexDirection="column"
+      padding={1}
+    >
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#FFFFFF" bold>
+        Parameters of "{scenario.name}"
+      </text>
+      <text>
+        {input}
+        {"█"}
+      </text>
+      {error && (
+        // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+        <text fg="#FF6666">{error}</text>
+      )}
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#888888">
+        Steps use them as {"${name}"}; a parameter without a default must be passed in.
+      </text>
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#666666">(name=default, other  Enter: save, ESC: cancel)</text>
+    </box>
+  );
+}
@@ -5,9 +5,14 @@ import { useState, useRef, useEffect } from "react";
 import { useKeyboard } from "@opentui/react";
 import { ProgressBar } from "./ProgressBar";
 import { executeScenario, describeStep } from "../execution/executor";
+import { activeRun } from "../execution/runLock";
+import {
+  createExecutionController,
+  type ExecutionController,
+} from "../execution/controller";
 import { ipc } from "../ipc/protocol";
 import type { Scenario } from "../types";
-import type { ExecutionProgress } from "../execution/executor";
+import type { ExecuteOptions, ExecutionProgress } from "../execution/executor";
 
 interface KeyEvent {
   name: string;
@@ -20,6 +25,7 @@ interface KeyEvent {
 
 interface PlayModalProps {
   scenario: Scenario;
+  range?: Pick<ExecuteOptions, "startIndex" | "endIndex">;
   onClose: () => void;
 }
 
@@ -27,7 +33,7 @@ type ModalPhase =
   | { phase: "capture" }
   | { phase: "ready"; hotkey: string; keyEvent: KeyEvent }
   | { phase: "executing"; progress: ExecutionProgress }
-  | { phase: "done"; error?: string };
+  | { phase: "done"; error?: string; redirects?: string[] };
 
 /**
  * Format a key event as a displayable hotkey string
@@ -63,9 +69,23 @@ function keysMatch(a: KeyEvent, b: KeyEvent): boolean {
   );
 }
 
-export function PlayModal({ scenario, onClose }: PlayModalProps) {
+/**
+ * Describe a partial run, or null when running the whole scenario
+ */
+function formatRange(
+  range: PlayModalProps["range"],
+  stepCount: number
+): string | null {
+  if (range?.startIndex === undefined && range?.endIndex === undefined) return null;
+  const first = (range.startIndex ?? 0) + 1;
+  const last = range.endIndex ?? stepCount;
+  return first === last ? `Step ${first} only` : `Steps ${first}-${last}`;
+}
+
+export function PlayModal({ scenario, range = {}, onClose }: PlayModalProps) {
   const [state, setState] = useState<ModalPhase>({ phase: "capture" });
   const abortControllerRef = useRef<AbortController | null>(null);
+  const executionControllerRef = useRef<ExecutionController | null>(null);
   const autoCloseTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Cleanup on unmount
@@ -81,6 +101,13 @@ export function PlayModal({ scenario, onClose }: PlayModalProps) {
   }, []);
 
   async function startExecution() {
+    // A run from the control server or the CLI may already be using the mouse and keyboard
+    const running = await activeRun();
+    if (running !== null) {
+      setState({ phase: "done", error: `"${running}" is already running` });
+      return;
+    }
+
     // Hide recorder overlay if visible
     try {
       await ipc.hideRecorderOverlay();
@@ -89,7 +116,8 @@ export function PlayModal({ scenario, onClose }: PlayModalProps) {
     }
 
     abortControllerRef.current = new AbortController();
-    
+    executionControllerRef.current = createExecutionController();
+
     const initialProgress: ExecutionProgress = {
       currentStep: 0,
       totalSteps: scenario.steps.length,
@@ -97,16 +125,23 @@ export function PlayModal({ scenario, onClose }: PlayModalProps) {
     };
     setState({ phase: "executing", progress: initialProgress });
 
+    let redirects: string[] | undefined;
     try {
       await executeScenario(
         scenario,
         abortControllerRef.current.signal,
-        (progress) => setState({ phase: "executing", progress })
+        (progress) => {
+          redirects = progress.redirects;
+          setState({ phase: "executing", progress });
+        },
+        { controller: executionControllerRef.current, ...range }
       );
-      setState({ phase: "done" });
-      
-      // Auto-close after success
-      autoCloseTimeoutRef.current = setTimeout(onClose, 1500);
+      setState({ phase: "done", redirects });
+
+      // Auto-close after success; a jump on timeout stays up so it gets noticed
+      if (!redirects) {
+        autoCloseTimeoutRef.current = setTimeout(onClose, 1500);
+      }
     } catch (e) {
       if (e instanceof DOMException && e.name === "AbortError") {
         setState({ phase: "done", error: "Aborted by user" });
@@ -144,9 +179,35 @@ export function PlayModal({ scenario, onClose }: PlayModalProps) {
       return;
     }
 
-    // During execution, only ESC works (handled above)
+    // Phase: executing - pause/resume and single-step
+    if (state.phase === "executing") {
+      const controller = executionControllerRef.current;
+      if (!controller) return;
+
+      if (key.name === "space") {
+        if (controller.isPaused()) {
+          controller.resume();
+        } else {
+          controller.pause();
+        }
+        return;
+      }
+
+      if (key.name === "n") {
+        controller.stepOver();
+        return;
+      }
+
+      if (key.name === "s") {
+        controller.stepInto();
+        return;
+      }
+    }
   });
 
+  const rangeLabel = formatRange(range, scenario.steps.length);
+  const isPaused = state.phase === "executing" && state.progress.status === "paused";
+
   // Modal content based on phase
   const renderContent = () => {
     switch (state.phase) {
@@ -172,7 +233,9 @@ export function PlayModal({ scenario, onClose }: PlayModalProps) {
               <text fg="#FFFFFF"> to execute</text>
             </box>
             {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
-            <text fg="#888888">"{scenario.name}"</text>
+            <text fg="#888888">
+              "{scenario.name}"{rangeLabel ? ` (${rangeLabel})` : ""}
+            </text>
             {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
             <text fg="#666666">(ESC to cancel)</text>
           </box>
@@ -193,14 +256,37 @@ export function PlayModal({ scenario, onClose }: PlayModalProps) {
                 total={state.progress.totalSteps}
               />
             </box>
+            {state.progress.iteration !== undefined && (
+              // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+              <text fg="#88FFFF">
+                Iteration {state.progress.iteration}
+                {state.progress.iterationCount !== undefined
+                  ? `/${state.progress.iterationCount}`
+                  : ""}
+              </text>
+            )}
+            {isPaused && state.progress.breakpoint !== undefined && (
+              // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+              <text fg="#FF4444">● Breakpoint at step {state.progress.breakpoint + 1}</text>
+            )}
+            {isPaused && state.progress.callStack && (
+              // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+              <text fg="#888888">{state.progress.callStack.join(" › ")}</text>
+            )}
             {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
-            <text fg="#888888">
-              {state.progress.status === "waiting"
-                ? "Waiting for condition..."
-                : state.progress.currentStepDescription ?? "Running..."}
+            <text fg={isPaused ? "#FFFF00" : "#888888"}>
+              {isPaused
+                ? `Paused before: ${state.progress.currentStepDescription ?? "next step"}`
+                : state.progress.status === "waiting"
+                  ? "Waiting for condition..."
+                  : state.progress.currentStepDescription ?? "Running..."}
             </text>
             {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
-            <text fg="#666666">(ESC to abort)</text>
+            <text fg="#666666">
+              {isPaused
+                ? "(SPACE resume, n step, s step into, ESC abort)"
+                : "(SPACE pause, ESC abort)"}
+            </text>
           </box>
         );
 
@@ -210,6 +296,9 @@ export function PlayModal({ scenario, onClose }: PlayModalProps) {
             {state.error ? (
               // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
               <text fg="#FF4444">Error: {state.error}</text>
+            ) : state.redirects ? (
+              // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+              <text fg="#FF8800">Timed out; finished in "{state.redirects[state.redirects.length - 1]}"</text>
             ) : (
               // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
               <text fg="#00FF00">Completed successfully!</text>
@@ -227,17 +316,19 @@ export function PlayModal({ scenario, onClose }: PlayModalProps) {
       top="50%"
       left="50%"
       width={50}
-      height={10}
+      height={isPaused ? 13 : 11}
       border
       borderStyle="double"
       borderColor={
-        state.phase === "executing"
-          ? "#00FFFF"
-          : state.phase === "done" && !state.error
-            ? "#00FF00"
-            : state.phase === "done" && state.error
-              ? "#FF4444"
-              : "#FFFF00"
+        isPaused
+          ? "#FFFF00"
+          : state.phase === "executing"
+            ? "#00FFFF"
+            : state.phase === "done" && !state.error
+              ? "#00FF00"
+              : state.phase === "done" && state.error
+                ? "#FF4444"
+                : "#FFFF00"
       }
       bg="#1a1a1a"
       flexDirection="column"
@@ -250,11 +341,13 @@ export function PlayModal({ scenario, onClose }: PlayModalProps) {
           ? "Set Trigger Key"
           : state.phase === "ready"
             ? "Ready to Execute"
-            : state.phase === "executing"
-              ? "Executing..."
-              : state.error
-                ? "Execution Failed"
-                : "Done"}
+            : isPaused
+              ? "Paused"
+              : state.phase === "executing"
+                ? "Executing..."
+                : state.error
+                  ? "Execution Failed"
+                  : "Done"}
       </text>
       {renderContent()}
     </box>
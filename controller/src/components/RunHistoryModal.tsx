@@ -0,0 +1,169 @@
+// controller/src/components/RunHistoryModal.tsx
+// Modal for browsing recent runs of a scenario and their step timings
+
+import { useState } from "react";
+import { useKeyboard } from "@opentui/react";
+import { runsStore, type RunOutcome, type RunRecord } from "../store/runs";
+import { useStoreSubscription } from "../hooks/useStoreSubscription";
+import type { Scenario } from "../types";
+
+interface RunHistoryModalProps {
+  scenario: Scenario;
+  onClose: () => void;
+}
+
+// How many runs and step timings fit in the modal at once
+const VISIBLE_RUNS = 6;
+const VISIBLE_STEPS = 8;
+
+const OUTCOME_STYLE: Record<RunOutcome, { icon: string; color: string }> = {
+  completed: { icon: "✓", color: "#00FF00" },
+  redirected: { icon: "↪", color: "#FF8800" },
+  aborted: { icon: "■", color: "#FFFF00" },
+  error: { icon: "✗", color: "#FF4444" },
+};
+
+/**
+ * Format a duration in ms as a short human-readable string
+ */
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  const minutes = Math.floor(ms / 60_000);
+  const seconds = Math.round((ms % 60_000) / 1000);
+  return `${minutes}m${seconds}s`;
+}
+
+/**
+ * Format a timestamp as local date and time
+ */
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  );
+}
+
+function RunRow({ run, isSelected }: { run: RunRecord; isSelected: boolean }) {
+  const { icon, color } = OUTCOME_STYLE[run.outcome];
+  const duration = formatDuration(run.endedAt - run.startedAt);
+  const bg = isSelected ? "#444488" : undefined;
+
+  return (
+    <box flexDirection="row">
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg={color} backgroundColor={bg}>{isSelected ? "> " : "  "}{icon} </text>
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg={isSelected ? "#FFFFFF" : "#AAAAAA"} backgroundColor={bg}>
+        {formatTime(run.startedAt)}  {duration.padStart(6)}  {run.steps.length + (run.droppedSteps ?? 0)} steps
+      </text>
+    </box>
+  );
+}
+
+function RunDetails({ run }: { run: RunRecord }) {
+  const totalWait = run.steps.reduce((sum, step) => sum + step.waitMs, 0);
+  // The note about dropped steps takes one of the step rows
+  const visibleSteps = run.droppedSteps !== undefined ? VISIBLE_STEPS - 1 : VISIBLE_STEPS;
+  const hidden = run.steps.length - visibleSteps;
+
+  return (
+    <box flexDirection="column">
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg={OUTCOME_STYLE[run.outcome].color}>
+        {run.outcome === "error" ? `Error: ${run.error ?? "unknown"}` : run.outcome}
+        {run.redirects ? ` to ${run.redirects.map((name) => `"${name}"`).join(" -> ")}` : ""}
+        {` · waited ${formatDuration(totalWait)}`}
+        {run.droppedSteps ? ` in the last ${run.steps.length} steps` : ""}
+      </text>
+      {run.droppedSteps !== undefined && (
+        // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+        <text fg="#666666">{run.droppedSteps} earlier steps not kept</text>
+      )}
+      {run.steps.slice(0, visibleSteps).map((step, i) => (
+        // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+        <text key={i} fg="#888888">
+          {`+${formatDuration(step.startedAt - run.startedAt)}`.padEnd(8)}
+          {formatDuration(step.durationMs).padStart(6)}
+          {step.waitMs > 0 ? " (wait) " : "        "}
+          {step.scenarioName !== run.scenarioName ? `[${step.scenarioName}] ` : ""}
+          {step.description}
+        </text>
+      ))}
+      {hidden > 0 && (
+        // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+        <text fg="#666666">... {hidden} more</text>
+      )}
+    </box>
+  );
+}
+
+export function RunHistoryModal({ scenario, onClose }: RunHistoryModalProps) {
+  useStoreSubscription(runsStore);
+  const runs = runsStore.getRunsForScenario(scenario.id);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const selected = runs[Math.min(selectedIndex, runs.length - 1)];
+  // Scroll the run list so the selection stays visible
+  const firstVisible = Math.max(
+    0,
+    Math.min(selectedIndex - VISIBLE_RUNS + 1, runs.length - VISIBLE_RUNS)
+  );
+
+  useKeyboard((key) => {
+    if (key.name === "escape" || key.name === "v") {
+      onClose();
+      return;
+    }
+    if (key.name === "j") {
+      setSelectedIndex((i) => Math.min(i + 1, runs.length - 1));
+      return;
+    }
+    if (key.name === "k") {
+      setSelectedIndex((i) => Math.max(i - 1, 0));
+      return;
+    }
+  });
+
+  return (
+    <box
+      position="absolute"
+      top="15%"
+      left="15%"
+      width="70%"
+      height={VISIBLE_RUNS + VISIBLE_STEPS + 8}
+      border
+      borderStyle="double"
+      borderColor="#00FFFF"
+      bg="#1a1a1a"
+      flexDirection="column"
+      padding={1}
+    >
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#FFFFFF" bold>
+        Run history: {scenario.name}
+      </text>
+
+      {runs.length === 0 ? (
+        // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+        <text fg="#666666">No runs yet. Press 'p' to play this scenario.</text>
+      ) : (
+        <box flexDirection="column">
+          {runs.slice(firstVisible, firstVisible + VISIBLE_RUNS).map((run, i) => (
+            <RunRow
+              key={run.id}
+              run={run}
+              isSelected={firstVisible + i === selectedIndex}
+            />
+          ))}
+          <box marginTop={1}>{selected && <RunDetails run={selected} />}</box>
+        </box>
+      )}
+
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#666666">(j/k: select run, ESC: close)</text>
+    </box>
+  );
+}
@@ -0,0 +1,156 @@
+// controller/src/components/ScenarioPickerModal.tsx
+// Fuzzy-searchable scenario picker for inserting scenario-ref steps
+
+import { useState } from "react";
+import { useKeyboard } from "@opentui/react";
+import { scenariosStore } from "../store/scenarios";
+import { createsCycle } from "../execution/executor";
+import type { Scenario } from "../types";
+
+interface ScenarioPickerModalProps {
+  parent: Scenario; // Scenario the reference will be inserted into
+  onPick: (scenario: Scenario) => void;
+  onClose: () => void;
+}
+
+// How many matches fit in the modal at once
+const VISIBLE_MATCHES = 10;
+
+interface Match {
+  scenario: Scenario;
+  score: number;
+  isCycle: boolean;
+}
+
+/**
+ * Score a case-insensitive subsequence match (higher is better, null if none).
+ * Consecutive characters and matches near the start score higher.
+ */
+function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+  let score = 0;
+  let lastIndex = -1;
+
+  for (const ch of q) {
+    const index = t.indexOf(ch, lastIndex + 1);
+    if (index === -1) return null;
+    score += index === lastIndex + 1 ? 3 : 1;
+    if (index === 0) score += 2;
+    lastIndex = index;
+  }
+  return score;
+}
+
+export function ScenarioPickerModal({ parent, onPick, onClose }: ScenarioPickerModalProps) {
+  const [query, setQuery] = useState("");
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Most recently used first; stable sort keeps that order among equal scores
+  const matches: Match[] = scenariosStore
+    .getSortedScenarios()
+    .flatMap((scenario) => {
+      const score = fuzzyScore(query, scenario.name);
+      if (score === null) return [];
+      return [{ scenario, score, isCycle: createsCycle(parent.id, scenario.id) }];
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const clampedIndex = Math.max(0, Math.min(selectedIndex, matches.length - 1));
+  const firstVisible = Math.max(
+    0,
+    Math.min(clampedIndex - VISIBLE_MATCHES + 1, matches.length - VISIBLE_MATCHES)
+  );
+
+  useKeyboard((key) => {
+    if (key.name === "escape") {
+      onClose();
+      return;
+    }
+    if (key.name === "return") {
+      const match = matches[clampedIndex];
+      if (!match) return;
+      if (match.isCycle) {
+        setMessage(
+          match.scenario.id === parent.id
+            ? "a scenario cannot run itself"
+            : `"${match.scenario.name}" already runs "${parent.name}"`
+        );
+        return;
+      }
+      onPick(match.scenario);
+      return;
+    }
+    if (key.name === "down" || (key.name === "j" && key.ctrl)) {
+      setSelectedIndex(Math.min(clampedIndex + 1, matches.length - 1));
+      return;
+    }
+    if (key.name === "up" || (key.name === "k" && key.ctrl)) {
+      setSelectedIndex(Math.max(clampedIndex - 1, 0));
+      return;
+    }
+    if (key.name === "backspace") {
+      setQuery((q) => q.slice(0, -1));
+      setSelectedIndex(0);
+      setMessage(null);
+      return;
+    }
+    if (key.sequence && key.sequence.length === 1 && !key.ctrl && !key.meta) {
+      setQuery((q) => q + key.sequence);
+      setSelectedIndex(0);
+      setMessage(null);
+      return;
+    }
+  });
+
+  return (
+    <box
+      position="absolute"
+      top="15%"
+      left="20%"
+      width="60%"
+      height={VISIBLE_MATCHES + 8}
+      border
+      borderStyle="double"
+      borderColor="#00FFFF"
+      bg="#1a1a1a"
+      flexDirection="column"
+      padding={1}
+    >
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#FFFFFF" bold>
+        Insert scenario into "{parent.name}"
+      </text>
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#00FF00">{"> "}{query}█</text>
+
+      {matches.length === 0 ? (
+        // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+        <text fg="#666666">No matching scenarios</text>
+      ) : (
+        <box flexDirection="column">
+          {matches.slice(firstVisible, firstVisible + VISIBLE_MATCHES).map((match, i) => {
+            const isSelected = firstVisible + i === clampedIndex;
+            const fg = match.isCycle ? "#666666" : isSelected ? "#FFFFFF" : "#AAAAAA";
+            return (
+              // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+              <text key={match.scenario.id} fg={fg} backgroundColor={isSelected ? "#444488" : undefined}>
+                {isSelected ? "> " : "  "}
+                {match.scenario.name} ({match.scenario.steps.length} steps)
+                {match.isCycle ? " [cycle]" : ""}
+              </text>
+            );
+          })}
+        </box>
+      )}
+
+      {message && (
+        // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+        <text fg="#FF6666">Cannot insert: {message}</text>
+      )}
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#666666">(type to filter, ↑/↓: select, Enter: insert, ESC: cancel)</text>
+    </box>
+  );
+}
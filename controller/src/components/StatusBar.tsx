@@ -3,21 +3,27 @@
 
 import { historyStore } from "../store/history";
 import { recorderStore } from "../store/recorder";
+import { editorStore } from "../store/editor";
 import { useStoreSubscription } from "../hooks/useStoreSubscription";
 import type { Column } from "../hooks/useVimNavigation";
 
 interface StatusBarProps {
   column: Column;
   isExecuting?: boolean;
+  error?: string | null;
 }
 
-export function StatusBar({ column, isExecuting = false }: StatusBarProps) {
+export function StatusBar({ column, isExecuting = false, error = null }: StatusBarProps) {
   const historyState = useStoreSubscription(historyStore);
   const recorderState = useStoreSubscription(recorderStore);
+  const editorState = useStoreSubscription(editorStore);
 
   const canUndo = historyStore.canUndo();
+  const canRedo = historyStore.canRedo();
   const isRecording = recorderState.status === "recording";
   const isNaming = recorderState.status === "naming";
+  const isRepicking = recorderState.status === "repicking";
+  const isEditing = editorState.status === "editing";
 
   // Build keybinding hints based on current column
   const hints: string[] = [];
@@ -30,6 +36,16 @@ export function StatusBar({ column, isExecuting = false }: StatusBarProps) {
     hints.push("Use overlay to capture actions");
   } else if (isNaming) {
     hints.push("Enter: confirm", "ESC: cancel", "Type scenario name...");
+  } else if (isRepicking) {
+    hints.push("ESC: cancel", "Pick a pixel (or drag a zone) with the magnifier");
+  } else if (isEditing) {
+    if (editorState.input !== null) {
+      hints.push("Enter: save", "ESC: cancel", "Type new value...");
+    } else {
+      hints.push("j/k: field", "Enter: change", "ESC: done");
+      if (canUndo) hints.push("u: undo");
+      if (canRedo) hints.push("C-r: redo");
+    }
   } else {
     // Navigation hints
     hints.push("h/l: columns", "j/k: rows");
@@ -37,19 +53,26 @@ export function StatusBar({ column, isExecuting = false }: StatusBarProps) {
     // Context-specific hints
     if (column === 0) {
       hints.push("C-l: select", "c: create", "n: rename", "r: record");
+      hints.push("y: duplicate", "d: delete", "N: parameters", "E: export", "I: import");
     } else if (column === 1) {
       hints.push("C-h: back", "C-j/k: reorder", "d: delete", "r: record");
+      hints.push("b: breakpoint", "e: run step", "P: play from", "i: insert ref");
+      hints.push("R: re-pick");
     } else {
-      hints.push("C-h: back");
+      hints.push("C-h: back", "Enter: edit step", "T: test pixel", "C: calibrate");
     }
 
     // Action hints
-    hints.push("p: play");
+    hints.push("p: play", "v: runs", "t: trash");
 
     if (canUndo) {
       hints.push("u: undo");
     }
 
+    if (canRedo) {
+      hints.push("C-r: redo");
+    }
+
     hints.push("q: quit");
   }
 
@@ -73,11 +96,17 @@ export function StatusBar({ column, isExecuting = false }: StatusBarProps) {
         {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
         <text fg="#666666">{columnIndicator}</text>
         {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+        {error && <text fg="#FF4444">{error}</text>}
+        {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
         {isExecuting && <text fg="#00FFFF">▶ EXECUTING</text>}
         {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
         {isRecording && !isExecuting && <text fg="#FF4444">● RECORDING</text>}
         {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
         {isNaming && !isExecuting && <text fg="#00FF00">✎ NAMING</text>}
+        {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+        {isEditing && !isExecuting && <text fg="#00FFFF">✎ EDITING</text>}
+        {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+        {isRepicking && !isExecuting && <text fg="#FF88FF">◎ RE-PICKING</text>}
       </box>
     </box>
   );
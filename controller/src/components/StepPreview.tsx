@@ -1,8 +1,26 @@
 // controller/src/components/StepPreview.tsx
 // Detailed preview of the selected step
 
-import type { Step } from "../types";
+import { useState } from "react";
+import { useKeyboard } from "@opentui/react";
+import type { PixelCondition, RGB, Step, StepBindings, StepBlock } from "../types";
 import { scenariosStore } from "../store/scenarios";
+import { trashStore } from "../store/trash";
+import { editorStore } from "../store/editor";
+import {
+  describeStep,
+  DEFAULT_MAX_ITERATIONS,
+  MAX_TIMEOUT_RETRIES,
+} from "../execution/executor";
+import { sampleCondition, type PixelSample } from "../execution/sampling";
+import {
+  formatParameterList,
+  parameterDefaults,
+  resolveStep,
+  stepBindings,
+  substitute,
+  type Variables,
+} from "../execution/parameters";
 import { useStoreSubscription } from "../hooks/useStoreSubscription";
 
 interface StepPreviewProps {
@@ -151,6 +169,27 @@ function KeypressPreview({ step }: KeypressPreviewProps) {
   );
 }
 
+interface TypeTextPreviewProps {
+  step: Extract<Step, { type: "type-text" }>;
+}
+
+function TypeTextPreview({ step }: TypeTextPreviewProps) {
+  const characters = [...step.text].length;
+  return (
+    <box flexDirection="column" gap={1}>
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#FFCC88">Type Text Action</text>
+      <text>Text: {JSON.stringify(step.text)}</text>
+      <text>Characters: {characters}</text>
+      {step.charDelayMs !== undefined && <text>Delay per character: {step.charDelayMs}ms</text>}
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#666666">
+        Types the text one key at a time, holding Shift for capitals and symbols.
+      </text>
+    </box>
+  );
+}
+
 interface DelayPreviewProps {
   step: Extract<Step, { type: "delay" }>;
 }
@@ -170,13 +209,93 @@ function DelayPreview({ step }: DelayPreviewProps) {
   );
 }
 
+/**
+ * Configured timeout and what happens when it expires
+ */
+function TimeoutInfo({ step }: { step: PixelCondition }) {
+  if (step.timeoutMs === undefined) {
+    return <text>Timeout: none (waits indefinitely)</text>;
+  }
+
+  const policy = step.onTimeout ?? "fail";
+  let then: string;
+  if (typeof policy === "object") {
+    const target = scenariosStore.getScenarioById(policy.goto);
+    then = `go to "${target?.name ?? policy.goto}"`;
+  } else if (policy === "retry") {
+    then = `retry up to ${MAX_TIMEOUT_RETRIES} times`;
+  } else {
+    then = policy;
+  }
+
+  return <text>Timeout: {step.timeoutMs}ms, then {then}</text>;
+}
+
+function toHex({ r, g, b }: RGB): string {
+  return `#${[r, g, b].map((c) => c.toString(16).padStart(2, "0")).join("")}`.toUpperCase();
+}
+
+type LiveCheckState =
+  | { status: "idle" }
+  | { status: "checking" }
+  | { status: "done"; sample: PixelSample }
+  | { status: "error"; message: string };
+
+/**
+ * Compare the live screen against a pixel condition on demand (Shift+T)
+ */
+function LiveCheck({ condition, focused }: { condition: PixelCondition; focused: boolean }) {
+  const [check, setCheck] = useState<LiveCheckState>({ status: "idle" });
+
+  useKeyboard((key) => {
+    if (!focused || key.name !== "t" || !key.shift || check.status === "checking") return;
+    setCheck({ status: "checking" });
+    sampleCondition(condition)
+      .then((sample) => setCheck({ status: "done", sample }))
+      .catch((error) => setCheck({ status: "error", message: String(error) }));
+  });
+
+  if (check.status === "idle") {
+    return focused ? (
+      // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+      <text fg="#88FF88">Press Shift+T to test against the screen now</text>
+    ) : null;
+  }
+  if (check.status === "checking") {
+    // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+    return <text fg="#888888">Reading screen...</text>;
+  }
+  if (check.status === "error") {
+    // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+    return <text fg="#FF6666">Test failed: {check.message}</text>;
+  }
+
+  const { sample } = check;
+  const current = toHex(sample.color);
+  return (
+    <box flexDirection="column">
+      <text>
+        {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+        Now: <text fg={current}>{"\u2588\u2588\u2588\u2588"}</text> {current} at ({sample.position.x}, {sample.position.y})
+        {condition.type === "pixel-zone" ? " (closest in zone)" : ""}
+      </text>
+      <text>
+        Distance: {sample.distance.toFixed(1)} / threshold {condition.threshold}
+        {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+        {"  "}<text fg={sample.matched ? "#00FF00" : "#FF4444"}>{sample.matched ? "\u2713 match" : "\u2717 no match"}</text>
+      </text>
+    </box>
+  );
+}
+
 interface PixelStatePreviewProps {
   step: Extract<Step, { type: "pixel-state" }>;
+  focused: boolean;
 }
 
-function PixelStatePreview({ step }: PixelStatePreviewProps) {
+function PixelStatePreview({ step, focused }: PixelStatePreviewProps) {
   const { r, g, b } = step.color;
-  const hexColor = `#${r.toString(16).padStart(2, "0")}${g.toString(16).padStart(2, "0")}${b.toString(16).padStart(2, "0")}`.toUpperCase();
+  const hexColor = toHex(step.color);
 
   return (
     <box flexDirection="column" gap={1}>
@@ -188,6 +307,9 @@ function PixelStatePreview({ step }: PixelStatePreviewProps) {
         Color: <text fg={hexColor}>{"\u2588\u2588\u2588\u2588"}</text> {hexColor} (RGB: {r}, {g}, {b})
       </text>
       <text>Threshold: {step.threshold}</text>
+      <TimeoutInfo step={step} />
+      {/* Reset the result whenever the step changes */}
+      <LiveCheck key={JSON.stringify(step)} condition={step} focused={focused} />
       <ScreenPositionDiagram x={step.position.x} y={step.position.y} color={hexColor} />
       {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
       <text fg="#666666">
@@ -200,11 +322,12 @@ function PixelStatePreview({ step }: PixelStatePreviewProps) {
 
 interface PixelZonePreviewProps {
   step: Extract<Step, { type: "pixel-zone" }>;
+  focused: boolean;
 }
 
-function PixelZonePreview({ step }: PixelZonePreviewProps) {
+function PixelZonePreview({ step, focused }: PixelZonePreviewProps) {
   const { r, g, b } = step.color;
-  const hexColor = `#${r.toString(16).padStart(2, "0")}${g.toString(16).padStart(2, "0")}${b.toString(16).padStart(2, "0")}`.toUpperCase();
+  const hexColor = toHex(step.color);
   const { x, y, width, height } = step.rect;
 
   return (
@@ -217,6 +340,8 @@ function PixelZonePreview({ step }: PixelZonePreviewProps) {
         Color: <text fg={hexColor}>{"\u2588\u2588\u2588\u2588"}</text> {hexColor} (RGB: {r}, {g}, {b})
       </text>
       <text>Threshold: {step.threshold}</text>
+      <TimeoutInfo step={step} />
+      <LiveCheck key={JSON.stringify(step)} condition={step} focused={focused} />
       <ScreenZoneDiagram x={x} y={y} width={width} height={height} color={hexColor} />
       {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
       <text fg="#666666">
@@ -226,12 +351,44 @@ function PixelZonePreview({ step }: PixelZonePreviewProps) {
   );
 }
 
+/**
+ * A template's value under the given variables, for display
+ */
+function previewTemplate(template: string, vars: Variables): string {
+  try {
+    return substitute(template, vars);
+  } catch (error) {
+    return `? (${error instanceof Error ? error.message : String(error)})`;
+  }
+}
+
+/**
+ * Fields that take their value from parameters, with the template and the
+ * value it resolves to using the scenario's defaults
+ */
+function BindingsInfo({ bindings, vars }: { bindings: StepBindings; vars: Variables }) {
+  const entries = Object.entries(bindings);
+  if (entries.length === 0) return null;
+
+  return (
+    <box flexDirection="column">
+      <text>Bound fields (resolved with defaults):</text>
+      {entries.map(([field, template]) => (
+        // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+        <text key={field} fg="#AAAAAA">  {field}: {template} {"\u2192"} {previewTemplate(template, vars)}</text>
+      ))}
+    </box>
+  );
+}
+
 interface ScenarioRefPreviewProps {
   step: Extract<Step, { type: "scenario-ref" }>;
+  vars: Variables; // The calling scenario's defaults
 }
 
-function ScenarioRefPreview({ step }: ScenarioRefPreviewProps) {
+function ScenarioRefPreview({ step, vars }: ScenarioRefPreviewProps) {
   const referencedScenario = scenariosStore.getScenarioById(step.scenarioId);
+  const trashed = referencedScenario ? null : trashStore.getById(step.scenarioId);
 
   return (
     <box flexDirection="column" gap={1}>
@@ -241,9 +398,27 @@ function ScenarioRefPreview({ step }: ScenarioRefPreviewProps) {
         <>
           <text>Name: {referencedScenario.name}</text>
           <text>Steps: {referencedScenario.steps.length}</text>
+          {referencedScenario.parameters && (
+            <text>Parameters: {formatParameterList(referencedScenario.parameters)}</text>
+          )}
+          {step.args && (
+            <box flexDirection="column">
+              <text>Arguments:</text>
+              {Object.entries(step.args).map(([name, template]) => (
+                // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+                <text key={name} fg="#AAAAAA">  {name} = {template} {"\u2192"} {previewTemplate(template, vars)}</text>
+              ))}
+            </box>
+          )}
           {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
           <text fg="#88FF88">Press Ctrl+L to enter sub-scenario</text>
         </>
+      ) : trashed ? (
+        <>
+          <text>Name: {trashed.scenario.name}</text>
+          {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+          <text fg="#FFAA44">Scenario is in the trash. Press 't' to restore it.</text>
+        </>
       ) : (
         <>
           <text>ID: {step.scenarioId}</text>
@@ -259,8 +434,136 @@ function ScenarioRefPreview({ step }: ScenarioRefPreviewProps) {
   );
 }
 
+/**
+ * One-line summary of a nested block
+ */
+function describeBlock(block: StepBlock): string {
+  if (Array.isArray(block)) {
+    return `${block.length} steps`;
+  }
+  const scenario = scenariosStore.getScenarioById(block.scenarioId);
+  if (scenario) return `Run "${scenario.name}"`;
+  const trashed = trashStore.getById(block.scenarioId);
+  return trashed
+    ? `Run "${trashed.scenario.name}" (in trash)`
+    : `[${block.scenarioId}] (not found)`;
+}
+
+interface LoopPreviewProps {
+  step: Extract<Step, { type: "loop" }>;
+}
+
+function LoopPreview({ step }: LoopPreviewProps) {
+  const maxIterations = step.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+
+  return (
+    <box flexDirection="column" gap={1}>
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#88FFFF">Loop</text>
+      {Array.isArray(step.body) ? (
+        <box flexDirection="column">
+          <text>Body: {step.body.length} steps</text>
+          {step.body.map((bodyStep, i) => (
+            // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+            <text key={i} fg="#AAAAAA">  {i + 1}. {describeStep(bodyStep)}</text>
+          ))}
+        </box>
+      ) : (
+        <text>Body: {describeBlock(step.body)}</text>
+      )}
+      {step.count !== undefined && <text>Count: {step.count}</text>}
+      {step.until && <text>Until: {describeStep(step.until)}</text>}
+      <text>Max iterations: {maxIterations}</text>
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#666666">
+        Repeats the body {step.count !== undefined ? `${step.count} times` : "until the condition matches"},
+        never more than {maxIterations} times.
+      </text>
+    </box>
+  );
+}
+
+interface IfPreviewProps {
+  step: Extract<Step, { type: "if" }>;
+}
+
+function IfPreview({ step }: IfPreviewProps) {
+  const { r, g, b } = step.condition.color;
+  const hexColor = toHex(step.condition.color);
+  const cond = step.condition;
+
+  return (
+    <box flexDirection="column" gap={1}>
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#AAAAFF">Conditional Branch</text>
+      {cond.type === "pixel-state" ? (
+        <text>If pixel at ({cond.position.x}, {cond.position.y})</text>
+      ) : (
+        <text>If zone ({cond.rect.x}, {cond.rect.y}) {cond.rect.width}x{cond.rect.height}</text>
+      )}
+      <text>
+        {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+        Color: <text fg={hexColor}>{"\u2588\u2588\u2588\u2588"}</text> {hexColor} (RGB: {r}, {g}, {b})
+      </text>
+      <text>Threshold: {cond.threshold}</text>
+      <text>Then: {describeBlock(step.then)}</text>
+      <text>Else: {step.else ? describeBlock(step.else) : "(nothing)"}</text>
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#666666">
+        Checks the color once and runs the matching branch without waiting.
+      </text>
+    </box>
+  );
+}
+
+/**
+ * Field-by-field form for the step being edited
+ */
+function StepEditor({ step }: { step: Step }) {
+  const editorState = useStoreSubscription(editorStore);
+  const target = editorStore.getTarget();
+  if (editorState.status !== "editing" || !target) return null;
+
+  const { fieldIndex, input, error } = editorState;
+  const labelWidth = Math.max(...target.fields.map((f) => f.label.length));
+
+  return (
+    <box flexDirection="column" gap={1}>
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#00FFFF">Edit: {describeStep(step)}</text>
+      <box flexDirection="column">
+        {target.fields.map((field, i) => {
+          const isSelected = i === fieldIndex;
+          const isTyping = isSelected && input !== null;
+          const value = isTyping ? `${input}\u2588` : field.get(step) || "(none)";
+          return (
+            // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+            <text key={field.key} fg={isTyping ? "#00FF00" : isSelected ? "#FFFF00" : "#AAAAAA"} backgroundColor={isSelected ? "#333366" : undefined}>
+              {isSelected ? "> " : "  "}
+              {field.label.padEnd(labelWidth)}  {value}
+              {isTyping && field.hint ? `  (${field.hint})` : ""}
+            </text>
+          );
+        })}
+      </box>
+      {error && (
+        // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+        <text fg="#FF6666">{error}</text>
+      )}
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#666666">
+        {input !== null
+          ? "Enter: save, ESC: cancel"
+          : "j/k: field, Enter: change value, ESC: done, u: undo"}
+      </text>
+    </box>
+  );
+}
+
 export function StepPreview({ focused }: StepPreviewProps) {
   const state = useStoreSubscription(scenariosStore);
+  const editorState = useStoreSubscription(editorStore);
+  useStoreSubscription(trashStore);
   const scenario = scenariosStore.getSelectedScenario();
   const { selectedStepIndex } = state;
 
@@ -283,14 +586,43 @@ export function StepPreview({ focused }: StepPreviewProps) {
     );
   }
 
+  const isEditing =
+    editorState.status === "editing" &&
+    editorState.scenarioId === scenario.id &&
+    editorState.stepIndex === selectedStepIndex;
+  if (isEditing) {
+    return (
+      <box flexDirection="column" padding={1}>
+        <StepEditor step={step} />
+      </box>
+    );
+  }
+
+  // Show bound fields with their default values; fall back to the stored values
+  const vars = parameterDefaults(scenario);
+  let resolved = step;
+  try {
+    resolved = resolveStep(step, vars);
+  } catch {
+    // Unresolvable bindings are listed below
+  }
+
   return (
     <box flexDirection="column" padding={1}>
-      {step.type === "click" && <ClickPreview step={step} />}
-      {step.type === "keypress" && <KeypressPreview step={step} />}
-      {step.type === "delay" && <DelayPreview step={step} />}
-      {step.type === "pixel-state" && <PixelStatePreview step={step} />}
-      {step.type === "pixel-zone" && <PixelZonePreview step={step} />}
-      {step.type === "scenario-ref" && <ScenarioRefPreview step={step} />}
+      {resolved.type === "click" && <ClickPreview step={resolved} />}
+      {resolved.type === "keypress" && <KeypressPreview step={resolved} />}
+      {resolved.type === "type-text" && <TypeTextPreview step={resolved} />}
+      {resolved.type === "delay" && <DelayPreview step={resolved} />}
+      {resolved.type === "pixel-state" && <PixelStatePreview step={resolved} focused={focused} />}
+      {resolved.type === "pixel-zone" && <PixelZonePreview step={resolved} focused={focused} />}
+      {resolved.type === "scenario-ref" && <ScenarioRefPreview step={resolved} vars={vars} />}
+      {resolved.type === "loop" && <LoopPreview step={resolved} />}
+      {resolved.type === "if" && <IfPreview step={resolved} />}
+      <BindingsInfo bindings={stepBindings(step)} vars={vars} />
+      {focused && (
+        // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+        <text fg="#88FF88">Press Enter to edit this step</text>
+      )}
     </box>
   );
 }
@@ -1,7 +1,7 @@
 // controller/src/components/StepsViewer.tsx
 // Display steps of the selected scenario
 
-import type { Step, Scenario } from "../types";
+import type { Step, StepBlock, Scenario } from "../types";
 import { scenariosStore } from "../store/scenarios";
 import { useStoreSubscription } from "../hooks/useStoreSubscription";
 
@@ -14,6 +14,7 @@ interface StepRowProps {
   step: Step;
   index: number;
   isFocused: boolean;
+  hasBreakpoint: boolean;
 }
 
 /**
@@ -46,6 +47,8 @@ function formatStep(step: Step, index: number): string {
         .join("");
       return `${num} Key ${mods}${step.key.toUpperCase()}`;
     }
+    case "type-text":
+      return `${num} Type ${JSON.stringify(step.text)}`;
     case "delay":
       return `${num} Delay ${step.ms}ms`;
     case "pixel-state":
@@ -54,13 +57,66 @@ function formatStep(step: Step, index: number): string {
       return `${num} Zone ${step.rect.width}x${step.rect.height}`;
     case "scenario-ref":
       return `${num} -> [${step.scenarioId}]`;
+    case "loop": {
+      const times =
+        step.count !== undefined ? ` ${step.count}x` : step.until ? " until match" : "";
+      const body = Array.isArray(step.body)
+        ? `${step.body.length} steps`
+        : `-> [${step.body.scenarioId}]`;
+      return `${num} Loop${times} (${body})`;
+    }
+    case "if": {
+      const cond = step.condition;
+      return cond.type === "pixel-state"
+        ? `${num} If pixel (${cond.position.x}, ${cond.position.y})`
+        : `${num} If zone ${cond.rect.width}x${cond.rect.height}`;
+    }
     default:
       return `${num} Unknown step`;
   }
 }
 
-function StepRow({ step, index, isFocused }: StepRowProps) {
-  const prefix = isFocused ? "> " : "  ";
+const INDENT = "   ";
+
+/**
+ * Format the contents of a nested block as indented lines
+ */
+function formatBlock(block: StepBlock, depth: number): string[] {
+  const pad = INDENT.repeat(depth);
+  if (!Array.isArray(block)) {
+    return [`${pad}-> [${block.scenarioId}]`];
+  }
+  if (block.length === 0) {
+    return [`${pad}(empty)`];
+  }
+  return block.flatMap((step, i) => [
+    `${pad}${formatStep(step, i)}`,
+    ...formatNested(step, depth + 1),
+  ]);
+}
+
+/**
+ * Lines shown under a control-flow step for its nested blocks
+ */
+function formatNested(step: Step, depth: number): string[] {
+  const pad = INDENT.repeat(depth);
+  switch (step.type) {
+    case "loop":
+      // Scenario-ref bodies are already shown on the loop line
+      return Array.isArray(step.body) ? formatBlock(step.body, depth) : [];
+    case "if":
+      return [
+        `${pad}then:`,
+        ...formatBlock(step.then, depth + 1),
+        ...(step.else ? [`${pad}else:`, ...formatBlock(step.else, depth + 1)] : []),
+      ];
+    default:
+      return [];
+  }
+}
+
+function StepRow({ step, index, isFocused, hasBreakpoint }: StepRowProps) {
+  const prefix = isFocused ? ">" : " ";
   const content = formatStep(step, index);
 
   // Color based on step type
@@ -70,6 +126,7 @@ function StepRow({ step, index, isFocused }: StepRowProps) {
       fg = "#88CCFF"; // Light blue
       break;
     case "keypress":
+    case "type-text":
       fg = "#FFCC88"; // Light orange
       break;
     case "delay":
@@ -82,6 +139,12 @@ function StepRow({ step, index, isFocused }: StepRowProps) {
     case "scenario-ref":
       fg = "#FFFF88"; // Light yellow
       break;
+    case "loop":
+      fg = "#88FFFF"; // Light cyan
+      break;
+    case "if":
+      fg = "#AAAAFF"; // Light violet
+      break;
   }
 
   if (isFocused) {
@@ -89,12 +152,33 @@ function StepRow({ step, index, isFocused }: StepRowProps) {
   }
 
   const bg = isFocused ? "#444488" : undefined;
+  const nested = formatNested(step, 1);
+
+  const row = (
+    <box flexDirection="row">
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg={fg} backgroundColor={bg}>{prefix}</text>
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg="#FF4444" backgroundColor={bg}>{hasBreakpoint ? "●" : " "}</text>
+      {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+      <text fg={fg} backgroundColor={bg}>{content}</text>
+    </box>
+  );
+
+  if (nested.length === 0) {
+    return row;
+  }
 
   return (
-    // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
-    <text fg={fg} backgroundColor={bg}>
-      {prefix}{content}
-    </text>
+    <box flexDirection="column">
+      {row}
+      {nested.map((line, i) => (
+        // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+        <text key={i} fg="#888888">
+          {"  "}{line}
+        </text>
+      ))}
+    </box>
   );
 }
 
@@ -139,6 +223,7 @@ export function StepsViewer({ focused, isInSubScenario = false }: StepsViewerPro
           step={step}
           index={index}
           isFocused={focused && index === selectedStepIndex}
+          hasBreakpoint={scenario.breakpoints?.includes(index) ?? false}
         />
       ))}
     </box>
@@ -0,0 +1,145 @@
+// controller/src/components/TrashModal.tsx
+// Modal listing deleted scenarios for restoring or purging
+
+import { useState } from "react";
+import { useKeyboard } from "@opentui/react";
+import { trashStore, type TrashedScenario } from "../store/trash";
+import { historyStore } from "../store/history";
+import { scenariosStore } from "../store/scenarios";
+import { useStoreSubscription } from "../hooks/useStoreSubscription";
+import { ConfirmModal } from "./ConfirmModal";
+
+interface TrashModalProps {
+  onClose: () => void;
+}
+
+// How many deleted scenarios fit in the modal at once
+const VISIBLE_ITEMS = 10;
+
+/**
+ * Format a timestamp as local date and time
+ */
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+}
+
+export function TrashModal({ onClose }: TrashModalProps) {
+  useStoreSubscription(trashStore);
+  useStoreSubscription(scenariosStore);
+  const items = trashStore.getItems();
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  // Item waiting for y/n before being deleted forever
+  const [pendingPurge, setPendingPurge] = useState<TrashedScenario | null>(null);
+
+  const clampedIndex = Math.min(selectedIndex, items.length - 1);
+  const selected = items[clampedIndex];
+  const referrers = selected
+    ? scenariosStore.getReferencingScenarios(selected.scenario.id)
+    : [];
+  // Scroll the list so the selection stays visible
+  const firstVisible = Math.max(
+    0,
+    Math.min(clampedIndex - VISIBLE_ITEMS + 1, items.length - VISIBLE_ITEMS)
+  );
+
+  useKeyboard((key) => {
+    // The confirmation handles keys while it is open
+    if (pendingPurge) return;
+
+    if (key.name === "escape" || key.name === "t") {
+      onClose();
+      return;
+    }
+    if (key.name === "j") {
+      setSelectedIndex((i) => Math.min(i + 1, items.length - 1));
+      return;
+    }
+    if (key.name === "k") {
+      setSelectedIndex((i) => Math.max(i - 1, 0));
+      return;
+    }
+    if (key.name === "return" && selected) {
+      // Restore and jump to it
+      historyStore.restoreFromTrash(selected.scenario.id);
+      onClose();
+      return;
+    }
+    if (key.name === "x" && selected) {
+      setPendingPurge(selected);
+      return;
+    }
+  });
+
+  return (
+    <>
+      <box
+        position="absolute"
+        top="15%"
+        left="20%"
+        width="60%"
+        height={VISIBLE_ITEMS + 8}
+        border
+        borderStyle="double"
+        borderColor="#00FFFF"
+        bg="#1a1a1a"
+        flexDirection="column"
+        padding={1}
+      >
+        {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+        <text fg="#FFFFFF" bold>
+          Trash ({items.length})
+        </text>
+
+        {items.length === 0 ? (
+          // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+          <text fg="#666666">Trash is empty.</text>
+        ) : (
+          <box flexDirection="column">
+            {items.slice(firstVisible, firstVisible + VISIBLE_ITEMS).map((item, i) => {
+              const isSelected = firstVisible + i === clampedIndex;
+              return (
+                // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+                <text key={item.scenario.id} fg={isSelected ? "#FFFFFF" : "#AAAAAA"} backgroundColor={isSelected ? "#444488" : undefined}>
+                  {isSelected ? "> " : "  "}
+                  {formatTime(item.deletedAt)}  {item.scenario.name} ({item.scenario.steps.length} steps)
+                </text>
+              );
+            })}
+            {referrers.length > 0 && (
+              // @ts-expect-error -- OpenTUI text element conflicts with React SVG text type
+              <text fg="#FFFF00">
+                Referenced by: {referrers.map((s) => s.name).join(", ")}
+              </text>
+            )}
+          </box>
+        )}
+
+        {/* @ts-expect-error -- OpenTUI text element conflicts with React SVG text type */}
+        <text fg="#666666">(j/k: select, Enter: restore, x: delete forever, ESC: close)</text>
+      </box>
+
+      {/* Purge confirmation */}
+      {pendingPurge && (
+        <ConfirmModal
+          title="Purge 1 item?"
+          lines={[
+            `"${pendingPurge.scenario.name}" will be deleted forever. This can't be undone.`,
+            ...(referrers.length > 0
+              ? [`Referenced by: ${referrers.map((s) => s.name).join(", ")}`]
+              : []),
+          ]}
+          onConfirm={() => {
+            trashStore.remove(pendingPurge.scenario.id);
+            setPendingPurge(null);
+          }}
+          onCancel={() => setPendingPurge(null)}
+        />
+      )}
+    </>
+  );
+}
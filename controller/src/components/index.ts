@@ -7,4 +7,11 @@ export { StepsViewer } from "./StepsViewer";
 export { StepPreview } from "./StepPreview";
 export { StatusBar } from "./StatusBar";
 export { PlayModal } from "./PlayModal";
+export { RunHistoryModal } from "./RunHistoryModal";
+export { ConfirmModal } from "./ConfirmModal";
+export { TrashModal } from "./TrashModal";
+export { ScenarioPickerModal } from "./ScenarioPickerModal";
+export { CalibrationModal } from "./CalibrationModal";
+export { BundleModal } from "./BundleModal";
+export { ParametersModal } from "./ParametersModal";
 export { ProgressBar } from "./ProgressBar";
@@ -0,0 +1,154 @@
+// controller/src/editor/fields.test.ts
+// Tests for step field parsing, validation and the step editor
+
+import { afterEach, describe, expect, test } from "bun:test";
+import { mockPersistence } from "../test/mockPersistence";
+
+mockPersistence();
+
+import { editorStore } from "../store/editor";
+import { historyStore } from "../store/history";
+import { scenariosStore } from "../store/scenarios";
+import type { Step } from "../types";
+import { getStepFields } from "./fields";
+
+const PIXEL: Step = {
+  type: "pixel-state",
+  position: { x: 10, y: 20 },
+  color: { r: 255, g: 0, b: 0 },
+  threshold: 15,
+};
+
+/**
+ * Set one field by key
+ */
+function set(step: Step, key: string, input: string): Step {
+  const field = getStepFields(step).find((f) => f.key === key);
+  if (!field) throw new Error(`No field ${key} on ${step.type}`);
+  return field.set(step, input);
+}
+
+afterEach(() => {
+  editorStore.close();
+  for (const scenario of scenariosStore.getState().scenarios) {
+    scenariosStore.deleteScenario(scenario.id);
+  }
+  historyStore.clear();
+});
+
+describe("getStepFields", () => {
+  test("sets nested values without touching the rest of the step", () => {
+    expect(set(PIXEL, "g", "128")).toEqual({ ...PIXEL, color: { r: 255, g: 128, b: 0 } });
+    expect(set(PIXEL, "y", "5")).toEqual({ ...PIXEL, position: { x: 10, y: 5 } });
+    expect(set(PIXEL, "timeoutMs", "500")).toEqual({ ...PIXEL, timeoutMs: 500 });
+    expect(set({ ...PIXEL, timeoutMs: 500 }, "timeoutMs", "")).toEqual({
+      ...PIXEL,
+      timeoutMs: undefined,
+    });
+  });
+
+  test("validates thresholds, colors and durations", () => {
+    expect(set(PIXEL, "threshold", "441").type).toBe("pixel-state");
+    expect(() => set(PIXEL, "threshold", "442")).toThrow("Threshold must be 0-441");
+    expect(() => set(PIXEL, "r", "256")).toThrow("Red must be 0-255");
+    expect(() => set(PIXEL, "b", "1.5")).toThrow("Blue must be a whole number");
+    expect(() => set({ type: "delay", ms: 10 }, "ms", "-1")).toThrow(
+      "Duration must be at least 0"
+    );
+    expect(() => set({ type: "delay", ms: 10 }, "ms", "soon")).toThrow(
+      "Duration must be a number"
+    );
+  });
+
+  test("parses keypress modifiers", () => {
+    const step: Step = { type: "keypress", key: "a", modifiers: [] };
+    expect(set(step, "modifiers", "Cmd+shift")).toEqual({ ...step, modifiers: ["cmd", "shift"] });
+    expect(() => set(step, "modifiers", "hyper")).toThrow('Unknown modifier "hyper"');
+  });
+
+  test("edits the condition of an if step", () => {
+    const step: Step = { type: "if", condition: PIXEL, then: [] };
+    const fields = getStepFields(step).map((f) => f.key);
+
+    expect(fields).not.toContain("timeoutMs");
+    expect(set(step, "x", "99")).toEqual({
+      ...step,
+      condition: { ...PIXEL, position: { x: 99, y: 20 } },
+    });
+  });
+
+  test("stores templates as bindings and clears them on a plain value", () => {
+    const click: Step = { type: "click", position: { x: 1, y: 2 }, button: "left" };
+    const bound = set(click, "x", "${left}");
+    expect(bound).toEqual({ ...click, bindings: { "position.x": "${left}" } });
+    expect(getStepFields(bound)[0]?.get(bound)).toBe("${left}");
+    expect(set(bound, "x", "30")).toEqual({ ...click, position: { x: 30, y: 2 } });
+
+    const step: Step = { type: "if", condition: PIXEL, then: [] };
+    expect(set(step, "r", "${red}")).toEqual({
+      ...step,
+      condition: { ...PIXEL, bindings: { "color.r": "${red}" } },
+    });
+    expect(() => set(click, "y", "${top")).toThrow('Unclosed "${"');
+  });
+
+  test("parses scenario reference arguments", () => {
+    const ref: Step = { type: "scenario-ref", scenarioId: "abc" };
+    expect(set(ref, "args", "user=admin, x=${x}")).toEqual({
+      ...ref,
+      args: { user: "admin", x: "${x}" },
+    });
+    expect(set({ ...ref, args: { user: "admin" } }, "args", "")).toEqual({ ...ref, args: undefined });
+    expect(() => set(ref, "args", "user")).toThrow('Argument "user" needs a value');
+  });
+});
+
+describe("editorStore", () => {
+  test("writes valid input to the step as an undoable edit", () => {
+    const { id } = historyStore.createScenario("Edited");
+    historyStore.addStep(id, { type: "delay", ms: 100 });
+
+    editorStore.open(id, 0);
+    editorStore.beginInput();
+    editorStore.backspaceInput();
+    editorStore.backspaceInput();
+    editorStore.appendInput("5");
+    expect(editorStore.commitInput()).toBe(true);
+    expect(scenariosStore.getScenarioById(id)?.steps[0]).toEqual({ type: "delay", ms: 15 });
+
+    historyStore.undo();
+    expect(scenariosStore.getScenarioById(id)?.steps[0]).toEqual({ type: "delay", ms: 100 });
+  });
+
+  test("keeps invalid input open with an error", () => {
+    const { id } = historyStore.createScenario("Invalid");
+    historyStore.addStep(id, PIXEL);
+
+    editorStore.open(id, 0);
+    editorStore.moveField(-2); // Wraps around to the threshold field
+    editorStore.beginInput();
+    editorStore.appendInput("0");
+    editorStore.appendInput("0");
+
+    expect(editorStore.commitInput()).toBe(false);
+    const state = editorStore.getState();
+    expect(state.status === "editing" && state.error).toBe("Threshold must be 0-441");
+    expect(state.status === "editing" && state.input).toBe("1500");
+    expect(scenariosStore.getScenarioById(id)?.steps[0]).toEqual(PIXEL);
+  });
+
+  test("refuses references that would make a scenario run itself", () => {
+    const { id } = historyStore.createScenario("Self");
+    const other = historyStore.createScenario("Other");
+    historyStore.addStep(id, { type: "scenario-ref", scenarioId: other.id });
+
+    editorStore.open(id, 0);
+    editorStore.beginInput();
+    for (let i = 0; i < other.id.length; i++) editorStore.backspaceInput();
+    for (const ch of id) editorStore.appendInput(ch);
+
+    expect(editorStore.commitInput()).toBe(false);
+    const state = editorStore.getState();
+    expect(state.status === "editing" && state.error).toBe("Scenario would run itself");
+  });
+});
@@ -0,0 +1,432 @@
+// controller/src/editor/fields.ts
+// Editable fields per step type, with parsing and validation
+
+import type {
+  BindableField,
+  ClickAction,
+  DelayTransition,
+  KeypressAction,
+  PixelCondition,
+  RGB,
+  ScenarioRef,
+  Step,
+  StepBindings,
+  TypeTextAction,
+} from "../types";
+import { MAX_THRESHOLD } from "../types";
+import {
+  formatParameterList,
+  isTemplate,
+  parseParameterList,
+  templateNames,
+} from "../execution/parameters";
+
+const MODIFIERS: KeypressAction["modifiers"] = ["ctrl", "alt", "shift", "cmd"];
+
+export interface StepField {
+  key: string;
+  label: string;
+  hint?: string; // Shown while editing, e.g. the allowed range
+  get(step: Step): string;
+  /** Return the step with this field set, throwing if the input is invalid */
+  set(step: Step, input: string): Step;
+}
+
+/**
+ * Define a field for one step type (fields are only used with matching steps)
+ */
+function field<S extends Step>(
+  key: string,
+  label: string,
+  get: (step: S) => string,
+  set: (step: S, input: string) => S,
+  hint?: string
+): StepField {
+  return {
+    key,
+    label,
+    hint,
+    get: (step) => get(step as S),
+    set: (step, input) => set(step as S, input),
+  };
+}
+
+/**
+ * Let a field hold a ${name} template instead of a value. The template goes
+ * into the step's bindings; a plain value clears it.
+ */
+function bindable<S extends Step>(
+  path: BindableField,
+  inner: StepField,
+  getBindings: (step: S) => StepBindings | undefined,
+  setBindings: (step: S, bindings: StepBindings | undefined) => S
+): StepField {
+  return {
+    ...inner,
+    hint: inner.hint ? `${inner.hint} or \${name}` : "or ${name}",
+    get: (step) => getBindings(step as S)?.[path] ?? inner.get(step),
+    set: (step, input) => {
+      const bindings: StepBindings = { ...getBindings(step as S) };
+      if (isTemplate(input)) {
+        templateNames(input);
+        return setBindings(step as S, { ...bindings, [path]: input.trim() });
+      }
+      if (bindings[path] === undefined) return inner.set(step, input);
+      delete bindings[path];
+      const updated = inner.set(step, input) as S;
+      return setBindings(updated, Object.keys(bindings).length > 0 ? bindings : undefined);
+    },
+  };
+}
+
+function ownBindings<S extends ClickAction | KeypressAction | TypeTextAction | DelayTransition>(
+  path: BindableField,
+  inner: StepField
+): StepField {
+  return bindable<S>(
+    path,
+    inner,
+    (s) => s.bindings,
+    (s, bindings) => ({ ...s, bindings })
+  );
+}
+
+function parseNumber(
+  label: string,
+  input: string,
+  { min, max, integer = true }: { min?: number; max?: number; integer?: boolean } = {}
+): number {
+  const trimmed = input.trim();
+  const value = Number(trimmed);
+  if (trimmed === "" || !Number.isFinite(value)) {
+    throw new Error(`${label} must be a number`);
+  }
+  if (integer && !Number.isInteger(value)) {
+    throw new Error(`${label} must be a whole number`);
+  }
+  if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+    const range =
+      max === undefined ? `at least ${min}` : min === undefined ? `at most ${max}` : `${min}-${max}`;
+    throw new Error(`${label} must be ${range}`);
+  }
+  return value;
+}
+
+/**
+ * Blank input clears an optional number
+ */
+function parseOptionalNumber(
+  label: string,
+  input: string,
+  options: { min?: number; max?: number } = {}
+): number | undefined {
+  return input.trim() === "" ? undefined : parseNumber(label, input, options);
+}
+
+function formatOptional(value: number | undefined): string {
+  return value === undefined ? "" : String(value);
+}
+
+function parseModifiers(input: string): KeypressAction["modifiers"] {
+  const names = input
+    .split(/[+,\s]+/)
+    .map((m) => m.trim().toLowerCase())
+    .filter((m) => m !== "");
+  const modifiers: KeypressAction["modifiers"] = [];
+  for (const name of names) {
+    const modifier = MODIFIERS.find((m) => m === name);
+    if (!modifier) {
+      throw new Error(`Unknown modifier "${name}" (use ${MODIFIERS.join(", ")})`);
+    }
+    if (!modifiers.includes(modifier)) modifiers.push(modifier);
+  }
+  return modifiers;
+}
+
+/**
+ * Fields shared by pixel waits and one-shot checks, read and written through
+ * accessors so `if` steps can expose their condition's fields
+ */
+function conditionFields<S extends Step>(
+  getCondition: (step: S) => PixelCondition,
+  setCondition: (step: S, condition: PixelCondition) => S,
+  sample: PixelCondition,
+  { withTimeout }: { withTimeout: boolean }
+): StepField[] {
+  const update = (step: S, patch: Partial<PixelCondition>): S =>
+    setCondition(step, { ...getCondition(step), ...patch } as PixelCondition);
+  const withBinding = (path: BindableField, inner: StepField) =>
+    bindable<S>(
+      path,
+      inner,
+      (s) => getCondition(s).bindings,
+      (s, bindings) => update(s, { bindings })
+    );
+  const channel = (key: keyof RGB, label: string) =>
+    withBinding(
+      `color.${key}`,
+      field<S>(
+        key,
+        label,
+        (s) => String(getCondition(s).color[key]),
+        (s, input) =>
+          update(s, {
+            color: { ...getCondition(s).color, [key]: parseNumber(label, input, { min: 0, max: 255 }) },
+          }),
+        "0-255"
+      )
+    );
+
+  const fields: StepField[] = [];
+  if (sample.type === "pixel-state") {
+    const coordinate = (key: "x" | "y") =>
+      withBinding(
+        `position.${key}`,
+        field<S>(
+          key,
+          key.toUpperCase(),
+          (s) => {
+            const condition = getCondition(s);
+            return condition.type === "pixel-state" ? String(condition.position[key]) : "";
+          },
+          (s, input) => {
+            const condition = getCondition(s);
+            if (condition.type !== "pixel-state") return s;
+            return update(s, {
+              position: { ...condition.position, [key]: parseNumber(key.toUpperCase(), input) },
+            });
+          }
+        )
+      );
+    fields.push(coordinate("x"), coordinate("y"));
+  } else {
+    const rectField = (key: "x" | "y" | "width" | "height", label: string, min?: number) =>
+      field<S>(
+        key,
+        label,
+        (s) => {
+          const condition = getCondition(s);
+          return condition.type === "pixel-zone" ? String(condition.rect[key]) : "";
+        },
+        (s, input) => {
+          const condition = getCondition(s);
+          if (condition.type !== "pixel-zone") return s;
+          return update(s, {
+            rect: { ...condition.rect, [key]: parseNumber(label, input, { min }) },
+          });
+        },
+        min !== undefined ? `at least ${min}` : undefined
+      );
+    fields.push(
+      rectField("x", "X"),
+      rectField("y", "Y"),
+      rectField("width", "Width", 1),
+      rectField("height", "Height", 1)
+    );
+  }
+
+  fields.push(
+    channel("r", "Red"),
+    channel("g", "Green"),
+    channel("b", "Blue"),
+    field<S>(
+      "threshold",
+      "Threshold",
+      (s) => String(getCondition(s).threshold),
+      (s, input) =>
+        update(s, {
+          threshold: parseNumber("Threshold", input, { min: 0, max: MAX_THRESHOLD, integer: false }),
+        }),
+      `0-${MAX_THRESHOLD}`
+    )
+  );
+
+  if (withTimeout) {
+    fields.push(
+      field<S>(
+        "timeoutMs",
+        "Timeout (ms)",
+        (s) => formatOptional(getCondition(s).timeoutMs),
+        (s, input) => update(s, { timeoutMs: parseOptionalNumber("Timeout", input, { min: 0 }) }),
+        "blank = wait forever"
+      )
+    );
+  }
+  return fields;
+}
+
+const clickFields: StepField[] = [
+  ownBindings<ClickAction>(
+    "position.x",
+    field<ClickAction>(
+      "x",
+      "X",
+      (s) => String(s.position.x),
+      (s, input) => ({ ...s, position: { ...s.position, x: parseNumber("X", input) } })
+    )
+  ),
+  ownBindings<ClickAction>(
+    "position.y",
+    field<ClickAction>(
+      "y",
+      "Y",
+      (s) => String(s.position.y),
+      (s, input) => ({ ...s, position: { ...s.position, y: parseNumber("Y", input) } })
+    )
+  ),
+  field<ClickAction>(
+    "button",
+    "Button",
+    (s) => s.button,
+    (s, input) => {
+      const button = input.trim().toLowerCase();
+      if (button !== "left" && button !== "right") {
+        throw new Error(`Button must be "left" or "right"`);
+      }
+      return { ...s, button };
+    },
+    "left or right"
+  ),
+];
+
+const keypressFields: StepField[] = [
+  ownBindings<KeypressAction>(
+    "key",
+    field<KeypressAction>(
+      "key",
+      "Key",
+      (s) => s.key,
+      (s, input) => {
+        if (input.trim() === "") throw new Error("Key must not be empty");
+        return { ...s, key: input.trim() };
+      }
+    )
+  ),
+  field<KeypressAction>(
+    "modifiers",
+    "Modifiers",
+    (s) => s.modifiers.join("+"),
+    (s, input) => ({ ...s, modifiers: parseModifiers(input) }),
+    "e.g. cmd+shift"
+  ),
+];
+
+const typeTextFields: StepField[] = [
+  ownBindings<TypeTextAction>(
+    "text",
+    field<TypeTextAction>(
+      "text",
+      "Text",
+      (s) => s.text,
+      (s, input) => {
+        if (input === "") throw new Error("Text must not be empty");
+        return { ...s, text: input };
+      }
+    )
+  ),
+  field<TypeTextAction>(
+    "charDelayMs",
+    "Delay per char (ms)",
+    (s) => formatOptional(s.charDelayMs),
+    (s, input) => ({ ...s, charDelayMs: parseOptionalNumber("Delay", input, { min: 0 }) }),
+    "blank = none"
+  ),
+];
+
+const delayFields: StepField[] = [
+  ownBindings<DelayTransition>(
+    "ms",
+    field<DelayTransition>(
+      "ms",
+      "Duration (ms)",
+      (s) => String(s.ms),
+      (s, input) => ({ ...s, ms: parseNumber("Duration", input, { min: 0 }) }),
+      "at least 0"
+    )
+  ),
+];
+
+const scenarioRefFields: StepField[] = [
+  field<ScenarioRef>(
+    "scenarioId",
+    "Scenario ID",
+    (s) => s.scenarioId,
+    (s, input) => {
+      if (input.trim() === "") throw new Error("Scenario ID must not be empty");
+      return { ...s, scenarioId: input.trim() };
+    }
+  ),
+  field<ScenarioRef>(
+    "args",
+    "Arguments",
+    (s) =>
+      formatParameterList(
+        Object.entries(s.args ?? {}).map(([name, value]) => ({ name, default: value }))
+      ),
+    (s, input) => {
+      const args: Record<string, string> = {};
+      for (const { name, default: value } of parseParameterList(input)) {
+        if (value === undefined) throw new Error(`Argument "${name}" needs a value (${name}=...)`);
+        templateNames(value);
+        args[name] = value;
+      }
+      return { ...s, args: Object.keys(args).length > 0 ? args : undefined };
+    },
+    "e.g. user=admin, x=${x}"
+  ),
+];
+
+const loopFields: StepField[] = [
+  field<Extract<Step, { type: "loop" }>>(
+    "count",
+    "Count",
+    (s) => formatOptional(s.count),
+    (s, input) => ({ ...s, count: parseOptionalNumber("Count", input, { min: 0 }) }),
+    "blank = until condition"
+  ),
+  field<Extract<Step, { type: "loop" }>>(
+    "maxIterations",
+    "Max iterations",
+    (s) => formatOptional(s.maxIterations),
+    (s, input) => ({
+      ...s,
+      maxIterations: parseOptionalNumber("Max iterations", input, { min: 1 }),
+    }),
+    "blank = default"
+  ),
+];
+
+/**
+ * The editable fields of a step, in display order
+ */
+export function getStepFields(step: Step): StepField[] {
+  switch (step.type) {
+    case "click":
+      return clickFields;
+    case "keypress":
+      return keypressFields;
+    case "type-text":
+      return typeTextFields;
+    case "delay":
+      return delayFields;
+    case "pixel-state":
+    case "pixel-zone":
+      return conditionFields<PixelCondition>(
+        (s) => s,
+        (_, condition) => condition,
+        step,
+        { withTimeout: true }
+      );
+    case "scenario-ref":
+      return scenarioRefFields;
+    case "loop":
+      return loopFields;
+    case "if":
+      return conditionFields<Extract<Step, { type: "if" }>>(
+        (s) => s.condition,
+        (s, condition) => ({ ...s, condition }),
+        step.condition,
+        { withTimeout: false }
+      );
+  }
+}
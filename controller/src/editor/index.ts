@@ -0,0 +1,12 @@
+// controller/src/editor/index.ts
+// Export step editing helpers
+
+export { getStepFields, type StepField } from "./fields";
+export { MAX_THRESHOLD } from "../types";
+export {
+  applyRepick,
+  canRepick,
+  type RepickableStep,
+  type ScreenSelection,
+} from "./repick";
+export { appendTyped, typedCharacter } from "./typing";
@@ -0,0 +1,51 @@
+// controller/src/editor/repick.test.ts
+// Tests for applying fresh screen selections to existing steps
+
+import { describe, expect, test } from "bun:test";
+import type { Step } from "../types";
+import { applyRepick, canRepick } from "./repick";
+
+const SELECTION = {
+  position: { x: 300, y: 400 },
+  color: { r: 1, g: 2, b: 3 },
+};
+
+describe("applyRepick", () => {
+  test("only moves clicks", () => {
+    const step = { type: "click", position: { x: 1, y: 1 }, button: "right" } as const;
+    expect(applyRepick(step, SELECTION)).toEqual({ ...step, position: { x: 300, y: 400 } });
+  });
+
+  test("replaces position and color of pixel waits, keeping threshold and timeout", () => {
+    const step = {
+      type: "pixel-state",
+      position: { x: 1, y: 1 },
+      color: { r: 9, g: 9, b: 9 },
+      threshold: 20,
+      timeoutMs: 500,
+    } as const;
+    expect(applyRepick(step, SELECTION)).toEqual({
+      ...step,
+      position: SELECTION.position,
+      color: SELECTION.color,
+    });
+  });
+
+  test("replaces the zone only when one was selected", () => {
+    const step = {
+      type: "pixel-zone",
+      rect: { x: 0, y: 0, width: 10, height: 10 },
+      color: { r: 9, g: 9, b: 9 },
+      threshold: 20,
+    } as const;
+    const rect = { x: 5, y: 5, width: 50, height: 20 };
+
+    expect(applyRepick(step, { ...SELECTION, rect })).toEqual({ ...step, rect, color: SELECTION.color });
+    expect(applyRepick(step, SELECTION)).toEqual({ ...step, color: SELECTION.color });
+  });
+
+  test("is not offered for steps without a screen location", () => {
+    const delay: Step = { type: "delay", ms: 10 };
+    expect(canRepick(delay)).toBe(false);
+  });
+});
@@ -0,0 +1,31 @@
+// controller/src/editor/repick.ts
+// Replace a step's screen position, zone or color with a fresh selection
+
+import type { Point, RGB, Rect, Step } from "../types";
+
+export type RepickableStep = Extract<Step, { type: "click" | "pixel-state" | "pixel-zone" }>;
+
+export interface ScreenSelection {
+  position: Point;
+  color: RGB;
+  rect?: Rect; // Set when a zone was dragged before picking its color
+}
+
+export function canRepick(step: Step): step is RepickableStep {
+  return step.type === "click" || step.type === "pixel-state" || step.type === "pixel-zone";
+}
+
+/**
+ * Apply a selection to a step, keeping everything else (button, threshold, timeout)
+ */
+export function applyRepick(step: RepickableStep, selection: ScreenSelection): RepickableStep {
+  switch (step.type) {
+    case "click":
+      return { ...step, position: selection.position };
+    case "pixel-state":
+      return { ...step, position: selection.position, color: selection.color };
+    case "pixel-zone":
+      // Picking a single pixel without a zone only updates the color
+      return { ...step, rect: selection.rect ?? step.rect, color: selection.color };
+  }
+}
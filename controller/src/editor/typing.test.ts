@@ -0,0 +1,45 @@
+// controller/src/editor/typing.test.ts
+// Tests for merging recorded keypresses into type-text steps
+
+import { describe, expect, test } from "bun:test";
+import type { Step } from "../types";
+import { appendTyped, typedCharacter } from "./typing";
+
+describe("typedCharacter", () => {
+  test("applies shift to letters, digits and punctuation", () => {
+    expect(typedCharacter("a", [])).toBe("a");
+    expect(typedCharacter("a", ["shift"])).toBe("A");
+    expect(typedCharacter("2", ["shift"])).toBe("@");
+    expect(typedCharacter("/", ["shift"])).toBe("?");
+    expect(typedCharacter("space", [])).toBe(" ");
+  });
+
+  test("leaves shortcuts and special keys alone", () => {
+    expect(typedCharacter("c", ["cmd"])).toBeNull();
+    expect(typedCharacter("a", ["shift", "alt"])).toBeNull();
+    expect(typedCharacter("return", [])).toBeNull();
+    expect(typedCharacter("tab", ["shift"])).toBeNull();
+  });
+});
+
+describe("appendTyped", () => {
+  test("turns a plain keypress into text and keeps extending it", () => {
+    const first: Step = { type: "keypress", key: "h", modifiers: ["shift"] };
+    const merged = appendTyped(first, "i");
+    expect(merged).toEqual({ type: "type-text", text: "Hi" });
+    expect(appendTyped(merged!, "!")).toEqual({ type: "type-text", text: "Hi!" });
+  });
+
+  test("keeps the per-character delay of existing text", () => {
+    const step: Step = { type: "type-text", text: "ab", charDelayMs: 20 };
+    expect(appendTyped(step, "c")).toEqual({ ...step, text: "abc" });
+  });
+
+  test("does not merge into shortcuts or other steps", () => {
+    expect(appendTyped({ type: "keypress", key: "v", modifiers: ["cmd"] }, "x")).toBeNull();
+    expect(appendTyped({ type: "delay", ms: 100 }, "x")).toBeNull();
+    expect(
+      appendTyped({ type: "type-text", text: "", bindings: { text: "${user}" } }, "x")
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+// controller/src/editor/typing.ts
+// Merge recorded keypresses into type-text steps
+
+import type { KeypressAction, Step, TypeTextAction } from "../types";
+
+// Characters produced by shift plus a key on a US layout (the recorder reports the base key)
+const SHIFTED: Record<string, string> = {
+  "1": "!", "2": "@", "3": "#", "4": "$", "5": "%",
+  "6": "^", "7": "&", "8": "*", "9": "(", "0": ")",
+  "-": "_", "=": "+", "[": "{", "]": "}", "\\": "|",
+  ";": ":", "'": '"', ",": "<", ".": ">", "/": "?",
+  "`": "~",
+};
+
+/**
+ * The character a keypress types, or null for shortcuts and special keys
+ * (return, tab, arrows), which stay separate keypress steps
+ */
+export function typedCharacter(key: string, modifiers: KeypressAction["modifiers"]): string | null {
+  if (modifiers.some((m) => m !== "shift")) return null;
+  const shift = modifiers.includes("shift");
+
+  if (key === "space") return " ";
+  if ([...key].length !== 1) return null;
+  if (/^[a-z]$/.test(key)) return shift ? key.toUpperCase() : key;
+  if (shift) return SHIFTED[key] ?? null;
+  return key;
+}
+
+/**
+ * Append a typed character to the previously recorded step, turning a plain
+ * keypress into a type-text step. Returns null if the step can't take it,
+ * including text bound to a parameter (the binding would replace the new text).
+ */
+export function appendTyped(previous: Step, char: string): TypeTextAction | null {
+  switch (previous.type) {
+    case "type-text":
+      if (previous.bindings?.text !== undefined) return null;
+      return { ...previous, text: previous.text + char };
+    case "keypress": {
+      const first = typedCharacter(previous.key, previous.modifiers);
+      return first === null ? null : { type: "type-text", text: first + char };
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,116 @@
+// controller/src/execution/controller.ts
+// Pause, resume and single-step control for a running scenario
+
+type Mode =
+  | { kind: "run" }
+  | { kind: "pause" } // Pause before the next step at any depth
+  | { kind: "step-over"; depth: number }; // Pause at this depth or shallower
+
+export interface ExecutionController {
+  /** Pause before the next step */
+  pause(): void;
+  /** Continue running until paused again */
+  resume(): void;
+  /** Run the next step, including all of a sub-scenario/loop/branch, then pause */
+  stepOver(): void;
+  /** Run the next step, pausing at the first step inside it if it has any */
+  stepInto(): void;
+  isPaused(): boolean;
+
+  /**
+   * Called by the executor before each step; resolves once the step may run
+   * @param depth Nesting depth of the step (0 = top-level scenario)
+   * @param signal Rejects with AbortError while paused if aborted
+   * @param onPause Called when execution actually stops at this step
+   * @param isBreakpoint Pause here regardless of the current mode
+   */
+  checkpoint(
+    depth: number,
+    signal: AbortSignal,
+    onPause: () => void,
+    isBreakpoint?: boolean
+  ): Promise<void>;
+}
+
+export function createExecutionController(): ExecutionController {
+  let mode: Mode = { kind: "run" };
+  let pausedDepth: number | null = null;
+  let release: (() => void) | null = null;
+
+  function shouldPause(depth: number): boolean {
+    switch (mode.kind) {
+      case "run":
+        return false;
+      case "pause":
+        return true;
+      case "step-over":
+        return depth <= mode.depth;
+    }
+  }
+
+  function continueWith(next: Mode): void {
+    mode = next;
+    release?.();
+  }
+
+  return {
+    pause(): void {
+      // Also interrupts a step-over, stopping inside the step being run
+      if (pausedDepth === null) {
+        mode = { kind: "pause" };
+      }
+    },
+
+    resume(): void {
+      continueWith({ kind: "run" });
+    },
+
+    stepOver(): void {
+      // Only meaningful while stopped at a step
+      if (pausedDepth === null) return;
+      continueWith({ kind: "step-over", depth: pausedDepth });
+    },
+
+    stepInto(): void {
+      if (pausedDepth === null) return;
+      continueWith({ kind: "pause" });
+    },
+
+    isPaused(): boolean {
+      return pausedDepth !== null;
+    },
+
+    checkpoint(
+      depth: number,
+      signal: AbortSignal,
+      onPause: () => void,
+      isBreakpoint = false
+    ): Promise<void> {
+      if (!isBreakpoint && !shouldPause(depth)) {
+        return Promise.resolve();
+      }
+
+      return new Promise((resolve, reject) => {
+        const abortHandler = () => {
+          pausedDepth = null;
+          release = null;
+          reject(new DOMException("Aborted", "AbortError"));
+        };
+        if (signal.aborted) {
+          abortHandler();
+          return;
+        }
+        signal.addEventListener("abort", abortHandler, { once: true });
+
+        pausedDepth = depth;
+        release = () => {
+          signal.removeEventListener("abort", abortHandler);
+          pausedDepth = null;
+          release = null;
+          resolve();
+        };
+        onPause();
+      });
+    },
+  };
+}
@@ -0,0 +1,1085 @@
+// controller/src/execution/executor.test.ts
+// Tests for the execution engine, run against the mock helper
+
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { mockPersistence } from "../test/mockPersistence";
+
+mockPersistence();
+
+import { swiftBridge } from "../ipc/bridge";
+import { MockHelper } from "../mock";
+import { runsStore } from "../store/runs";
+import { scenariosStore } from "../store/scenarios";
+import type { PixelCondition, RGB, Scenario, Step } from "../types";
+import { createExecutionController, type ExecutionController } from "./controller";
+import { RunInProgressError } from "./runLock";
+import {
+  createsCycle,
+  describeStep,
+  executeScenario,
+  MAX_STEP_TIMINGS,
+  MAX_TIMEOUT_GOTOS,
+  MAX_TIMEOUT_RETRIES,
+  WaitTimeoutError,
+  type ExecuteOptions,
+  type ExecutionProgress,
+} from "./executor";
+
+const RED: RGB = { r: 255, g: 0, b: 0 };
+
+let helper: MockHelper;
+
+/**
+ * Add a scenario with the given steps to the store
+ */
+function addScenario(name: string, steps: Step[] = []): Scenario {
+  const scenario = scenariosStore.createScenario(name);
+  for (const step of steps) {
+    scenariosStore.addStep(scenario.id, step);
+  }
+  return scenariosStore.getScenarioById(scenario.id)!;
+}
+
+/**
+ * Run a scenario and collect every progress update
+ */
+async function run(
+  scenario: Scenario,
+  signal: AbortSignal = new AbortController().signal
+): Promise<{ progress: ExecutionProgress[]; error: unknown }> {
+  const progress: ExecutionProgress[] = [];
+  try {
+    await executeScenario(scenario, signal, (p) => progress.push(p));
+    return { progress, error: undefined };
+  } catch (error) {
+    return { progress, error };
+  }
+}
+
+beforeEach(async () => {
+  helper = new MockHelper();
+  await swiftBridge.start(helper.transport());
+});
+
+afterEach(() => {
+  swiftBridge.stop();
+  for (const scenario of scenariosStore.getState().scenarios) {
+    runsStore.clearRuns(scenario.id);
+    scenariosStore.deleteScenario(scenario.id);
+  }
+});
+
+describe("executeScenario", () => {
+  test("runs steps in order against the helper", async () => {
+    const scenario = addScenario("Basic", [
+      { type: "click", position: { x: 10, y: 20 }, button: "left" },
+      { type: "keypress", key: "a", modifiers: ["cmd"] },
+    ]);
+
+    const { error } = await run(scenario);
+
+    expect(error).toBeUndefined();
+    expect(helper.actions).toEqual([
+      { type: "click", position: { x: 10, y: 20 }, button: "left" },
+      { type: "keypress", key: "a", modifiers: ["cmd"] },
+    ]);
+  });
+
+  test("reports progress in order and finishes with completed", async () => {
+    const scenario = addScenario("Progress", [
+      { type: "click", position: { x: 0, y: 0 }, button: "left" },
+      { type: "delay", ms: 1 },
+      { type: "pixel-state", position: { x: 1, y: 1 }, color: RED, threshold: 0 },
+    ]);
+    helper.screen.setPixel({ x: 1, y: 1 }, RED);
+
+    const { progress } = await run(scenario);
+
+    expect(progress.map((p) => [p.status, p.currentStep, p.currentStepDescription])).toEqual([
+      ["running", 0, "Click left at (0, 0)"],
+      ["running", 1, "Wait 1ms"],
+      ["running", 2, "Wait for pixel at (1, 1)"],
+      ["waiting", 2, "Wait for pixel at (1, 1)"],
+      ["completed", 3, undefined],
+    ]);
+    expect(progress.every((p) => p.totalSteps === 3)).toBe(true);
+  });
+
+  test("sends typed text to the helper in one request", async () => {
+    const scenario = addScenario("Typing", [
+      { type: "type-text", text: "Hello, World!", charDelayMs: 5 },
+    ]);
+
+    const { error, progress } = await run(scenario);
+
+    expect(error).toBeUndefined();
+    expect(helper.actions).toEqual([{ type: "type-text", text: "Hello, World!", charDelayMs: 5 }]);
+    expect(progress[0]?.currentStepDescription).toBe('Type "Hello, World!"');
+  });
+
+  test("reports completed immediately for an empty scenario", async () => {
+    const scenario = addScenario("Empty");
+
+    const { progress } = await run(scenario);
+
+    expect(progress).toEqual([{ currentStep: 0, totalSteps: 0, status: "completed" }]);
+    expect(helper.requests).toHaveLength(0);
+  });
+
+  test("runs nested scenario references inline", async () => {
+    const inner = addScenario("Inner", [{ type: "keypress", key: "i", modifiers: [] }]);
+    const middle = addScenario("Middle", [
+      { type: "keypress", key: "m", modifiers: [] },
+      { type: "scenario-ref", scenarioId: inner.id },
+    ]);
+    const outer = addScenario("Outer", [
+      { type: "scenario-ref", scenarioId: middle.id },
+      { type: "scenario-ref", scenarioId: inner.id },
+      { type: "keypress", key: "o", modifiers: [] },
+    ]);
+
+    const { progress, error } = await run(outer);
+
+    expect(error).toBeUndefined();
+    expect(helper.actions.map((a) => (a.type === "keypress" ? a.key : a.type))).toEqual([
+      "m",
+      "i",
+      "i",
+      "o",
+    ]);
+    expect(progress.at(-1)).toEqual({ currentStep: 4, totalSteps: 4, status: "completed" });
+  });
+
+  test("detects circular scenario references", async () => {
+    const a = addScenario("A", [{ type: "keypress", key: "a", modifiers: [] }]);
+    const b = addScenario("B", [{ type: "scenario-ref", scenarioId: a.id }]);
+    scenariosStore.addStep(a.id, { type: "scenario-ref", scenarioId: b.id });
+
+    const { progress, error } = await run(scenariosStore.getScenarioById(a.id)!);
+
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toBe("Circular reference detected: A");
+    expect(progress.at(-1)?.status).toBe("error");
+    expect(helper.actions).toHaveLength(1);
+  });
+
+  test("fails when a referenced scenario is missing", async () => {
+    const scenario = addScenario("Dangling", [
+      { type: "keypress", key: "a", modifiers: [] },
+      { type: "scenario-ref", scenarioId: "missing" },
+    ]);
+
+    const { progress, error } = await run(scenario);
+
+    expect((error as Error).message).toBe("Sub-scenario not found: missing");
+    expect(progress.at(-1)).toMatchObject({
+      status: "error",
+      currentStep: 1,
+      error: "Error: Sub-scenario not found: missing",
+    });
+  });
+
+  test("refuses to start while another run is active", async () => {
+    const slow = addScenario("Slow", [{ type: "delay", ms: 10_000 }]);
+    const quick = addScenario("Quick", [{ type: "keypress", key: "a", modifiers: [] }]);
+    const abort = new AbortController();
+    const first = run(slow, abort.signal);
+
+    const { progress, error } = await run(quick);
+
+    expect(error).toBeInstanceOf(RunInProgressError);
+    expect((error as Error).message).toBe('"Slow" is already running');
+    expect(progress).toHaveLength(0);
+    expect(runsStore.getRunsForScenario(quick.id)).toHaveLength(0);
+
+    abort.abort();
+    await first;
+    expect((await run(quick)).error).toBeUndefined();
+    expect(helper.actions).toHaveLength(1);
+  });
+
+  test("propagates wait timeouts as errors", async () => {
+    const scenario = addScenario("Timeout", [
+      { type: "pixel-state", position: { x: 1, y: 1 }, color: RED, threshold: 0, timeoutMs: 20 },
+      { type: "keypress", key: "a", modifiers: [] },
+    ]);
+
+    const { progress, error } = await run(scenario);
+
+    expect((error as Error).message).toBe("Timed out after 20ms: Wait for pixel at (1, 1)");
+    expect(progress.at(-1)?.status).toBe("error");
+    expect(helper.actions).toHaveLength(0);
+  });
+
+  test("propagates helper failures as errors", async () => {
+    const scenario = addScenario("Crash", [
+      { type: "pixel-zone", rect: { x: 0, y: 0, width: 4, height: 4 }, color: RED, threshold: 0 },
+    ]);
+    setTimeout(() => helper.exit(1), 20);
+
+    const { progress, error } = await run(scenario);
+
+    expect((error as Error).message).toBe("Swift helper exited with code 1");
+    expect(progress.at(-1)?.status).toBe("error");
+  });
+
+  test("aborts during a delay", async () => {
+    const scenario = addScenario("Long delay", [
+      { type: "delay", ms: 10_000 },
+      { type: "keypress", key: "a", modifiers: [] },
+    ]);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    const startTime = Date.now();
+    const { progress, error } = await run(scenario, controller.signal);
+
+    expect(Date.now() - startTime).toBeLessThan(1000);
+    expect((error as DOMException).name).toBe("AbortError");
+    expect(progress.at(-1)).toEqual({ currentStep: 0, totalSteps: 2, status: "aborted" });
+    expect(helper.actions).toHaveLength(0);
+  });
+
+  test("aborts during a pixel wait and cancels it on the helper", async () => {
+    const scenario = addScenario("Endless wait", [
+      { type: "click", position: { x: 0, y: 0 }, button: "left" },
+      { type: "pixel-state", position: { x: 1, y: 1 }, color: RED, threshold: 0 },
+    ]);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    const { progress, error } = await run(scenario, controller.signal);
+
+    expect((error as DOMException).name).toBe("AbortError");
+    expect(progress.at(-1)).toEqual({ currentStep: 1, totalSteps: 2, status: "aborted" });
+
+    const wait = helper.requests.find((r) => r.method === "waitForPixelState");
+    expect(wait).toBeDefined();
+    await Bun.sleep(10);
+    expect(helper.requests.at(-1)).toMatchObject({
+      method: "cancelRequest",
+      params: { requestId: wait!.id },
+    });
+  });
+
+  test("continues once the screen changes during a pixel wait", async () => {
+    const scenario = addScenario("Reactive", [
+      { type: "click", position: { x: 0, y: 0 }, button: "left" },
+      { type: "pixel-state", position: { x: 5, y: 5 }, color: RED, threshold: 10, timeoutMs: 1000 },
+      { type: "keypress", key: "a", modifiers: [] },
+    ]);
+    helper.onAction((action) => {
+      if (action.type === "click") {
+        setTimeout(() => helper.screen.setPixel({ x: 5, y: 5 }, { r: 250, g: 0, b: 0 }), 20);
+      }
+    });
+
+    const { error } = await run(scenario);
+
+    expect(error).toBeUndefined();
+    expect(helper.actions.map((a) => a.type)).toEqual(["click", "keypress"]);
+  });
+});
+
+describe("loops", () => {
+  const RED_PIXEL = { x: 1, y: 1 };
+  const untilRed: PixelCondition = {
+    type: "pixel-state",
+    position: RED_PIXEL,
+    color: RED,
+    threshold: 0,
+  };
+
+  function keys(): string[] {
+    return helper.actions.map((a) => (a.type === "keypress" ? a.key : a.type));
+  }
+
+  test("runs a fixed count and reports the iteration", async () => {
+    const scenario = addScenario("Thrice", [
+      {
+        type: "loop",
+        count: 3,
+        body: [
+          { type: "keypress", key: "a", modifiers: [] },
+          { type: "keypress", key: "b", modifiers: [] },
+        ],
+      },
+    ]);
+
+    const { progress, error } = await run(scenario);
+
+    expect(error).toBeUndefined();
+    expect(keys()).toEqual(["a", "b", "a", "b", "a", "b"]);
+    expect(progress.every((p) => p.totalSteps === 6)).toBe(true);
+    const running = progress.filter((p) => p.status === "running");
+    expect(running.map((p) => [p.iteration, p.iterationCount])).toEqual([
+      [undefined, undefined], // The loop step itself
+      [1, 3], [1, 3],
+      [2, 3], [2, 3],
+      [3, 3], [3, 3],
+    ]);
+    expect(progress.at(-1)).toMatchObject({ status: "completed", currentStep: 6 });
+  });
+
+  test("repeats until the condition matches, growing the total", async () => {
+    const scenario = addScenario("Until", [
+      { type: "loop", until: untilRed, body: [{ type: "keypress", key: "a", modifiers: [] }] },
+    ]);
+    helper.onAction(() => {
+      if (helper.actions.length === 3) helper.screen.setPixel(RED_PIXEL, RED);
+    });
+
+    const { progress, error } = await run(scenario);
+
+    expect(error).toBeUndefined();
+    expect(keys()).toEqual(["a", "a", "a"]);
+    const running = progress.filter((p) => p.status === "running" && p.iteration !== undefined);
+    expect(running.map((p) => [p.iteration, p.iterationCount, p.totalSteps])).toEqual([
+      [1, undefined, 1],
+      [2, undefined, 2],
+      [3, undefined, 3],
+    ]);
+    expect(progress.at(-1)).toMatchObject({ status: "completed", currentStep: 3, totalSteps: 3 });
+  });
+
+  test("fails when the condition is not met within maxIterations", async () => {
+    const scenario = addScenario("Never", [
+      {
+        type: "loop",
+        until: untilRed,
+        maxIterations: 3,
+        body: [{ type: "keypress", key: "a", modifiers: [] }],
+      },
+    ]);
+
+    const { progress, error } = await run(scenario);
+
+    expect((error as Error).message).toBe("Loop condition not met after 3 iterations");
+    expect(keys()).toEqual(["a", "a", "a"]);
+    expect(progress.at(-1)?.status).toBe("error");
+  });
+
+  test("stops at maxIterations without a count or condition", async () => {
+    const scenario = addScenario("Capped", [
+      { type: "loop", maxIterations: 2, body: [{ type: "keypress", key: "a", modifiers: [] }] },
+    ]);
+
+    const { progress, error } = await run(scenario);
+
+    expect(error).toBeUndefined();
+    expect(keys()).toEqual(["a", "a"]);
+    expect(progress.at(-1)).toMatchObject({ status: "completed", currentStep: 2, totalSteps: 2 });
+  });
+
+  test("rejects a count above maxIterations before running", async () => {
+    const scenario = addScenario("Too many", [
+      {
+        type: "loop",
+        count: 5,
+        maxIterations: 4,
+        body: [{ type: "keypress", key: "a", modifiers: [] }],
+      },
+    ]);
+
+    const { error } = await run(scenario);
+
+    expect((error as Error).message).toBe("Loop count 5 exceeds max iterations (4)");
+    expect(helper.actions).toHaveLength(0);
+  });
+});
+
+describe("if steps", () => {
+  const RED_PIXEL = { x: 1, y: 1 };
+
+  function branchScenario(): Scenario {
+    return addScenario("Branch", [
+      {
+        type: "if",
+        condition: { type: "pixel-state", position: RED_PIXEL, color: RED, threshold: 0 },
+        then: [{ type: "keypress", key: "a", modifiers: [] }],
+        else: [
+          { type: "keypress", key: "b", modifiers: [] },
+          { type: "keypress", key: "c", modifiers: [] },
+        ],
+      },
+      { type: "keypress", key: "z", modifiers: [] },
+    ]);
+  }
+
+  function keys(): string[] {
+    return helper.actions.map((a) => (a.type === "keypress" ? a.key : a.type));
+  }
+
+  test("runs the then branch and drops the larger else from the total", async () => {
+    helper.screen.setPixel(RED_PIXEL, RED);
+
+    const { progress, error } = await run(branchScenario());
+
+    expect(error).toBeUndefined();
+    expect(keys()).toEqual(["a", "z"]);
+    expect(progress[0]?.totalSteps).toBe(3);
+    expect(progress.at(-1)).toMatchObject({ status: "completed", currentStep: 2, totalSteps: 2 });
+  });
+
+  test("runs the else branch when the condition does not match", async () => {
+    const { progress, error } = await run(branchScenario());
+
+    expect(error).toBeUndefined();
+    expect(keys()).toEqual(["b", "c", "z"]);
+    expect(progress.at(-1)).toMatchObject({ status: "completed", currentStep: 3, totalSteps: 3 });
+  });
+
+  test("skips a missing else branch", async () => {
+    const scenario = addScenario("No else", [
+      {
+        type: "if",
+        condition: { type: "pixel-state", position: RED_PIXEL, color: RED, threshold: 0 },
+        then: [
+          { type: "keypress", key: "a", modifiers: [] },
+          { type: "keypress", key: "b", modifiers: [] },
+        ],
+      },
+      { type: "keypress", key: "z", modifiers: [] },
+    ]);
+
+    const { progress, error } = await run(scenario);
+
+    expect(error).toBeUndefined();
+    expect(keys()).toEqual(["z"]);
+    expect(progress.at(-1)).toMatchObject({ status: "completed", currentStep: 1, totalSteps: 1 });
+  });
+});
+
+describe("createsCycle", () => {
+  test("detects references back to the parent through nested blocks", () => {
+    const parent = addScenario("Parent");
+    const middle = addScenario("Middle", [
+      { type: "loop", body: { type: "scenario-ref", scenarioId: parent.id }, count: 2 },
+    ]);
+    const leaf = addScenario("Leaf", [{ type: "delay", ms: 1 }]);
+
+    expect(createsCycle(parent.id, parent.id)).toBe(true);
+    expect(createsCycle(parent.id, middle.id)).toBe(true);
+    expect(createsCycle(parent.id, leaf.id)).toBe(false);
+  });
+
+  test("allows the same scenario to be referenced twice", () => {
+    const leaf = addScenario("Leaf");
+    const parent = addScenario("Parent", [{ type: "scenario-ref", scenarioId: leaf.id }]);
+
+    expect(createsCycle(parent.id, leaf.id)).toBe(false);
+  });
+});
+
+describe("step ranges", () => {
+  function lettersScenario(): Scenario {
+    return addScenario(
+      "Letters",
+      ["a", "b", "c", "d"].map((key) => ({ type: "keypress", key, modifiers: [] }))
+    );
+  }
+
+  async function runRange(scenario: Scenario, options: ExecuteOptions) {
+    const progress: ExecutionProgress[] = [];
+    await executeScenario(scenario, new AbortController().signal, (p) => progress.push(p), options);
+    return progress;
+  }
+
+  function keys(): string[] {
+    return helper.actions.map((a) => (a.type === "keypress" ? a.key : a.type));
+  }
+
+  test("starts from startIndex", async () => {
+    const progress = await runRange(lettersScenario(), { startIndex: 2 });
+
+    expect(keys()).toEqual(["c", "d"]);
+    expect(progress.at(-1)).toEqual({ currentStep: 2, totalSteps: 2, status: "completed" });
+  });
+
+  test("stops before endIndex", async () => {
+    await runRange(lettersScenario(), { endIndex: 2 });
+
+    expect(keys()).toEqual(["a", "b"]);
+  });
+
+  test("runs a single step", async () => {
+    await runRange(lettersScenario(), { startIndex: 1, endIndex: 2 });
+
+    expect(keys()).toEqual(["b"]);
+  });
+
+  test("counts sub-scenario steps inside the range only", async () => {
+    const inner = addScenario("Inner", [
+      { type: "keypress", key: "x", modifiers: [] },
+      { type: "keypress", key: "y", modifiers: [] },
+    ]);
+    const outer = addScenario("Outer", [
+      { type: "keypress", key: "a", modifiers: [] },
+      { type: "scenario-ref", scenarioId: inner.id },
+    ]);
+
+    const progress = await runRange(outer, { startIndex: 1 });
+
+    expect(keys()).toEqual(["x", "y"]);
+    expect(progress.every((p) => p.totalSteps === 2)).toBe(true);
+  });
+
+  test("rejects ranges outside the scenario", async () => {
+    const scenario = lettersScenario();
+
+    await expect(runRange(scenario, { startIndex: 4 })).rejects.toThrow(
+      'Invalid step range 5-4 for "Letters" (4 steps)'
+    );
+    await expect(runRange(scenario, { startIndex: 2, endIndex: 2 })).rejects.toThrow();
+    expect(helper.actions).toHaveLength(0);
+    expect(runsStore.getRunsForScenario(scenario.id).map((r) => r.outcome)).toEqual([
+      "error",
+      "error",
+    ]);
+  });
+});
+
+describe("run history", () => {
+  test("records a completed run with step timings", async () => {
+    const inner = addScenario("Inner", [{ type: "delay", ms: 20 }]);
+    const outer = addScenario("Outer", [
+      { type: "click", position: { x: 0, y: 0 }, button: "left" },
+      { type: "scenario-ref", scenarioId: inner.id },
+    ]);
+
+    await run(outer);
+
+    const [record] = runsStore.getRunsForScenario(outer.id);
+    expect(record).toMatchObject({ scenarioName: "Outer", outcome: "completed" });
+    expect(record!.error).toBeUndefined();
+    expect(record!.steps.map((s) => [s.scenarioName, s.description])).toEqual([
+      ["Outer", "Click left at (0, 0)"],
+      ["Inner", "Wait 20ms"],
+    ]);
+    expect(record!.steps[0]!.waitMs).toBe(0);
+    expect(record!.steps[1]!.waitMs).toBeGreaterThanOrEqual(15);
+    expect(record!.steps[1]!.startedAt).toBeGreaterThanOrEqual(record!.startedAt);
+    expect(record!.endedAt).toBeGreaterThanOrEqual(record!.steps[1]!.startedAt);
+  });
+
+  test("records the failing step and error", async () => {
+    const scenario = addScenario("Timeout", [
+      { type: "pixel-state", position: { x: 1, y: 1 }, color: RED, threshold: 0, timeoutMs: 20 },
+    ]);
+
+    await run(scenario);
+
+    const [record] = runsStore.getRunsForScenario(scenario.id);
+    expect(record).toMatchObject({
+      outcome: "error",
+      error: "Error: Timed out after 20ms: Wait for pixel at (1, 1)",
+    });
+    expect(record!.steps).toHaveLength(1);
+    expect(record!.steps[0]!.waitMs).toBeGreaterThanOrEqual(15);
+  });
+
+  test("keeps only the latest step timings of a long run", async () => {
+    const scenario = addScenario("Long", [
+      { type: "loop", count: MAX_STEP_TIMINGS + 10, body: [{ type: "keypress", key: "a", modifiers: [] }] },
+      { type: "keypress", key: "z", modifiers: [] },
+    ]);
+
+    await run(scenario);
+
+    const [record] = runsStore.getRunsForScenario(scenario.id);
+    expect(record!.steps).toHaveLength(MAX_STEP_TIMINGS);
+    expect(record!.droppedSteps).toBe(11);
+    expect(record!.steps.at(-1)!.description).toBe(describeStep(scenario.steps[1]!));
+  });
+
+  test("records aborted runs, most recent first", async () => {
+    const scenario = addScenario("Runs", [{ type: "delay", ms: 10_000 }]);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    await run(scenario, controller.signal);
+    await run(addScenario("Other", [{ type: "delay", ms: 1 }]));
+    scenariosStore.updateStep(scenario.id, 0, { type: "delay", ms: 1 });
+    await run(scenariosStore.getScenarioById(scenario.id)!);
+
+    expect(runsStore.getRunsForScenario(scenario.id).map((r) => r.outcome)).toEqual([
+      "completed",
+      "aborted",
+    ]);
+  });
+});
+
+describe("timeout policies", () => {
+  /**
+   * A wait on a pixel that never turns red, with the given timeout policy
+   */
+  function redWait(onTimeout: PixelCondition["onTimeout"]): Step {
+    return {
+      type: "pixel-state",
+      position: { x: 1, y: 1 },
+      color: RED,
+      threshold: 0,
+      timeoutMs: 10,
+      onTimeout,
+    };
+  }
+
+  function keys(): string[] {
+    return helper.actions.map((a) => (a.type === "keypress" ? a.key : a.type));
+  }
+
+  test("skip continues with the next step", async () => {
+    const scenario = addScenario("Skip", [
+      redWait("skip"),
+      { type: "keypress", key: "a", modifiers: [] },
+    ]);
+
+    const { progress, error } = await run(scenario);
+
+    expect(error).toBeUndefined();
+    expect(keys()).toEqual(["a"]);
+    expect(progress.at(-1)).toMatchObject({ status: "completed", currentStep: 2, totalSteps: 2 });
+  });
+
+  test("retry waits again and continues once the condition matches", async () => {
+    const scenario = addScenario("Retry", [
+      redWait("retry"),
+      { type: "keypress", key: "a", modifiers: [] },
+    ]);
+    const waits: ExecutionProgress[] = [];
+
+    await executeScenario(scenario, new AbortController().signal, (p) => {
+      if (p.status !== "waiting") return;
+      waits.push(p);
+      // Match during the third attempt
+      if (waits.length === 3) helper.screen.setPixel({ x: 1, y: 1 }, RED);
+    });
+
+    expect(waits).toHaveLength(3);
+    expect(keys()).toEqual(["a"]);
+  });
+
+  test("retry fails after MAX_TIMEOUT_RETRIES extra waits", async () => {
+    const scenario = addScenario("Retry", [
+      redWait("retry"),
+      { type: "keypress", key: "a", modifiers: [] },
+    ]);
+
+    const { progress, error } = await run(scenario);
+
+    expect(error).toBeInstanceOf(WaitTimeoutError);
+    expect((error as Error).message).toBe(
+      `Timed out after 10ms (${MAX_TIMEOUT_RETRIES} retries): Wait for pixel at (1, 1)`
+    );
+    expect(progress.filter((p) => p.status === "waiting")).toHaveLength(MAX_TIMEOUT_RETRIES + 1);
+    expect(helper.actions).toHaveLength(0);
+  });
+
+  test("goto continues in the target and records the jump", async () => {
+    const recovery = addScenario("Recovery", [{ type: "keypress", key: "r", modifiers: [] }]);
+    const main = addScenario("Main", [
+      redWait({ goto: recovery.id }),
+      { type: "keypress", key: "m", modifiers: [] },
+    ]);
+    const touch = spyOn(scenariosStore, "touchScenario");
+
+    const { progress, error } = await run(main);
+
+    expect(error).toBeUndefined();
+    expect(keys()).toEqual(["r"]);
+    expect(progress.at(-1)).toMatchObject({
+      status: "completed",
+      currentStep: 1,
+      totalSteps: 1,
+      redirects: ["Recovery"],
+    });
+    expect(runsStore.getRunsForScenario(main.id)[0]).toMatchObject({
+      outcome: "redirected",
+      redirects: ["Recovery"],
+    });
+    expect(touch.mock.calls).toEqual([[main.id]]);
+    touch.mockRestore();
+  });
+
+  test("gives up on gotos that keep timing out", async () => {
+    const main = addScenario("Main", [{ type: "keypress", key: "m", modifiers: [] }]);
+    scenariosStore.addStep(main.id, redWait({ goto: main.id }));
+
+    const { error } = await run(scenariosStore.getScenarioById(main.id)!);
+
+    expect((error as Error).message).toBe(
+      `Gave up after ${MAX_TIMEOUT_GOTOS} jumps on timeout (next: "Main")`
+    );
+    expect(keys()).toHaveLength(MAX_TIMEOUT_GOTOS + 1);
+    const [record] = runsStore.getRunsForScenario(main.id);
+    expect(record?.outcome).toBe("error");
+    expect(record?.redirects).toHaveLength(MAX_TIMEOUT_GOTOS);
+  });
+});
+
+describe("touchScenario", () => {
+  test("is called for the top-level scenario on success", async () => {
+    const inner = addScenario("Inner", [{ type: "keypress", key: "a", modifiers: [] }]);
+    const outer = addScenario("Outer", [{ type: "scenario-ref", scenarioId: inner.id }]);
+    const touch = spyOn(scenariosStore, "touchScenario");
+
+    await run(outer);
+
+    expect(touch.mock.calls).toEqual([[outer.id]]);
+    touch.mockRestore();
+  });
+
+  test("is not called on error", async () => {
+    const scenario = addScenario("Broken", [{ type: "scenario-ref", scenarioId: "missing" }]);
+    const touch = spyOn(scenariosStore, "touchScenario");
+
+    await run(scenario);
+
+    expect(touch).not.toHaveBeenCalled();
+    touch.mockRestore();
+  });
+
+  test("is not called on abort", async () => {
+    const scenario = addScenario("Aborted", [{ type: "delay", ms: 10_000 }]);
+    const touch = spyOn(scenariosStore, "touchScenario");
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    await run(scenario, controller.signal);
+
+    expect(touch).not.toHaveBeenCalled();
+    touch.mockRestore();
+  });
+});
+
+describe("execution controller", () => {
+  /**
+   * Start a run and expose a way to wait for the next pause
+   */
+  function start(scenario: Scenario, controller: ExecutionController) {
+    const abortController = new AbortController();
+    const progress: ExecutionProgress[] = [];
+    // Pauses not yet awaited, and waiters for pauses not yet reached
+    const pauses: (string | undefined)[] = [];
+    const waiters: ((description?: string) => void)[] = [];
+
+    const done = executeScenario(
+      scenario,
+      abortController.signal,
+      (p) => {
+        progress.push(p);
+        if (p.status !== "paused") return;
+        const waiter = waiters.shift();
+        if (waiter) {
+          waiter(p.currentStepDescription);
+        } else {
+          pauses.push(p.currentStepDescription);
+        }
+      },
+      { controller }
+    ).catch((error: unknown) => error);
+
+    return {
+      progress,
+      done,
+      abort: () => abortController.abort(),
+      nextPause: () =>
+        new Promise<string | undefined>((resolve) => {
+          if (pauses.length > 0) {
+            resolve(pauses.shift());
+          } else {
+            waiters.push(resolve);
+          }
+        }),
+    };
+  }
+
+  function keys(): string[] {
+    return helper.actions.map((a) => (a.type === "keypress" ? a.key : a.type));
+  }
+
+  function nestedScenario(): Scenario {
+    const inner = addScenario("Inner", [
+      { type: "keypress", key: "b", modifiers: [] },
+      { type: "keypress", key: "c", modifiers: [] },
+    ]);
+    return addScenario("Outer", [
+      { type: "keypress", key: "a", modifiers: [] },
+      { type: "scenario-ref", scenarioId: inner.id },
+      { type: "keypress", key: "d", modifiers: [] },
+    ]);
+  }
+
+  test("steps over sub-scenarios", async () => {
+    const controller = createExecutionController();
+    controller.pause();
+    const execution = start(nestedScenario(), controller);
+
+    expect(await execution.nextPause()).toBe("Press a");
+    expect(controller.isPaused()).toBe(true);
+
+    let pause = execution.nextPause();
+    controller.stepOver();
+    expect(await pause).toBe('Run "Inner"');
+    expect(keys()).toEqual(["a"]);
+
+    pause = execution.nextPause();
+    controller.stepOver();
+    expect(await pause).toBe("Press d");
+    expect(keys()).toEqual(["a", "b", "c"]);
+
+    controller.resume();
+    expect(await execution.done).toBeUndefined();
+    expect(keys()).toEqual(["a", "b", "c", "d"]);
+    expect(execution.progress.at(-1)?.status).toBe("completed");
+  });
+
+  test("steps into sub-scenarios", async () => {
+    const controller = createExecutionController();
+    controller.pause();
+    const execution = start(nestedScenario(), controller);
+    await execution.nextPause();
+
+    let pause = execution.nextPause();
+    controller.stepInto();
+    expect(await pause).toBe('Run "Inner"');
+
+    pause = execution.nextPause();
+    controller.stepInto();
+    expect(await pause).toBe("Press b");
+    expect(keys()).toEqual(["a"]);
+
+    // Stepping over the last inner step returns to the parent
+    pause = execution.nextPause();
+    controller.stepOver();
+    expect(await pause).toBe("Press c");
+    pause = execution.nextPause();
+    controller.stepOver();
+    expect(await pause).toBe("Press d");
+
+    controller.resume();
+    expect(await execution.done).toBeUndefined();
+  });
+
+  test("pauses a running scenario and resumes it", async () => {
+    const scenario = addScenario("Slow", [
+      { type: "delay", ms: 100 },
+      { type: "keypress", key: "a", modifiers: [] },
+    ]);
+    const controller = createExecutionController();
+    const execution = start(scenario, controller);
+
+    const pause = execution.nextPause();
+    // Pause while the delay is running
+    await Bun.sleep(20);
+    controller.pause();
+    expect(await pause).toBe("Press a");
+    expect(keys()).toEqual([]);
+
+    controller.resume();
+    expect(await execution.done).toBeUndefined();
+    expect(keys()).toEqual(["a"]);
+  });
+
+  test("pauses inside a sub-scenario being stepped over", async () => {
+    const inner = addScenario("Inner", [
+      { type: "delay", ms: 100 },
+      { type: "keypress", key: "b", modifiers: [] },
+    ]);
+    const outer = addScenario("Outer", [
+      { type: "scenario-ref", scenarioId: inner.id },
+      { type: "keypress", key: "d", modifiers: [] },
+    ]);
+    const controller = createExecutionController();
+    controller.pause();
+    const execution = start(outer, controller);
+    expect(await execution.nextPause()).toBe('Run "Inner"');
+
+    const pause = execution.nextPause();
+    controller.stepOver();
+    await Bun.sleep(20);
+    controller.pause();
+    expect(await pause).toBe("Press b");
+    expect(keys()).toEqual([]);
+    expect(execution.progress.at(-1)?.callStack).toEqual(["Outer", "Inner"]);
+
+    controller.resume();
+    expect(await execution.done).toBeUndefined();
+    expect(keys()).toEqual(["b", "d"]);
+  });
+
+  test("pauses at breakpoints inside sub-scenarios", async () => {
+    const outer = nestedScenario();
+    const inner = scenariosStore.getState().scenarios.find((s) => s.name === "Inner")!;
+    scenariosStore.toggleBreakpoint(inner.id, 1);
+    const controller = createExecutionController();
+    const execution = start(scenariosStore.getScenarioById(outer.id)!, controller);
+
+    expect(await execution.nextPause()).toBe("Press c");
+    expect(keys()).toEqual(["a", "b"]);
+    expect(execution.progress.at(-1)).toMatchObject({
+      status: "paused",
+      breakpoint: 1,
+      callStack: ["Outer", "Inner"],
+    });
+
+    controller.resume();
+    expect(await execution.done).toBeUndefined();
+    expect(keys()).toEqual(["a", "b", "c", "d"]);
+  });
+
+  test("stops at breakpoints while stepping over", async () => {
+    const outer = nestedScenario();
+    const inner = scenariosStore.getState().scenarios.find((s) => s.name === "Inner")!;
+    scenariosStore.toggleBreakpoint(inner.id, 0);
+    const controller = createExecutionController();
+    controller.pause();
+    const execution = start(scenariosStore.getScenarioById(outer.id)!, controller);
+    await execution.nextPause();
+
+    let pause = execution.nextPause();
+    controller.stepOver();
+    expect(await pause).toBe('Run "Inner"');
+
+    pause = execution.nextPause();
+    controller.stepOver();
+    expect(await pause).toBe("Press b");
+    expect(execution.progress.at(-1)?.breakpoint).toBe(0);
+
+    controller.resume();
+    expect(await execution.done).toBeUndefined();
+  });
+
+  test("ignores breakpoints without a controller", async () => {
+    const scenario = addScenario("Plain", [{ type: "keypress", key: "a", modifiers: [] }]);
+    scenariosStore.toggleBreakpoint(scenario.id, 0);
+
+    const { progress, error } = await run(scenariosStore.getScenarioById(scenario.id)!);
+
+    expect(error).toBeUndefined();
+    expect(progress.some((p) => p.status === "paused")).toBe(false);
+  });
+
+  test("aborts while paused", async () => {
+    const controller = createExecutionController();
+    controller.pause();
+    const execution = start(nestedScenario(), controller);
+    await execution.nextPause();
+
+    execution.abort();
+
+    expect(((await execution.done) as DOMException).name).toBe("AbortError");
+    expect(execution.progress.at(-1)?.status).toBe("aborted");
+    expect(controller.isPaused()).toBe(false);
+    expect(helper.actions).toHaveLength(0);
+  });
+});
+
+describe("parameters", () => {
+  /**
+   * Add a scenario that declares parameters
+   */
+  function addParameterized(
+    name: string,
+    parameters: NonNullable<Scenario["parameters"]>,
+    steps: Step[]
+  ): Scenario {
+    const scenario = addScenario(name, steps);
+    scenariosStore.updateScenarioParameters(scenario.id, parameters);
+    return scenariosStore.getScenarioById(scenario.id)!;
+  }
+
+  const boundClick: Step = {
+    type: "click",
+    position: { x: 0, y: 0 },
+    button: "left",
+    bindings: { "position.x": "${x}", "position.y": "${y}" },
+  };
+
+  test("resolves bound fields from defaults and run arguments", async () => {
+    const scenario = addParameterized("Click", [{ name: "x", default: "5" }, { name: "y" }], [
+      boundClick,
+    ]);
+
+    await executeScenario(scenario, new AbortController().signal, undefined, { args: { y: "7" } });
+
+    expect(helper.actions).toEqual([
+      expect.objectContaining({ type: "click", position: { x: 5, y: 7 } }),
+    ]);
+  });
+
+  test("passes arguments to sub-scenarios, resolved in the caller", async () => {
+    const inner = addParameterized("Inner", [{ name: "x" }, { name: "y", default: "1" }], [
+      boundClick,
+      { type: "keypress", key: "a", modifiers: [], bindings: { key: "${x}" } },
+    ]);
+    const outer = addParameterized("Outer", [{ name: "base", default: "4" }], [
+      { type: "scenario-ref", scenarioId: inner.id, args: { x: "${base}0" } },
+    ]);
+
+    const { error } = await run(outer);
+
+    expect(error).toBeUndefined();
+    expect(helper.actions).toEqual([
+      expect.objectContaining({ type: "click", position: { x: 40, y: 1 } }),
+      expect.objectContaining({ type: "keypress", key: "40" }),
+    ]);
+  });
+
+  test("fails before running when a parameter has no value", async () => {
+    const scenario = addParameterized("Needs y", [{ name: "y" }], [boundClick]);
+
+    const { error, progress } = await run(scenario);
+
+    expect((error as Error).message).toBe('Missing value for parameter "y" of "Needs y"');
+    expect(helper.actions).toHaveLength(0);
+    expect(progress.at(-1)).toMatchObject({
+      status: "error",
+      error: 'Error: Missing value for parameter "y" of "Needs y"',
+    });
+    expect(runsStore.getRunsForScenario(scenario.id)[0]?.outcome).toBe("error");
+  });
+
+  test("names the step that uses an undeclared parameter", async () => {
+    const scenario = addParameterized("Partial", [{ name: "x", default: "1" }], [
+      { type: "delay", ms: 1 },
+      boundClick,
+    ]);
+
+    const { error, progress } = await run(scenario);
+
+    expect((error as Error).message).toBe('Step 2 of "Partial": Parameter "y" has no value');
+    expect(progress.at(-1)?.status).toBe("error");
+  });
+
+  test("binds typed text", async () => {
+    const scenario = addParameterized("Sign in", [{ name: "user", default: "ada" }], [
+      { type: "type-text", text: "", bindings: { text: "${user}@example.com" } },
+    ]);
+
+    await run(scenario);
+
+    expect(helper.actions).toEqual([{ type: "type-text", text: "ada@example.com" }]);
+  });
+
+  test("rejects arguments the sub-scenario does not declare", async () => {
+    const inner = addScenario("No params", [{ type: "delay", ms: 1 }]);
+    const outer = addScenario("Caller", [
+      { type: "scenario-ref", scenarioId: inner.id, args: { x: "1" } },
+    ]);
+
+    const { error } = await run(outer);
+
+    expect((error as Error).message).toBe('"No params" has no parameter "x"');
+  });
+
+  test("rejects bound values that are not numbers", async () => {
+    const scenario = addParameterized("Delay", [{ name: "ms", default: "soon" }], [
+      { type: "delay", ms: 0, bindings: { ms: "${ms}" } },
+    ]);
+
+    const { error } = await run(scenario);
+
+    expect((error as Error).message).toBe('Step 1 of "Delay": ms must be a number, got "soon"');
+  });
+});
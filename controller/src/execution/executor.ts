@@ -1,40 +1,225 @@
 // controller/src/execution/executor.ts
 // Execution engine for running scenarios
 
+import { nanoid } from "nanoid";
 import { ipc } from "../ipc/protocol";
 import { scenariosStore } from "../store/scenarios";
-import type { Scenario, Step } from "../types";
+import { runsStore, type RunOutcome, type RunRecord, type StepTiming } from "../store/runs";
+import { trashStore } from "../store/trash";
+import type { ExecutionController } from "./controller";
+import { bindArguments, resolveStep, type Variables } from "./parameters";
+import { acquireRunLock } from "./runLock";
+import type {
+  Action,
+  IfStep,
+  LoopStep,
+  PixelCondition,
+  Scenario,
+  Step,
+  StepBlock,
+  Transition,
+} from "../types";
 
 export interface ExecutionProgress {
   currentStep: number;
   totalSteps: number;
-  status: "running" | "waiting" | "completed" | "aborted" | "error";
+  status: "running" | "waiting" | "paused" | "completed" | "aborted" | "error";
   currentStepDescription?: string;
+  iteration?: number; // 1-based iteration of the innermost running loop
+  iterationCount?: number; // Fixed iteration count of that loop, if any
+  breakpoint?: number; // Index of the breakpoint step paused at, in the innermost scenario
+  callStack?: string[]; // Scenario names from the top-level scenario inwards, when paused
+  redirects?: string[]; // Scenarios timed-out waits jumped to, in order, when completed
   error?: string;
 }
 
 export type ProgressCallback = (progress: ExecutionProgress) => void;
 
+export interface ExecuteOptions {
+  controller?: ExecutionController; // Allows pausing and single-stepping
+  startIndex?: number; // First top-level step to run (default 0)
+  endIndex?: number; // Stop before this top-level step (default: run to the end)
+  args?: Record<string, string>; // Values for the scenario's parameters
+  releaseLock?: () => Promise<void>; // Run lock the caller already took; released when the run ends
+  markUsed?: boolean; // Update the scenario's lastUsedAt (default true)
+  appendRun?: boolean; // Append the record to runs.json as it is on disk, before the lock is released
+}
+
+// Safety cap for loops that don't specify maxIterations
+export const DEFAULT_MAX_ITERATIONS = 1000;
+
+// How many extra waits a "retry" timeout policy allows before failing
+export const MAX_TIMEOUT_RETRIES = 3;
+
+// How many times one run may jump to another scenario on timeout before failing
+export const MAX_TIMEOUT_GOTOS = 10;
+
+// How many step timings a run keeps; long loops drop the oldest beyond this
+export const MAX_STEP_TIMINGS = 500;
+
+/**
+ * Thrown to abandon the current run and continue in another scenario
+ */
+class GotoScenario extends Error {
+  constructor(readonly scenarioId: string) {
+    super(`Go to scenario: ${scenarioId}`);
+  }
+}
+
+/**
+ * Thrown when a pixel wait times out and its policy is to fail
+ */
+export class WaitTimeoutError extends Error {}
+
+// Half-open range of step indices [start, end)
+interface StepRange {
+  start: number;
+  end: number;
+}
+
+interface LoopFrame {
+  iteration: number;
+  count?: number;
+}
+
+/**
+ * Mutable state shared by every level of a single execution
+ */
+interface ExecutionContext {
+  signal: AbortSignal;
+  onProgress: ProgressCallback | undefined;
+  executedSteps: number;
+  totalSteps: number;
+  visited: Set<string>;
+  loops: LoopFrame[];
+  controller: ExecutionController | undefined;
+  depth: number; // Nesting depth of the step list being executed
+  callStack: string[]; // Names of the scenarios currently running
+  appendRun: boolean; // Record the run with runsStore.appendRun rather than addRun
+  timings: StepTiming[]; // Latest leaf steps started, for the run history
+  droppedTimings: number; // Earlier timings dropped to stay under MAX_STEP_TIMINGS
+  vars: Variables; // Parameter values of the scenario currently running
+}
+
 /**
  * Count total steps including sub-scenarios recursively
  */
-function countTotalSteps(scenario: Scenario, visited = new Set<string>()): number {
+function countTotalSteps(
+  scenario: Scenario,
+  visited = new Set<string>(),
+  range?: StepRange
+): number {
   // Prevent infinite recursion with circular references
   if (visited.has(scenario.id)) return 0;
   visited.add(scenario.id);
 
+  const steps = range ? scenario.steps.slice(range.start, range.end) : scenario.steps;
+  const count = countSteps(steps, visited);
+
+  // Allow the same scenario to be counted again in sequence
+  visited.delete(scenario.id);
+  return count;
+}
+
+function countSteps(steps: Step[], visited: Set<string>): number {
   let count = 0;
-  for (const step of scenario.steps) {
-    if (step.type === "scenario-ref") {
+  for (const step of steps) {
+    count += countStep(step, visited);
+  }
+  return count;
+}
+
+function countBlockSteps(block: StepBlock, visited: Set<string>): number {
+  return Array.isArray(block)
+    ? countSteps(block, visited)
+    : countStep(block, visited);
+}
+
+function countStep(step: Step, visited: Set<string>): number {
+  switch (step.type) {
+    case "scenario-ref": {
       const subScenario = scenariosStore.getScenarioById(step.scenarioId);
-      if (subScenario) {
-        count += countTotalSteps(subScenario, visited);
-      }
-    } else {
-      count++;
+      return subScenario ? countTotalSteps(subScenario, visited) : 0;
     }
+    case "loop":
+      // Loops without a fixed count are counted once and grown while running
+      return countBlockSteps(step.body, visited) * (step.count ?? 1);
+    case "if":
+      // Count the larger branch and shrink once the taken branch is known
+      return Math.max(...countBranches(step, visited));
+    default:
+      return 1;
+  }
+}
+
+function countBranches(step: IfStep, visited: Set<string>): [number, number] {
+  return [
+    countBlockSteps(step.then, visited),
+    step.else ? countBlockSteps(step.else, visited) : 0,
+  ];
+}
+
+/**
+ * Whether running a scenario can reach targetId through sub-scenario references
+ */
+function reachesScenario(
+  scenario: Scenario,
+  targetId: string,
+  visited = new Set<string>()
+): boolean {
+  if (scenario.id === targetId) return true;
+  // Each scenario only needs to be searched once
+  if (visited.has(scenario.id)) return false;
+  visited.add(scenario.id);
+  return stepsReach(scenario.steps, targetId, visited);
+}
+
+function stepsReach(steps: Step[], targetId: string, visited: Set<string>): boolean {
+  return steps.some((step) => stepReaches(step, targetId, visited));
+}
+
+function blockReaches(block: StepBlock, targetId: string, visited: Set<string>): boolean {
+  return Array.isArray(block)
+    ? stepsReach(block, targetId, visited)
+    : stepReaches(block, targetId, visited);
+}
+
+function stepReaches(step: Step, targetId: string, visited: Set<string>): boolean {
+  switch (step.type) {
+    case "scenario-ref": {
+      const subScenario = scenariosStore.getScenarioById(step.scenarioId);
+      return subScenario ? reachesScenario(subScenario, targetId, visited) : false;
+    }
+    case "loop":
+      return blockReaches(step.body, targetId, visited);
+    case "if":
+      return (
+        blockReaches(step.then, targetId, visited) ||
+        (step.else !== undefined && blockReaches(step.else, targetId, visited))
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether adding a reference to childId inside parentId would make it call itself
+ */
+export function createsCycle(parentId: string, childId: string): boolean {
+  const child = scenariosStore.getScenarioById(childId);
+  return child ? reachesScenario(child, parentId) : childId === parentId;
+}
+
+/**
+ * Describe a pixel condition for display
+ */
+function describeCondition(condition: PixelCondition): string {
+  switch (condition.type) {
+    case "pixel-state":
+      return `pixel at (${condition.position.x}, ${condition.position.y})`;
+    case "pixel-zone":
+      return `color in zone`;
   }
-  return count;
 }
 
 /**
@@ -48,6 +233,8 @@ export function describeStep(step: Step): string {
       const mods = step.modifiers.length > 0 ? step.modifiers.join("+") + "+" : "";
       return `Press ${mods}${step.key}`;
     }
+    case "type-text":
+      return `Type ${JSON.stringify(step.text)}`;
     case "delay":
       return `Wait ${step.ms}ms`;
     case "pixel-state":
@@ -58,6 +245,12 @@ export function describeStep(step: Step): string {
       const sub = scenariosStore.getScenarioById(step.scenarioId);
       return `Run "${sub?.name ?? "unknown"}"`;
     }
+    case "loop":
+      if (step.count !== undefined) return `Repeat ${step.count} times`;
+      if (step.until) return `Repeat until ${describeCondition(step.until)}`;
+      return `Repeat ${step.maxIterations ?? DEFAULT_MAX_ITERATIONS} times`;
+    case "if":
+      return `If ${describeCondition(step.condition)}`;
   }
 }
 
@@ -83,85 +276,333 @@ function abortableSleep(ms: number, signal: AbortSignal): Promise<void> {
 }
 
 /**
- * Execute a single step
+ * Report progress with the current loop iteration attached
  */
-async function executeStep(
-  step: Step,
-  signal: AbortSignal,
-  onProgress: ProgressCallback | undefined,
-  executedSteps: { count: number },
-  totalSteps: number,
-  visited: Set<string>
-): Promise<void> {
-  // Check for abort before each step
-  if (signal.aborted) {
-    throw new DOMException("Aborted", "AbortError");
-  }
-
-  switch (step.type) {
-    case "click":
-      await ipc.executeClick(step.position, step.button);
-      break;
-
-    case "keypress":
-      await ipc.executeKeypress(step.key, step.modifiers);
-      break;
+function reportProgress(
+  ctx: ExecutionContext,
+  status: ExecutionProgress["status"],
+  currentStepDescription?: string
+): void {
+  const loop = ctx.loops[ctx.loops.length - 1];
+  ctx.onProgress?.({
+    currentStep: ctx.executedSteps,
+    totalSteps: ctx.totalSteps,
+    status,
+    currentStepDescription,
+    iteration: loop?.iteration,
+    iterationCount: loop?.count,
+  });
+}
 
-    case "delay":
-      await abortableSleep(step.ms, signal);
-      break;
+/**
+ * Report a pause along with where execution stopped
+ */
+function reportPause(
+  ctx: ExecutionContext,
+  currentStepDescription: string,
+  breakpoint: number | undefined
+): void {
+  const loop = ctx.loops[ctx.loops.length - 1];
+  ctx.onProgress?.({
+    currentStep: ctx.executedSteps,
+    totalSteps: ctx.totalSteps,
+    status: "paused",
+    currentStepDescription,
+    iteration: loop?.iteration,
+    iterationCount: loop?.count,
+    breakpoint,
+    callStack: [...ctx.callStack],
+  });
+}
 
+/**
+ * Wait for a pixel condition, honouring its timeout if set
+ * @returns Whether the condition matched (false if timed out)
+ */
+async function waitForCondition(
+  condition: PixelCondition,
+  signal: AbortSignal
+): Promise<boolean> {
+  // Without timeoutMs the helper polls until matched (relies on user abort)
+  switch (condition.type) {
     case "pixel-state":
-      onProgress?.({
-        currentStep: executedSteps.count,
-        totalSteps,
-        status: "waiting",
-        currentStepDescription: describeStep(step),
-      });
-      // waitForPixelState will poll until matched
-      // Pass undefined for timeoutMs to wait indefinitely (relies on user abort)
-      await ipc.waitForPixelState(
-        step.position,
-        step.color,
-        step.threshold
+      return ipc.waitForPixelState(
+        condition.position,
+        condition.color,
+        condition.threshold,
+        condition.timeoutMs,
+        signal
       );
-      break;
+    case "pixel-zone":
+      return ipc.waitForPixelZone(
+        condition.rect,
+        condition.color,
+        condition.threshold,
+        condition.timeoutMs,
+        signal
+      );
+  }
+}
 
+/**
+ * Check a pixel condition once without waiting
+ */
+async function checkCondition(
+  condition: PixelCondition,
+  signal: AbortSignal
+): Promise<boolean> {
+  switch (condition.type) {
+    case "pixel-state":
+      return ipc.checkPixelState(
+        condition.position,
+        condition.color,
+        condition.threshold,
+        signal
+      );
     case "pixel-zone":
-      onProgress?.({
-        currentStep: executedSteps.count,
-        totalSteps,
-        status: "waiting",
-        currentStepDescription: describeStep(step),
-      });
-      await ipc.waitForPixelZone(
-        step.rect,
-        step.color,
-        step.threshold
+      return ipc.checkPixelZone(
+        condition.rect,
+        condition.color,
+        condition.threshold,
+        signal
       );
-      break;
+  }
+}
+
+/**
+ * Execute a single step
+ */
+async function executeStep(step: Step, ctx: ExecutionContext): Promise<void> {
+  // Check for abort before each step
+  if (ctx.signal.aborted) {
+    throw new DOMException("Aborted", "AbortError");
+  }
 
+  switch (step.type) {
     case "scenario-ref": {
       const subScenario = scenariosStore.getScenarioById(step.scenarioId);
       if (!subScenario) {
-        throw new Error(`Sub-scenario not found: ${step.scenarioId}`);
+        const trashed = trashStore.getById(step.scenarioId);
+        throw new Error(
+          trashed
+            ? `Sub-scenario "${trashed.scenario.name}" is in the trash (restore it with 't')`
+            : `Sub-scenario not found: ${step.scenarioId}`
+        );
       }
+      // Arguments are resolved in the caller's scope before entering the sub-scenario
+      const vars = bindArguments(subScenario, step.args ?? {}, ctx.vars);
       // Execute sub-scenario (don't increment count here, it's done inside)
-      await executeScenarioInternal(
-        subScenario,
-        signal,
-        onProgress,
-        executedSteps,
-        totalSteps,
-        visited
-      );
+      await executeScenarioInternal(subScenario, ctx, vars);
       // Don't increment executedSteps here - sub-scenario handles its own steps
       return;
     }
+
+    case "loop":
+      // Body steps are counted individually as they run
+      await executeLoop(step, ctx);
+      return;
+
+    case "if":
+      await executeIf(step, ctx);
+      return;
+
+    default:
+      await executeLeafStep(step, ctx);
+  }
+}
+
+/**
+ * Execute a click, keypress or wait and record how long it took
+ */
+async function executeLeafStep(
+  step: Action | Transition,
+  ctx: ExecutionContext
+): Promise<void> {
+  const startedAt = Date.now();
+
+  try {
+    switch (step.type) {
+      case "click":
+        await ipc.executeClick(step.position, step.button, ctx.signal);
+        break;
+
+      case "keypress":
+        await ipc.executeKeypress(step.key, step.modifiers, ctx.signal);
+        break;
+
+      case "type-text":
+        await ipc.typeText(step.text, step.charDelayMs, ctx.signal);
+        break;
+
+      case "delay":
+        await abortableSleep(step.ms, ctx.signal);
+        break;
+
+      case "pixel-state":
+      case "pixel-zone":
+        await executeWait(step, ctx);
+        break;
+    }
+  } finally {
+    // Recorded even when the step fails, so the history shows where a run stopped
+    const durationMs = Date.now() - startedAt;
+    const isWait = step.type === "delay" || step.type === "pixel-state" || step.type === "pixel-zone";
+    ctx.timings.push({
+      description: describeStep(step),
+      scenarioName: ctx.callStack[ctx.callStack.length - 1] ?? "",
+      startedAt,
+      durationMs,
+      waitMs: isWait ? durationMs : 0,
+    });
+    if (ctx.timings.length > MAX_STEP_TIMINGS) {
+      ctx.timings.shift();
+      ctx.droppedTimings++;
+    }
   }
 
   // Increment step count after successful execution
-  executedSteps.count++;
+  ctx.executedSteps++;
+}
+
+/**
+ * Wait for a pixel transition and apply its onTimeout policy if it times out
+ */
+async function executeWait(step: PixelCondition, ctx: ExecutionContext): Promise<void> {
+  const policy = step.onTimeout ?? "fail";
+
+  for (let attempt = 0; ; attempt++) {
+    reportProgress(ctx, "waiting", describeStep(step));
+    if (await waitForCondition(step, ctx.signal)) return;
+
+    if (policy === "skip") return;
+    if (policy === "retry" && attempt < MAX_TIMEOUT_RETRIES) continue;
+    if (typeof policy === "object") throw new GotoScenario(policy.goto);
+
+    const retries = policy === "retry" ? ` (${MAX_TIMEOUT_RETRIES} retries)` : "";
+    throw new WaitTimeoutError(
+      `Timed out after ${step.timeoutMs}ms${retries}: ${describeStep(step)}`
+    );
+  }
+}
+
+/**
+ * Execute a loop until its count is reached or its condition matches
+ */
+async function executeLoop(step: LoopStep, ctx: ExecutionContext): Promise<void> {
+  const maxIterations = step.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  if (step.count !== undefined && step.count > maxIterations) {
+    throw new Error(
+      `Loop count ${step.count} exceeds max iterations (${maxIterations})`
+    );
+  }
+
+  const bodySteps = countBlockSteps(step.body, new Set(ctx.visited));
+  const frame: LoopFrame = { iteration: 0, count: step.count };
+  ctx.loops.push(frame);
+
+  try {
+    while (step.count === undefined || frame.iteration < step.count) {
+      if (frame.iteration >= maxIterations) {
+        if (step.until) {
+          throw new Error(
+            `Loop condition not met after ${maxIterations} iterations`
+          );
+        }
+        break;
+      }
+
+      // Open-ended loops were counted once, so grow the total per extra pass
+      if (frame.iteration > 0 && step.count === undefined) {
+        ctx.totalSteps += bodySteps;
+      }
+      frame.iteration++;
+
+      await executeBlock(step.body, ctx);
+
+      if (step.until && (await checkCondition(step.until, ctx.signal))) {
+        break;
+      }
+    }
+  } finally {
+    ctx.loops.pop();
+  }
+}
+
+/**
+ * Check the condition once and run the matching branch
+ */
+async function executeIf(step: IfStep, ctx: ExecutionContext): Promise<void> {
+  const [thenSteps, elseSteps] = countBranches(step, new Set(ctx.visited));
+  const matched = await checkCondition(step.condition, ctx.signal);
+
+  // The larger branch was counted up front; drop what won't run
+  ctx.totalSteps -= Math.max(thenSteps, elseSteps) - (matched ? thenSteps : elseSteps);
+
+  const branch = matched ? step.then : step.else;
+  if (branch) {
+    await executeBlock(branch, ctx);
+  }
+}
+
+/**
+ * Execute a nested block (inline steps or a scenario reference)
+ */
+async function executeBlock(block: StepBlock, ctx: ExecutionContext): Promise<void> {
+  if (Array.isArray(block)) {
+    await executeSteps(block, ctx);
+  } else {
+    await executeStep(block, ctx);
+  }
+}
+
+/**
+ * Execute a list of steps in order
+ * @param breakpoints Indices of steps to pause before (a scenario's own steps only)
+ * @param range Only run the steps in this range
+ */
+async function executeSteps(
+  steps: Step[],
+  ctx: ExecutionContext,
+  breakpoints: number[] = [],
+  range: StepRange = { start: 0, end: steps.length }
+): Promise<void> {
+  const depth = ctx.depth;
+  ctx.depth++;
+
+  try {
+    for (let index = range.start; index < range.end; index++) {
+      const template = steps[index];
+      if (!template) break;
+
+      if (ctx.signal.aborted) {
+        throw new DOMException("Aborted", "AbortError");
+      }
+
+      let step: Step;
+      try {
+        step = resolveStep(template, ctx.vars);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        const scenarioName = ctx.callStack[ctx.callStack.length - 1] ?? "";
+        throw new Error(`Step ${index + 1} of "${scenarioName}": ${reason}`);
+      }
+
+      const description = describeStep(step);
+      const breakpoint = breakpoints.includes(index) ? index : undefined;
+      await ctx.controller?.checkpoint(
+        depth,
+        ctx.signal,
+        () => reportPause(ctx, description, breakpoint),
+        breakpoint !== undefined
+      );
+
+      reportProgress(ctx, "running", description);
+
+      await executeStep(step, ctx);
+    }
+  } finally {
+    ctx.depth = depth;
+  }
 }
 
 /**
@@ -169,92 +610,200 @@ async function executeStep(
  */
 async function executeScenarioInternal(
   scenario: Scenario,
-  signal: AbortSignal,
-  onProgress: ProgressCallback | undefined,
-  executedSteps: { count: number },
-  totalSteps: number,
-  visited: Set<string>
+  ctx: ExecutionContext,
+  vars: Variables,
+  range?: StepRange
 ): Promise<void> {
   // Prevent infinite recursion
-  if (visited.has(scenario.id)) {
+  if (ctx.visited.has(scenario.id)) {
     throw new Error(`Circular reference detected: ${scenario.name}`);
   }
-  visited.add(scenario.id);
+  ctx.visited.add(scenario.id);
+  ctx.callStack.push(scenario.name);
+  const callerVars = ctx.vars;
+  ctx.vars = vars;
 
-  for (const step of scenario.steps) {
-    if (signal.aborted) {
-      throw new DOMException("Aborted", "AbortError");
-    }
+  try {
+    await executeSteps(scenario.steps, ctx, scenario.breakpoints, range);
+  } finally {
+    ctx.callStack.pop();
+    ctx.vars = callerVars;
+  }
 
-    onProgress?.({
-      currentStep: executedSteps.count,
-      totalSteps,
-      status: "running",
-      currentStepDescription: describeStep(step),
-    });
+  // Remove from visited after completion (allows same scenario to be called again in sequence)
+  ctx.visited.delete(scenario.id);
+}
 
-    await executeStep(step, signal, onProgress, executedSteps, totalSteps, visited);
+/**
+ * Add a finished execution to the run history
+ */
+async function recordRun(
+  scenario: Scenario,
+  ctx: ExecutionContext,
+  startedAt: number,
+  outcome: RunOutcome,
+  error?: string,
+  redirects: string[] = []
+): Promise<void> {
+  const run: RunRecord = {
+    id: nanoid(),
+    scenarioId: scenario.id,
+    scenarioName: scenario.name,
+    startedAt,
+    endedAt: Date.now(),
+    outcome,
+    error,
+    steps: ctx.timings,
+    droppedSteps: ctx.droppedTimings > 0 ? ctx.droppedTimings : undefined,
+    redirects: redirects.length > 0 ? redirects : undefined,
+  };
+  if (ctx.appendRun) {
+    await runsStore.appendRun(run);
+  } else {
+    runsStore.addRun(run);
   }
+}
 
-  // Remove from visited after completion (allows same scenario to be called again in sequence)
-  visited.delete(scenario.id);
+/**
+ * Resolve and validate the top-level step range requested in options
+ */
+function resolveRange(scenario: Scenario, options: ExecuteOptions): StepRange {
+  const length = scenario.steps.length;
+  const start = options.startIndex ?? 0;
+  const end = options.endIndex ?? length;
+
+  if (options.startIndex === undefined && options.endIndex === undefined) {
+    return { start, end };
+  }
+  if (start < 0 || start >= length || end <= start || end > length) {
+    throw new Error(
+      `Invalid step range ${start + 1}-${end} for "${scenario.name}" (${length} steps)`
+    );
+  }
+  return { start, end };
 }
 
 /**
- * Execute a scenario with all its steps
+ * Execute a scenario with all its steps, or only a range of its top-level steps.
+ * Throws RunInProgressError without reporting progress if another run is active.
  * @param scenario The scenario to execute
  * @param signal AbortSignal for cancellation
  * @param onProgress Optional callback for progress updates
+ * @param options Optional execution controls
  */
 export async function executeScenario(
   scenario: Scenario,
   signal: AbortSignal,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  options: ExecuteOptions = {}
 ): Promise<void> {
-  const totalSteps = countTotalSteps(scenario);
-  const executedSteps = { count: 0 };
-  const visited = new Set<string>();
-
-  if (totalSteps === 0) {
-    onProgress?.({
-      currentStep: 0,
-      totalSteps: 0,
-      status: "completed",
-    });
-    return;
+  // Runs drive the real mouse and keyboard, so only one may be active
+  const release = options.releaseLock ?? (await acquireRunLock(scenario.name));
+  try {
+    await runScenario(scenario, signal, onProgress, options);
+  } finally {
+    await release();
   }
+}
+
+async function runScenario(
+  scenario: Scenario,
+  signal: AbortSignal,
+  onProgress: ProgressCallback | undefined,
+  options: ExecuteOptions
+): Promise<void> {
+  const startedAt = Date.now();
+  const ctx: ExecutionContext = {
+    signal,
+    onProgress,
+    executedSteps: 0,
+    totalSteps: 0,
+    visited: new Set<string>(),
+    loops: [],
+    controller: options.controller,
+    depth: 0,
+    callStack: [],
+    appendRun: options.appendRun ?? false,
+    timings: [],
+    droppedTimings: 0,
+    vars: {},
+  };
+  const redirects: string[] = [];
 
   try {
-    await executeScenarioInternal(
-      scenario,
-      signal,
-      onProgress,
-      executedSteps,
-      totalSteps,
-      visited
-    );
+    // Inside the try so a bad range or missing argument is reported like any other failure
+    const range = resolveRange(scenario, options);
+    const vars = bindArguments(scenario, options.args ?? {}, {});
+    ctx.totalSteps = countTotalSteps(scenario, new Set(), range);
+
+    if (ctx.totalSteps === 0) {
+      await recordRun(scenario, ctx, startedAt, "completed");
+      onProgress?.({
+        currentStep: 0,
+        totalSteps: 0,
+        status: "completed",
+      });
+      return;
+    }
 
-    // Mark scenario as used
-    scenariosStore.touchScenario(scenario.id);
+    let current = scenario;
+    let currentRange: StepRange | undefined = range;
+    let currentVars = vars;
+    while (true) {
+      try {
+        await executeScenarioInternal(current, ctx, currentVars, currentRange);
+        break;
+      } catch (error) {
+        if (!(error instanceof GotoScenario)) throw error;
+
+        // A timed-out wait asked to jump elsewhere: drop the call stack
+        const target = scenariosStore.getScenarioById(error.scenarioId);
+        if (!target) {
+          throw new Error(`Timeout target scenario not found: ${error.scenarioId}`);
+        }
+        // A target that ends up at the same wait would otherwise jump forever
+        if (redirects.length >= MAX_TIMEOUT_GOTOS) {
+          throw new Error(
+            `Gave up after ${MAX_TIMEOUT_GOTOS} jumps on timeout (next: "${target.name}")`
+          );
+        }
+        redirects.push(target.name);
+        ctx.visited.clear();
+        ctx.totalSteps = ctx.executedSteps + countTotalSteps(target);
+        current = target;
+        currentRange = undefined;
+        currentVars = bindArguments(target, {}, {});
+      }
+    }
+
+    // Mark the scenario the user started as used, even if a timeout jumped elsewhere
+    if (options.markUsed ?? true) {
+      scenariosStore.touchScenario(scenario.id);
+    }
+    const outcome = redirects.length > 0 ? "redirected" : "completed";
+    await recordRun(scenario, ctx, startedAt, outcome, undefined, redirects);
 
     onProgress?.({
-      currentStep: totalSteps,
-      totalSteps,
+      currentStep: ctx.totalSteps,
+      totalSteps: ctx.totalSteps,
       status: "completed",
+      redirects: redirects.length > 0 ? redirects : undefined,
     });
   } catch (error) {
     if (error instanceof DOMException && error.name === "AbortError") {
+      await recordRun(scenario, ctx, startedAt, "aborted", undefined, redirects);
       onProgress?.({
-        currentStep: executedSteps.count,
-        totalSteps,
+        currentStep: ctx.executedSteps,
+        totalSteps: ctx.totalSteps,
         status: "aborted",
       });
       throw error;
     }
 
+    await recordRun(scenario, ctx, startedAt, "error", String(error), redirects);
     onProgress?.({
-      currentStep: executedSteps.count,
-      totalSteps,
+      currentStep: ctx.executedSteps,
+      totalSteps: ctx.totalSteps,
       status: "error",
       error: String(error),
     });
@@ -1,5 +1,31 @@
 // controller/src/execution/index.ts
 // Export execution module
 
-export { executeScenario, describeStep } from "./executor";
-export type { ExecutionProgress, ProgressCallback } from "./executor";
+export {
+  executeScenario,
+  describeStep,
+  createsCycle,
+  WaitTimeoutError,
+  DEFAULT_MAX_ITERATIONS,
+  MAX_TIMEOUT_RETRIES,
+  MAX_TIMEOUT_GOTOS,
+} from "./executor";
+export { createExecutionController } from "./controller";
+export { activeRun, RunInProgressError } from "./runLock";
+export {
+  bindArguments,
+  resolveStep,
+  substitute,
+  parameterDefaults,
+  type Variables,
+} from "./parameters";
+export {
+  sampleCondition,
+  calibrateCondition,
+  CALIBRATION_MARGIN,
+  type PixelSample,
+  type CalibrationResult,
+} from "./sampling";
+export { colorDistance } from "../types";
+export type { ExecutionProgress, ProgressCallback, ExecuteOptions } from "./executor";
+export type { ExecutionController } from "./controller";
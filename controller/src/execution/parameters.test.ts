@@ -0,0 +1,130 @@
+// controller/src/execution/parameters.test.ts
+// Tests for parameter lists, template substitution and step resolution
+
+import { describe, expect, test } from "bun:test";
+import type { Scenario, Step } from "../types";
+import {
+  bindArguments,
+  formatParameterList,
+  parseParameterList,
+  resolveStep,
+  substitute,
+} from "./parameters";
+
+function scenario(parameters: Scenario["parameters"]): Scenario {
+  return { id: "s", name: "Login", steps: [], createdAt: 0, lastUsedAt: 0, parameters };
+}
+
+describe("substitute", () => {
+  test("replaces every reference", () => {
+    expect(substitute("${user}@${ host }", { user: "me", host: "example.com" })).toBe(
+      "me@example.com"
+    );
+  });
+
+  test("reports missing values and malformed templates", () => {
+    expect(() => substitute("${user}", {})).toThrow('Parameter "user" has no value');
+    expect(() => substitute("${}", {})).toThrow('Invalid parameter name ""');
+    expect(() => substitute("${user", { user: "me" })).toThrow('Unclosed "${"');
+  });
+});
+
+describe("parameter lists", () => {
+  test("round-trips names and defaults", () => {
+    const parameters = parseParameterList(" user=admin , retries, empty= ");
+    expect(parameters).toEqual([
+      { name: "user", default: "admin" },
+      { name: "retries" },
+      { name: "empty", default: "" },
+    ]);
+    expect(formatParameterList(parameters)).toBe("user=admin, retries, empty=");
+  });
+
+  test("rejects invalid and duplicate names", () => {
+    expect(() => parseParameterList("2fast")).toThrow('Invalid parameter name "2fast"');
+    expect(() => parseParameterList("a, a=1")).toThrow('Parameter "a" is listed twice');
+  });
+});
+
+describe("bindArguments", () => {
+  test("resolves arguments in the caller's scope over defaults", () => {
+    const target = scenario([{ name: "user", default: "guest" }, { name: "greeting", default: "hi" }]);
+    expect(bindArguments(target, { user: "${name}!" }, { name: "ada" })).toEqual({
+      user: "ada!",
+      greeting: "hi",
+    });
+  });
+
+  test("explains missing, unknown and unresolvable arguments", () => {
+    expect(() => bindArguments(scenario([{ name: "user" }]), {}, {})).toThrow(
+      'Missing value for parameter "user" of "Login"'
+    );
+    expect(() => bindArguments(scenario([]), { user: "x" }, {})).toThrow(
+      '"Login" has no parameter "user"'
+    );
+    expect(() => bindArguments(scenario([{ name: "user" }]), { user: "${who}" }, {})).toThrow(
+      'Argument "user" for "Login": Parameter "who" has no value'
+    );
+  });
+});
+
+describe("resolveStep", () => {
+  test("fills in bound fields and keeps the others", () => {
+    const step: Step = {
+      type: "pixel-state",
+      position: { x: 1, y: 2 },
+      color: { r: 0, g: 0, b: 0 },
+      threshold: 10,
+      bindings: { "position.y": "${row}", "color.g": "255" },
+    };
+    expect(resolveStep(step, { row: "40" })).toMatchObject({
+      position: { x: 1, y: 40 },
+      color: { r: 0, g: 255, b: 0 },
+    });
+  });
+
+  test("resolves the condition of an if step but not its branches", () => {
+    const click: Step = {
+      type: "click",
+      position: { x: 0, y: 0 },
+      button: "left",
+      bindings: { "position.x": "${missing}" },
+    };
+    const step: Step = {
+      type: "if",
+      condition: {
+        type: "pixel-zone",
+        rect: { x: 0, y: 0, width: 5, height: 5 },
+        color: { r: 0, g: 0, b: 0 },
+        threshold: 10,
+        bindings: { "color.b": "${blue}" },
+      },
+      then: [click],
+    };
+    const resolved = resolveStep(step, { blue: "200" });
+    expect(resolved.type === "if" && resolved.condition.color.b).toBe(200);
+    expect(resolved.type === "if" && resolved.then).toEqual([click]);
+  });
+
+  test("applies the editor's limits to bound numbers", () => {
+    const color: Step = {
+      type: "pixel-zone",
+      rect: { x: 0, y: 0, width: 5, height: 5 },
+      color: { r: 0, g: 0, b: 0 },
+      threshold: 10,
+      bindings: { "color.r": "${red}" },
+    };
+    expect(() => resolveStep(color, { red: "999" })).toThrow('color.r must be 0-255, got "999"');
+    expect(() => resolveStep(color, { red: "-1" })).toThrow('color.r must be 0-255, got "-1"');
+
+    const delay: Step = { type: "delay", ms: 5, bindings: { ms: "${wait}" } };
+    expect(() => resolveStep(delay, { wait: "-50" })).toThrow('ms must be at least 0, got "-50"');
+    expect(() => resolveStep(delay, { wait: "1.5" })).toThrow('ms must be a whole number, got "1.5"');
+    expect(resolveStep(delay, { wait: "0" })).toMatchObject({ ms: 0 });
+  });
+
+  test("rejects bindings for fields the step does not have", () => {
+    const step: Step = { type: "delay", ms: 5, bindings: { key: "a" } };
+    expect(() => resolveStep(step, {})).toThrow("A delay step has no field key");
+  });
+});
@@ -0,0 +1,242 @@
+// controller/src/execution/parameters.ts
+// Scenario parameters and ${name} templates in step fields
+
+import type {
+  Action,
+  BindableField,
+  PixelCondition,
+  Scenario,
+  ScenarioParameter,
+  Step,
+  StepBindings,
+  Transition,
+} from "../types";
+
+// Parameter values in scope while a scenario runs
+export type Variables = Record<string, string>;
+
+const PARAMETER_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const REFERENCE = /\$\{([^}]*)\}/g;
+
+/**
+ * Whether an input should be stored as a template rather than a value
+ */
+export function isTemplate(input: string): boolean {
+  return input.includes("${");
+}
+
+function checkName(name: string): void {
+  if (!PARAMETER_NAME.test(name)) {
+    throw new Error(`Invalid parameter name "${name}" (use letters, digits and _)`);
+  }
+}
+
+/**
+ * Names referenced by a template, throwing if it is malformed
+ */
+export function templateNames(template: string): string[] {
+  const names: string[] = [];
+  for (const match of template.matchAll(REFERENCE)) {
+    const name = match[1]!.trim();
+    checkName(name);
+    if (!names.includes(name)) names.push(name);
+  }
+  if (template.replace(REFERENCE, "").includes("${")) {
+    throw new Error(`Unclosed "\${" in "${template}"`);
+  }
+  return names;
+}
+
+/**
+ * Replace every ${name} in a template with its value
+ */
+export function substitute(template: string, vars: Variables): string {
+  templateNames(template);
+  return template.replace(REFERENCE, (_, raw: string) => {
+    const name = raw.trim();
+    const value = vars[name];
+    if (value === undefined) {
+      throw new Error(`Parameter "${name}" has no value`);
+    }
+    return value;
+  });
+}
+
+/**
+ * Parse "name=value, other" into parameters (the value is optional)
+ */
+export function parseParameterList(input: string): ScenarioParameter[] {
+  const parameters: ScenarioParameter[] = [];
+  for (const part of input.split(",")) {
+    if (part.trim() === "") continue;
+    const eq = part.indexOf("=");
+    const name = (eq === -1 ? part : part.slice(0, eq)).trim();
+    checkName(name);
+    if (parameters.some((p) => p.name === name)) {
+      throw new Error(`Parameter "${name}" is listed twice`);
+    }
+    parameters.push(eq === -1 ? { name } : { name, default: part.slice(eq + 1).trim() });
+  }
+  return parameters;
+}
+
+export function formatParameterList(parameters: ScenarioParameter[]): string {
+  return parameters
+    .map((p) => (p.default === undefined ? p.name : `${p.name}=${p.default}`))
+    .join(", ");
+}
+
+/**
+ * Values a scenario's parameters take when nothing is passed
+ */
+export function parameterDefaults(scenario: Scenario): Variables {
+  const vars: Variables = {};
+  for (const parameter of scenario.parameters ?? []) {
+    if (parameter.default !== undefined) vars[parameter.name] = parameter.default;
+  }
+  return vars;
+}
+
+/**
+ * Bind the arguments a scenario is called with to its parameters. Arguments
+ * are templates resolved against the caller's variables; parameters without
+ * an argument fall back to their default.
+ */
+export function bindArguments(
+  scenario: Scenario,
+  args: Record<string, string>,
+  callerVars: Variables
+): Variables {
+  const parameters = scenario.parameters ?? [];
+  for (const name of Object.keys(args)) {
+    if (!parameters.some((p) => p.name === name)) {
+      throw new Error(`"${scenario.name}" has no parameter "${name}"`);
+    }
+  }
+
+  const vars: Variables = {};
+  for (const { name, default: fallback } of parameters) {
+    const arg = args[name];
+    if (arg !== undefined) {
+      try {
+        vars[name] = substitute(arg, callerVars);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`Argument "${name}" for "${scenario.name}": ${reason}`);
+      }
+    } else if (fallback !== undefined) {
+      vars[name] = fallback;
+    } else {
+      throw new Error(`Missing value for parameter "${name}" of "${scenario.name}"`);
+    }
+  }
+  return vars;
+}
+
+type NumericField = "ms" | "position.x" | "position.y" | "color.r" | "color.g" | "color.b";
+
+// The same limits the editor applies when the value is typed in
+const NUMBER_LIMITS: Record<NumericField, { min?: number; max?: number }> = {
+  ms: { min: 0 },
+  "position.x": {},
+  "position.y": {},
+  "color.r": { min: 0, max: 255 },
+  "color.g": { min: 0, max: 255 },
+  "color.b": { min: 0, max: 255 },
+};
+
+function toNumber(field: NumericField, value: string): number {
+  const number = Number(value.trim());
+  if (value.trim() === "" || !Number.isFinite(number)) {
+    throw new Error(`${field} must be a number, got "${value}"`);
+  }
+  if (!Number.isInteger(number)) {
+    throw new Error(`${field} must be a whole number, got "${value}"`);
+  }
+  const { min, max } = NUMBER_LIMITS[field];
+  if ((min !== undefined && number < min) || (max !== undefined && number > max)) {
+    const range =
+      max === undefined ? `at least ${min}` : min === undefined ? `at most ${max}` : `${min}-${max}`;
+    throw new Error(`${field} must be ${range}, got "${value}"`);
+  }
+  return number;
+}
+
+/**
+ * Set one bound field on a click, keypress or wait
+ */
+function applyBinding(
+  step: Action | Transition,
+  field: BindableField,
+  value: string
+): Action | Transition {
+  switch (field) {
+    case "key":
+      if (step.type === "keypress") return { ...step, key: value };
+      break;
+    case "text":
+      if (step.type === "type-text") return { ...step, text: value };
+      break;
+    case "ms":
+      if (step.type === "delay") return { ...step, ms: toNumber(field, value) };
+      break;
+    case "position.x":
+    case "position.y":
+      if (step.type === "click" || step.type === "pixel-state") {
+        const axis = field === "position.x" ? "x" : "y";
+        return { ...step, position: { ...step.position, [axis]: toNumber(field, value) } };
+      }
+      break;
+    case "color.r":
+    case "color.g":
+    case "color.b":
+      if (step.type === "pixel-state" || step.type === "pixel-zone") {
+        const channel = field.slice("color.".length) as "r" | "g" | "b";
+        return { ...step, color: { ...step.color, [channel]: toNumber(field, value) } };
+      }
+      break;
+  }
+  throw new Error(`A ${step.type} step has no field ${field}`);
+}
+
+function resolveLeaf<T extends Action | Transition>(step: T, vars: Variables): T {
+  const bindings = Object.entries(step.bindings ?? {}) as [BindableField, string][];
+  let resolved: Action | Transition = step;
+  for (const [field, template] of bindings) {
+    resolved = applyBinding(resolved, field, substitute(template, vars));
+  }
+  return resolved as T;
+}
+
+/**
+ * The step with its bound fields filled in. Nested blocks are left alone;
+ * their steps are resolved as they run.
+ */
+export function resolveStep(step: Step, vars: Variables): Step {
+  switch (step.type) {
+    case "scenario-ref":
+      return step;
+    case "loop":
+      return step.until ? { ...step, until: resolveLeaf<PixelCondition>(step.until, vars) } : step;
+    case "if":
+      return { ...step, condition: resolveLeaf<PixelCondition>(step.condition, vars) };
+    default:
+      return resolveLeaf(step, vars);
+  }
+}
+
+/**
+ * The bindings a step carries, including those of a loop's or if's condition
+ */
+export function stepBindings(step: Step): StepBindings {
+  switch (step.type) {
+    case "scenario-ref":
+      return {};
+    case "loop":
+      return step.until?.bindings ?? {};
+    case "if":
+      return step.condition.bindings ?? {};
+    default:
+      return step.bindings ?? {};
+  }
+}
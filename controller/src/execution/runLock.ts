@@ -0,0 +1,49 @@
+// controller/src/execution/runLock.ts
+// One run at a time across the TUI, the control server and the CLI
+
+import { claimRunLock, readRunLock, releaseRunLock } from "../store/persistence";
+
+// Scenario being run by this process
+let active: string | null = null;
+
+/**
+ * Thrown when a run is started while another one is driving the mouse and keyboard
+ */
+export class RunInProgressError extends Error {}
+
+/**
+ * Name of the scenario being run by this or another process, if any
+ */
+export async function activeRun(): Promise<string | null> {
+  return active ?? (await readRunLock())?.scenarioName ?? null;
+}
+
+/**
+ * Take the lock for a run, throwing RunInProgressError if another run holds it.
+ * The in-process check happens before the first await, so two runs started
+ * back to back in this process can't both get it.
+ * @returns Releases the lock
+ */
+export async function acquireRunLock(scenarioName: string): Promise<() => Promise<void>> {
+  if (active !== null) {
+    throw new RunInProgressError(`"${active}" is already running`);
+  }
+  active = scenarioName;
+
+  try {
+    const holder = await claimRunLock(scenarioName);
+    if (holder) {
+      throw new RunInProgressError(
+        `"${holder.scenarioName}" is already running in another process (pid ${holder.pid})`
+      );
+    }
+  } catch (error) {
+    active = null;
+    throw error;
+  }
+
+  return async () => {
+    await releaseRunLock();
+    active = null;
+  };
+}
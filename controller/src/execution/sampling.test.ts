@@ -0,0 +1,95 @@
+// controller/src/execution/sampling.test.ts
+// Tests for live pixel checks, run against the mock helper
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { swiftBridge } from "../ipc/bridge";
+import { MockHelper } from "../mock";
+import { calibrateCondition, CALIBRATION_MARGIN, sampleCondition } from "./sampling";
+
+const RED = { r: 255, g: 0, b: 0 };
+
+let helper: MockHelper;
+
+beforeEach(async () => {
+  helper = new MockHelper();
+  await swiftBridge.start(helper.transport());
+});
+
+afterEach(() => {
+  swiftBridge.stop();
+});
+
+describe("sampleCondition", () => {
+  test("compares a single pixel against the target color", async () => {
+    helper.screen.setPixel({ x: 5, y: 5 }, { r: 250, g: 0, b: 0 });
+
+    const sample = await sampleCondition({
+      type: "pixel-state",
+      position: { x: 5, y: 5 },
+      color: RED,
+      threshold: 10,
+    });
+
+    expect(sample).toEqual({
+      position: { x: 5, y: 5 },
+      color: { r: 250, g: 0, b: 0 },
+      distance: 5,
+      matched: true,
+    });
+  });
+
+  test("reports the closest pixel in a zone", async () => {
+    helper.screen.setPixel({ x: 12, y: 3 }, { r: 200, g: 0, b: 0 });
+
+    const sample = await sampleCondition({
+      type: "pixel-zone",
+      rect: { x: 10, y: 0, width: 5, height: 5 },
+      color: RED,
+      threshold: 20,
+    });
+
+    expect(sample.position).toEqual({ x: 12, y: 3 });
+    expect(sample.distance).toBe(55);
+    expect(sample.matched).toBe(false);
+  });
+});
+
+describe("calibrateCondition", () => {
+  const condition = {
+    type: "pixel-state" as const,
+    position: { x: 0, y: 0 },
+    color: RED,
+    threshold: 1,
+  };
+
+  test("summarizes distances and suggests a threshold covering them", async () => {
+    helper.screen.setPixel({ x: 0, y: 0 }, { r: 245, g: 0, b: 0 });
+    const distances: number[] = [];
+
+    const result = await calibrateCondition(
+      condition,
+      40,
+      new AbortController().signal,
+      (sample) => {
+        distances.push(sample.distance);
+        // Flicker between two shades while sampling
+        helper.screen.setPixel({ x: 0, y: 0 }, { r: 235, g: 0, b: 0 });
+      },
+      10
+    );
+
+    expect(result.samples).toBeGreaterThan(1);
+    expect(result.min).toBe(10);
+    expect(result.max).toBe(20);
+    expect(result.suggestedThreshold).toBe(20 + CALIBRATION_MARGIN);
+    expect(distances[0]).toBe(10);
+  });
+
+  test("stops when aborted", async () => {
+    const controller = new AbortController();
+    const promise = calibrateCondition(condition, 10_000, controller.signal, undefined, 10);
+    setTimeout(() => controller.abort(), 30);
+
+    await expect(promise).rejects.toThrow("Aborted");
+  });
+});
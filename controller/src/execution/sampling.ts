@@ -0,0 +1,83 @@
+// controller/src/execution/sampling.ts
+// One-off reads of the live screen for checking pixel conditions
+
+import { ipc } from "../ipc/protocol";
+import { colorDistance, MAX_THRESHOLD } from "../types";
+import type { PixelCondition, Point, RGB } from "../types";
+
+// Added to the largest observed distance when suggesting a threshold
+export const CALIBRATION_MARGIN = 5;
+
+export interface PixelSample {
+  position: Point; // The pixel that was read (closest match for zones)
+  color: RGB;
+  distance: number; // Euclidean RGB distance to the condition's color
+  matched: boolean; // distance <= threshold
+}
+
+export interface CalibrationResult {
+  samples: number;
+  min: number;
+  max: number;
+  mean: number;
+  suggestedThreshold: number; // Covers every sample plus CALIBRATION_MARGIN
+}
+
+/**
+ * Read the screen once and compare it against a pixel condition
+ */
+export async function sampleCondition(
+  condition: PixelCondition,
+  signal?: AbortSignal
+): Promise<PixelSample> {
+  if (condition.type === "pixel-state") {
+    const { color } = await ipc.getPixelColor(condition.position, signal);
+    const distance = colorDistance(color, condition.color);
+    return {
+      position: condition.position,
+      color,
+      distance,
+      matched: distance <= condition.threshold,
+    };
+  }
+
+  const sample = await ipc.sampleZone(condition.rect, condition.color, signal);
+  return { ...sample, matched: sample.distance <= condition.threshold };
+}
+
+/**
+ * Sample a condition repeatedly for durationMs and summarize the distances.
+ * Meant to run while the screen shows the state the step waits for, so the
+ * suggested threshold matches everything that was seen.
+ */
+export async function calibrateCondition(
+  condition: PixelCondition,
+  durationMs: number,
+  signal: AbortSignal,
+  onSample?: (sample: PixelSample, count: number) => void,
+  intervalMs = 100
+): Promise<CalibrationResult> {
+  const distances: number[] = [];
+  const deadline = Date.now() + durationMs;
+
+  while (true) {
+    if (signal.aborted) {
+      throw new DOMException("Aborted", "AbortError");
+    }
+    const sample = await sampleCondition(condition, signal);
+    distances.push(sample.distance);
+    onSample?.(sample, distances.length);
+
+    if (Date.now() >= deadline) break;
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+
+  const max = Math.max(...distances);
+  return {
+    samples: distances.length,
+    min: Math.min(...distances),
+    max,
+    mean: distances.reduce((sum, d) => sum + d, 0) / distances.length,
+    suggestedThreshold: Math.min(MAX_THRESHOLD, Math.ceil(max + CALIBRATION_MARGIN)),
+  };
+}
@@ -5,9 +5,12 @@ import { useEffect, useCallback, useRef } from "react";
 import { swiftBridge } from "../ipc/bridge";
 import { ipc } from "../ipc/protocol";
 import { scenariosStore } from "../store/scenarios";
+import { historyStore } from "../store/history";
 import { recorderStore } from "../store/recorder";
 import { settingsStore, DEFAULT_SETTINGS } from "../store/settings";
 import { useStoreSubscription } from "./useStoreSubscription";
+import { applyRepick, canRepick } from "../editor/repick";
+import { appendTyped, typedCharacter } from "../editor/typing";
 import type {
   Step,
   Rect,
@@ -29,6 +32,10 @@ export interface UseRecordingReturn {
   finishNaming: () => Promise<void>;
   /** Cancel naming mode */
   cancelNaming: () => void;
+  /** Re-capture the selected click/pixel step from the screen */
+  startRepicking: () => Promise<void>;
+  /** Leave re-pick mode without changing the step */
+  cancelRepicking: () => Promise<void>;
   /** Whether currently recording */
   isRecording: boolean;
   /** Whether currently naming a new scenario */
@@ -42,6 +49,9 @@ export function useRecording(): UseRecordingReturn {
   
   // Track pending zone selection for pixel-zone creation
   const pendingZoneRef = useRef<Rect | null>(null);
+
+  // Whether the last recorded step is a keypress or text that typing can extend
+  const typingRef = useRef(false);
   
   // Track current recorder state for overlay sync
   const overlayStateRef = useRef<{
@@ -58,6 +68,7 @@ export function useRecording(): UseRecordingReturn {
 
     const { scenarioId, insertAfterIndex } = state;
     scenariosStore.addStep(scenarioId, step, insertAfterIndex ?? undefined);
+    typingRef.current = false;
 
     // Update insertAfterIndex to point to the newly added step
     const scenario = scenariosStore.getScenarioById(scenarioId);
@@ -77,6 +88,7 @@ export function useRecording(): UseRecordingReturn {
    */
   useEffect(() => {
     if (recorderState.status !== "recording") return;
+    typingRef.current = false;
 
     const handleMouseClicked = (event: IPCEvent & { event: "mouseClicked" }) => {
       // Only capture clicks when in action/mouse mode
@@ -96,12 +108,27 @@ export function useRecording(): UseRecordingReturn {
       if (overlayStateRef.current.state !== "action") return;
       if (overlayStateRef.current.subState !== "keyboard") return;
 
-      const step: KeypressAction = {
-        type: "keypress",
-        key: event.data.key,
-        modifiers: event.data.modifiers,
-      };
+      const { key, modifiers } = event.data;
+      const char = settingsStore.getState().mergeTypedText ? typedCharacter(key, modifiers) : null;
+
+      // Extend the text typed just before instead of adding another keypress
+      const state = recorderStore.getState();
+      if (char !== null && typingRef.current && state.status === "recording") {
+        const { scenarioId, insertAfterIndex } = state;
+        const previous =
+          insertAfterIndex !== null
+            ? scenariosStore.getScenarioById(scenarioId)?.steps[insertAfterIndex]
+            : undefined;
+        const merged = previous && appendTyped(previous, char);
+        if (merged && insertAfterIndex !== null) {
+          scenariosStore.updateStep(scenarioId, insertAfterIndex, merged);
+          return;
+        }
+      }
+
+      const step: KeypressAction = { type: "keypress", key, modifiers };
       addStep(step);
+      typingRef.current = char !== null;
     };
 
     const handlePixelSelected = (event: IPCEvent & { event: "pixelSelected" }) => {
@@ -152,6 +179,7 @@ export function useRecording(): UseRecordingReturn {
     const handleOverlayClosed = () => {
       // User closed the overlay, stop recording
       recorderStore.stopRecording();
+      historyStore.endRecording();
       pendingZoneRef.current = null;
     };
 
@@ -230,6 +258,43 @@ export function useRecording(): UseRecordingReturn {
     };
   }, [recorderState.status, addStep]);
 
+  /**
+   * Handle magnifier selections while re-picking an existing step
+   */
+  useEffect(() => {
+    if (recorderState.status !== "repicking") return;
+    const { scenarioId, stepIndex } = recorderState;
+    let pendingZone: Rect | null = null;
+
+    const handlePixelSelected = (event: IPCEvent & { event: "pixelSelected" }) => {
+      const step = scenariosStore.getScenarioById(scenarioId)?.steps[stepIndex];
+      if (step && canRepick(step)) {
+        const updated = applyRepick(step, { ...event.data, rect: pendingZone ?? undefined });
+        historyStore.updateStep(scenarioId, stepIndex, updated);
+      }
+      recorderStore.stopRepicking();
+      ipc.hideMagnifier().catch(() => {});
+    };
+
+    const handleZoneSelected = (event: IPCEvent & { event: "zoneSelected" }) => {
+      // Keep the zone and pick its color next
+      pendingZone = event.data.rect;
+      ipc.showMagnifier().catch(() => {});
+    };
+
+    const bridge = swiftBridge as {
+      on: (event: string, cb: (data: unknown) => void) => void;
+      off: (event: string, cb: (data: unknown) => void) => void;
+    };
+    bridge.on("pixelSelected", handlePixelSelected as (data: unknown) => void);
+    bridge.on("zoneSelected", handleZoneSelected as (data: unknown) => void);
+
+    return () => {
+      bridge.off("pixelSelected", handlePixelSelected as (data: unknown) => void);
+      bridge.off("zoneSelected", handleZoneSelected as (data: unknown) => void);
+    };
+  }, [recorderState]);
+
   /**
    * Toggle recording on/off
    */
@@ -240,6 +305,7 @@ export function useRecording(): UseRecordingReturn {
       // Stop recording
       await ipc.hideRecorderOverlay();
       recorderStore.stopRecording();
+      historyStore.endRecording();
       overlayStateRef.current = { state: "idle" };
       pendingZoneRef.current = null;
     } else if (state.status === "idle") {
@@ -250,6 +316,7 @@ export function useRecording(): UseRecordingReturn {
       if (selectedScenario) {
         // Start recording into existing scenario
         const insertAfterIndex = scenariosState.selectedStepIndex;
+        historyStore.beginRecording(selectedScenario.id);
         recorderStore.startRecording(selectedScenario.id, insertAfterIndex);
         
         // Show overlay
@@ -258,7 +325,7 @@ export function useRecording(): UseRecordingReturn {
         overlayStateRef.current = { state: "idle" };
       } else {
         // No scenario selected - create new one and enter naming mode
-        const newScenario = scenariosStore.createScenario("New Scenario");
+        const newScenario = historyStore.createScenario("New Scenario");
         recorderStore.startNaming(newScenario.id);
       }
     }
@@ -274,10 +341,11 @@ export function useRecording(): UseRecordingReturn {
 
     const name = recorderStore.finishNaming();
     if (name) {
-      scenariosStore.updateScenarioName(state.scenarioId, name);
+      historyStore.updateScenarioName(state.scenarioId, name);
     }
 
     // Now start recording
+    historyStore.beginRecording(state.scenarioId);
     recorderStore.startRecording(state.scenarioId, null);
     
     // Show overlay
@@ -293,15 +361,39 @@ export function useRecording(): UseRecordingReturn {
     const state = recorderStore.getState();
     if (state.status !== "naming") return;
 
-    // Delete the empty scenario we created
-    scenariosStore.deleteScenario(state.scenarioId);
+    // Delete the empty scenario if we just created it
+    historyStore.discardNewScenario(state.scenarioId);
     recorderStore.cancelNaming();
   }, []);
 
+  /**
+   * Open the magnifier to re-pick the selected step
+   */
+  const startRepicking = useCallback(async () => {
+    const { selectedScenarioId, selectedStepIndex } = scenariosStore.getState();
+    if (!selectedScenarioId || selectedStepIndex === null) return;
+    const step = scenariosStore.getScenarioById(selectedScenarioId)?.steps[selectedStepIndex];
+    if (!step || !canRepick(step)) return;
+
+    recorderStore.startRepicking(selectedScenarioId, selectedStepIndex);
+    await ipc.showMagnifier();
+  }, []);
+
+  /**
+   * Cancel re-picking and hide the magnifier
+   */
+  const cancelRepicking = useCallback(async () => {
+    if (recorderStore.getState().status !== "repicking") return;
+    recorderStore.stopRepicking();
+    await ipc.hideMagnifier();
+  }, []);
+
   return {
     toggleRecording,
     finishNaming,
     cancelNaming,
+    startRepicking,
+    cancelRepicking,
     isRecording: recorderState.status === "recording",
     isNaming: recorderState.status === "naming",
     namingValue: recorderState.status === "naming" ? recorderState.name : "",
@@ -3,6 +3,7 @@
 
 import { useState, useCallback } from "react";
 import { scenariosStore } from "../store/scenarios";
+import { historyStore } from "../store/history";
 
 export type Column = 0 | 1 | 2; // scenarios, steps, preview
 
@@ -187,7 +188,7 @@ export function useVimNavigation(): VimNavigation {
     if (!scenario || state.selectedStepIndex === null) return;
 
     if (state.selectedStepIndex > 0) {
-      scenariosStore.swapSteps(
+      historyStore.swapSteps(
         scenario.id,
         state.selectedStepIndex,
         state.selectedStepIndex - 1
@@ -204,7 +205,7 @@ export function useVimNavigation(): VimNavigation {
     if (!scenario || state.selectedStepIndex === null) return;
 
     if (state.selectedStepIndex < scenario.steps.length - 1) {
-      scenariosStore.swapSteps(
+      historyStore.swapSteps(
         scenario.id,
         state.selectedStepIndex,
         state.selectedStepIndex + 1
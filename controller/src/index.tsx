@@ -6,6 +6,11 @@ import { createRoot } from "@opentui/react";
 import { App } from "./components/App";
 import { swiftBridge, ipc } from "./ipc/protocol";
 import { scenariosStore } from "./store/scenarios";
+import { runsStore } from "./store/runs";
+import { trashStore } from "./store/trash";
+import { flushPendingSaves } from "./store/debounce";
+import { settingsStore } from "./store/settings";
+import { startControlServer, type ControlServer } from "./server";
 
 async function main() {
   console.log("Starting macOS Smart Sequencer...");
@@ -26,7 +31,7 @@ async function main() {
 
     bridge.on("exit", (code: unknown) => {
       console.log("Swift helper exited with code:", code);
-      process.exit((code as number | null) ?? 1);
+      flushPendingSaves().finally(() => process.exit((code as number | null) ?? 1));
     });
 
     // Check permissions
@@ -62,6 +67,21 @@ async function main() {
     await scenariosStore.load();
     const state = scenariosStore.getState();
     console.log(`Loaded ${state.scenarios.length} scenario(s)`);
+    await runsStore.load();
+    await trashStore.load();
+    await settingsStore.load();
+
+    // Optional control server for other local tools
+    let controlServer: ControlServer | null = null;
+    const { serverPort, serverToken } = settingsStore.getState();
+    if (serverPort !== undefined) {
+      try {
+        controlServer = startControlServer({ port: serverPort, token: serverToken ?? "" });
+        console.log(`Control server listening on ${controlServer.url}`);
+      } catch (error) {
+        console.error("Failed to start control server:", error);
+      }
+    }
 
     // Clear screen before starting UI
     console.clear();
@@ -73,17 +93,19 @@ async function main() {
 
     createRoot(renderer).render(<App />);
 
-    // Keep the process alive
+    // Keep the process alive; write scheduled saves before exiting
     process.on("SIGINT", () => {
       renderer.destroy();
+      controlServer?.stop();
       swiftBridge.stop();
-      process.exit(0);
+      flushPendingSaves().finally(() => process.exit(0));
     });
 
     process.on("SIGTERM", () => {
       renderer.destroy();
+      controlServer?.stop();
       swiftBridge.stop();
-      process.exit(0);
+      flushPendingSaves().finally(() => process.exit(0));
     });
   } catch (error) {
     console.error("Failed to start:", error);
@@ -0,0 +1,52 @@
+// controller/src/ipc/bridge.test.ts
+// Tests for validating messages from the helper before dispatching them
+
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { swiftBridge } from "./bridge";
+import { MockHelper } from "../mock";
+import type { IPCEvent } from "../types";
+
+let helper: MockHelper;
+
+beforeEach(async () => {
+  helper = new MockHelper();
+  await swiftBridge.start(helper.transport());
+});
+
+afterEach(() => {
+  swiftBridge.stop();
+});
+
+// Narrowed to avoid the TS2590 union complexity error on event names
+const bridge = swiftBridge as {
+  on: (event: string, cb: (data: unknown) => void) => void;
+};
+
+/** Let the bridge read what the helper wrote */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe("swiftBridge", () => {
+  test("dispatches well-formed events", async () => {
+    let received = 0;
+    bridge.on("keyPressed", () => received++);
+
+    helper.emit({ event: "keyPressed", data: { key: "a", modifiers: ["cmd"] } });
+    await flush();
+
+    expect(received).toBe(1);
+  });
+
+  test("logs malformed events instead of dispatching them", async () => {
+    const errorSpy = spyOn(console, "error").mockImplementation(() => {});
+    let received = 0;
+    bridge.on("keyPressed", () => received++);
+
+    helper.emit({ event: "keyPressed", data: { key: 42 } } as unknown as IPCEvent);
+    await flush();
+
+    expect(received).toBe(0);
+    expect(String(errorSpy.mock.calls[0]?.[0])).toContain("$.data.key: expected string, got integer");
+    expect(String(errorSpy.mock.calls[0]?.[0])).toContain("$.data.modifiers: is required");
+    errorSpy.mockRestore();
+  });
+});
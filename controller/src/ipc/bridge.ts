@@ -1,12 +1,14 @@
 // IPC Bridge - Manages communication with Swift helper subprocess
 
-import type { Subprocess } from "bun";
 import { nanoid } from "nanoid";
-import type {
-  IPCRequest,
-  IPCRequestBody,
-  IPCResponse,
-  IPCEvent,
+import { spawnHelper, type HelperTransport } from "./transport.ts";
+import {
+  formatValidationErrors,
+  validate,
+  type IPCRequest,
+  type IPCRequestBody,
+  type IPCResponse,
+  type IPCEvent,
 } from "../types/index.ts";
 
 // Event callback types
@@ -28,14 +30,14 @@ type EventMap = {
 interface PendingRequest<T = unknown> {
   resolve: (value: T) => void;
   reject: (error: Error) => void;
-  timeout: ReturnType<typeof setTimeout>;
+  timeout?: ReturnType<typeof setTimeout>;
 }
 
 // Default timeout for IPC requests (10 seconds)
-const DEFAULT_TIMEOUT_MS = 10000;
+export const DEFAULT_TIMEOUT_MS = 10000;
 
 export class SwiftBridge {
-  private process: Subprocess<"pipe", "pipe", "pipe"> | null = null;
+  private transport: HelperTransport | null = null;
   private pendingRequests = new Map<string, PendingRequest>();
   private eventListeners = new Map<string, Set<EventCallback>>();
   private readBuffer = "";
@@ -56,18 +58,17 @@ export class SwiftBridge {
 
   /**
    * Start the Swift helper subprocess
+   * @param transport Use this transport instead of spawning the helper (e.g. a mock)
    */
-  async start(): Promise<void> {
+  async start(transport?: HelperTransport): Promise<void> {
     if (this.isRunning) {
       throw new Error("SwiftBridge is already running");
     }
 
     // Spawn the Swift helper
-    this.process = Bun.spawn([this.helperPath], {
-      stdin: "pipe",
-      stdout: "pipe",
-      stderr: "pipe",
-    });
+    const current = transport ?? spawnHelper(this.helperPath);
+    this.transport = current;
+    this.readBuffer = "";
 
     this.isRunning = true;
 
@@ -78,7 +79,10 @@ export class SwiftBridge {
     this.readStderr();
 
     // Handle process exit
-    this.process.exited.then((exitCode) => {
+    current.exited.then((exitCode) => {
+      // A newer helper may have been started since this one was stopped
+      if (this.transport !== null && this.transport !== current) return;
+
       this.isRunning = false;
       this.emit("exit", exitCode);
 
@@ -95,45 +99,74 @@ export class SwiftBridge {
    * Stop the Swift helper subprocess
    */
   stop(): void {
-    if (this.process) {
-      this.process.stdin.end();
-      this.process.kill();
-      this.process = null;
+    if (this.transport) {
+      this.transport.close();
+      this.transport = null;
       this.isRunning = false;
     }
   }
 
   /**
    * Send a request to the Swift helper and wait for response
+   * @param timeoutMs Reject after this long, or null to wait indefinitely
+   * @param signal Aborting cancels the request on the helper and rejects immediately
    */
   async request<T>(
     body: IPCRequestBody,
-    timeoutMs: number = DEFAULT_TIMEOUT_MS
+    timeoutMs: number | null = DEFAULT_TIMEOUT_MS,
+    signal?: AbortSignal
   ): Promise<T> {
-    if (!this.isRunning || !this.process) {
+    if (!this.isRunning || !this.transport) {
       throw new Error("SwiftBridge is not running");
     }
+    if (signal?.aborted) {
+      throw new DOMException("Aborted", "AbortError");
+    }
 
     const id = nanoid();
     const request: IPCRequest = { id, ...body };
 
     return new Promise<T>((resolve, reject) => {
-      // Set up timeout
-      const timeout = setTimeout(() => {
+      const abortHandler = () => {
+        const pending = this.pendingRequests.get(id);
+        if (!pending) return;
+        clearTimeout(pending.timeout);
         this.pendingRequests.delete(id);
-        reject(new Error(`Request ${body.method} timed out after ${timeoutMs}ms`));
-      }, timeoutMs);
+
+        // Tell the helper to stop working on it; the response is dropped
+        this.request({ method: "cancelRequest", params: { requestId: id } }).catch(
+          () => {}
+        );
+        reject(new DOMException("Aborted", "AbortError"));
+      };
+      signal?.addEventListener("abort", abortHandler, { once: true });
+
+      // Set up timeout
+      const timeout =
+        timeoutMs === null
+          ? undefined
+          : setTimeout(() => {
+              this.pendingRequests.delete(id);
+              signal?.removeEventListener("abort", abortHandler);
+              reject(new Error(`Request ${body.method} timed out after ${timeoutMs}ms`));
+            }, timeoutMs);
 
       // Store pending request
       this.pendingRequests.set(id, {
-        resolve: resolve as (value: unknown) => void,
-        reject,
+        resolve: (value) => {
+          signal?.removeEventListener("abort", abortHandler);
+          resolve(value as T);
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", abortHandler);
+          reject(error);
+        },
         timeout,
       });
 
       // Send request
       const json = JSON.stringify(request) + "\n";
-      this.process!.stdin.write(json);
+      this.transport!.write(json);
     });
   }
 
@@ -177,9 +210,9 @@ export class SwiftBridge {
    * Read stdout in a loop, parsing JSON messages
    */
   private async readLoop(): Promise<void> {
-    if (!this.process) return;
+    if (!this.transport) return;
 
-    const reader = this.process.stdout.getReader();
+    const reader = this.transport.stdout.getReader();
     const decoder = new TextDecoder();
 
     try {
@@ -231,6 +264,12 @@ export class SwiftBridge {
       "id" in message &&
       "success" in message
     ) {
+      const errors = validate("IPCResponse", message);
+      if (errors.length > 0) {
+        console.error(`Malformed IPC response:\n${formatValidationErrors(errors)}`);
+        this.rejectMalformed(message.id);
+        return;
+      }
       this.handleResponse(message as IPCResponse);
       return;
     }
@@ -241,6 +280,11 @@ export class SwiftBridge {
       message !== null &&
       "event" in message
     ) {
+      const errors = validate("IPCEvent", message);
+      if (errors.length > 0) {
+        console.error(`Malformed IPC event:\n${formatValidationErrors(errors)}`);
+        return;
+      }
       this.handleEvent(message as IPCEvent);
       return;
     }
@@ -268,6 +312,20 @@ export class SwiftBridge {
     }
   }
 
+  /**
+   * Fail the request a malformed response belongs to, rather than leaving it
+   * to time out
+   */
+  private rejectMalformed(id: unknown): void {
+    if (typeof id !== "string") return;
+    const pending = this.pendingRequests.get(id);
+    if (!pending) return;
+
+    clearTimeout(pending.timeout);
+    this.pendingRequests.delete(id);
+    pending.reject(new Error("Malformed response from helper"));
+  }
+
   /**
    * Handle an event message
    */
@@ -279,9 +337,9 @@ export class SwiftBridge {
    * Read and log stderr
    */
   private async readStderr(): Promise<void> {
-    if (!this.process) return;
+    if (!this.transport) return;
 
-    const reader = this.process.stderr.getReader();
+    const reader = this.transport.stderr.getReader();
     const decoder = new TextDecoder();
 
     try {
@@ -1,12 +1,13 @@
 // Typed protocol wrappers for IPC methods
 
-import { swiftBridge } from "./bridge.ts";
+import { DEFAULT_TIMEOUT_MS, swiftBridge } from "./bridge.ts";
 import type {
   PermissionStatus,
   PixelColorResult,
   Point,
   Rect,
   RGB,
+  ZoneSampleResult,
 } from "../types/index.ts";
 
 /**
@@ -79,41 +80,151 @@ export const ipc = {
    * Execute a mouse click
    * @param position Screen coordinates to click
    * @param button Left or right mouse button
+   * @param signal Optional AbortSignal to cancel the request
    */
   async executeClick(
     position: Point,
-    button: "left" | "right" = "left"
+    button: "left" | "right" = "left",
+    signal?: AbortSignal
   ): Promise<void> {
-    await swiftBridge.request<void>({
-      method: "executeClick",
-      params: { position, button },
-    });
+    await swiftBridge.request<void>(
+      {
+        method: "executeClick",
+        params: { position, button },
+      },
+      undefined,
+      signal
+    );
   },
 
   /**
    * Execute a keypress
    * @param key The key to press
    * @param modifiers Array of modifier keys
+   * @param signal Optional AbortSignal to cancel the request
    */
   async executeKeypress(
     key: string,
-    modifiers: ("ctrl" | "alt" | "shift" | "cmd")[] = []
+    modifiers: ("ctrl" | "alt" | "shift" | "cmd")[] = [],
+    signal?: AbortSignal
   ): Promise<void> {
-    await swiftBridge.request<void>({
-      method: "executeKeypress",
-      params: { key, modifiers },
-    });
+    await swiftBridge.request<void>(
+      {
+        method: "executeKeypress",
+        params: { key, modifiers },
+      },
+      undefined,
+      signal
+    );
+  },
+
+  /**
+   * Type a string; the helper adds shift for uppercase letters and symbols
+   * @param text The text to type
+   * @param charDelayMs Optional pause between characters
+   * @param signal Optional AbortSignal to cancel the request
+   */
+  async typeText(text: string, charDelayMs?: number, signal?: AbortSignal): Promise<void> {
+    await swiftBridge.request<void>(
+      {
+        method: "typeText",
+        params: { text, charDelayMs },
+      },
+      // Typing takes at least one delay per character on top of the usual time
+      DEFAULT_TIMEOUT_MS + [...text].length * (charDelayMs ?? 0),
+      signal
+    );
   },
 
   /**
    * Get the color of a pixel at a specific position
    * @param position Screen coordinates
+   * @param signal Optional AbortSignal to cancel the request
    */
-  async getPixelColor(position: Point): Promise<PixelColorResult> {
-    return swiftBridge.request<PixelColorResult>({
-      method: "getPixelColor",
-      params: { position },
-    });
+  async getPixelColor(
+    position: Point,
+    signal?: AbortSignal
+  ): Promise<PixelColorResult> {
+    return swiftBridge.request<PixelColorResult>(
+      {
+        method: "getPixelColor",
+        params: { position },
+      },
+      undefined,
+      signal
+    );
+  },
+
+  /**
+   * Check once whether a pixel matches a specific color
+   * @param position Screen coordinates
+   * @param color Target color to match
+   * @param threshold Euclidean RGB distance threshold (0-441)
+   * @param signal Optional AbortSignal to cancel the request
+   * @returns Whether the pixel currently matches
+   */
+  async checkPixelState(
+    position: Point,
+    color: RGB,
+    threshold: number,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    const result = await swiftBridge.request<{ matched: boolean }>(
+      {
+        method: "checkPixelState",
+        params: { position, color, threshold },
+      },
+      undefined,
+      signal
+    );
+    return result.matched;
+  },
+
+  /**
+   * Check once whether any pixel in a zone matches a specific color
+   * @param rect Rectangle defining the zone
+   * @param color Target color to match
+   * @param threshold Euclidean RGB distance threshold (0-441)
+   * @param signal Optional AbortSignal to cancel the request
+   * @returns Whether a matching pixel is currently present
+   */
+  async checkPixelZone(
+    rect: Rect,
+    color: RGB,
+    threshold: number,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    const result = await swiftBridge.request<{ matched: boolean }>(
+      {
+        method: "checkPixelZone",
+        params: { rect, color, threshold },
+      },
+      undefined,
+      signal
+    );
+    return result.matched;
+  },
+
+  /**
+   * Find the pixel in a zone closest to a color
+   * @param rect Rectangle defining the zone
+   * @param color Target color to compare against
+   * @param signal Optional AbortSignal to cancel the request
+   * @returns The closest pixel's position, color and distance
+   */
+  async sampleZone(
+    rect: Rect,
+    color: RGB,
+    signal?: AbortSignal
+  ): Promise<ZoneSampleResult> {
+    return swiftBridge.request<ZoneSampleResult>(
+      {
+        method: "sampleZone",
+        params: { rect, color },
+      },
+      undefined,
+      signal
+    );
   },
 
   /**
@@ -121,21 +232,25 @@ export const ipc = {
    * @param position Screen coordinates
    * @param color Target color to match
    * @param threshold Euclidean RGB distance threshold (0-441)
-   * @param timeoutMs Optional timeout in milliseconds
+   * @param timeoutMs Optional timeout in milliseconds (waits indefinitely if omitted)
+   * @param signal Optional AbortSignal to cancel the wait on the helper
    * @returns Whether the condition was matched (false if timed out)
    */
   async waitForPixelState(
     position: Point,
     color: RGB,
     threshold: number,
-    timeoutMs?: number
+    timeoutMs?: number,
+    signal?: AbortSignal
   ): Promise<boolean> {
     const result = await swiftBridge.request<{ matched: boolean }>(
       {
         method: "waitForPixelState",
         params: { position, color, threshold, timeoutMs },
       },
-      timeoutMs ? timeoutMs + 5000 : undefined // Add buffer to IPC timeout
+      // Add buffer to IPC timeout; without a timeout the helper waits indefinitely
+      timeoutMs !== undefined ? timeoutMs + 5000 : null,
+      signal
     );
     return result.matched;
   },
@@ -145,21 +260,25 @@ export const ipc = {
    * @param rect Rectangle defining the zone
    * @param color Target color to match
    * @param threshold Euclidean RGB distance threshold (0-441)
-   * @param timeoutMs Optional timeout in milliseconds
+   * @param timeoutMs Optional timeout in milliseconds (waits indefinitely if omitted)
+   * @param signal Optional AbortSignal to cancel the wait on the helper
    * @returns Whether the condition was matched (false if timed out)
    */
   async waitForPixelZone(
     rect: Rect,
     color: RGB,
     threshold: number,
-    timeoutMs?: number
+    timeoutMs?: number,
+    signal?: AbortSignal
   ): Promise<boolean> {
     const result = await swiftBridge.request<{ matched: boolean }>(
       {
         method: "waitForPixelZone",
         params: { rect, color, threshold, timeoutMs },
       },
-      timeoutMs ? timeoutMs + 5000 : undefined // Add buffer to IPC timeout
+      // Add buffer to IPC timeout; without a timeout the helper waits indefinitely
+      timeoutMs !== undefined ? timeoutMs + 5000 : null,
+      signal
     );
     return result.matched;
   },
@@ -0,0 +1,41 @@
+// Transport between SwiftBridge and a helper speaking newline-delimited JSON
+
+/**
+ * Byte streams of a running helper, mirroring a subprocess's stdio
+ */
+export interface HelperTransport {
+  /** Messages from the helper, one JSON object per line */
+  readonly stdout: ReadableStream<Uint8Array>;
+  /** Diagnostic output from the helper */
+  readonly stderr: ReadableStream<Uint8Array>;
+  /** Resolves with the exit code once the helper is gone */
+  readonly exited: Promise<number | null>;
+  /** Send data to the helper's stdin */
+  write(data: string): void;
+  /** Close stdin and terminate the helper */
+  close(): void;
+}
+
+/**
+ * Spawn the helper binary as a subprocess
+ */
+export function spawnHelper(helperPath: string): HelperTransport {
+  const process = Bun.spawn([helperPath], {
+    stdin: "pipe",
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+
+  return {
+    stdout: process.stdout,
+    stderr: process.stderr,
+    exited: process.exited,
+    write(data: string): void {
+      process.stdin.write(data);
+    },
+    close(): void {
+      process.stdin.end();
+      process.kill();
+    },
+  };
+}
@@ -0,0 +1,307 @@
+// controller/src/mock/helper.ts
+// In-process stand-in for the Swift helper, for headless testing
+// Speaks the same newline-delimited JSON protocol as IPCHandler.swift
+
+import type { HelperTransport } from "../ipc/transport";
+import type {
+  Action,
+  IPCEvent,
+  IPCRequest,
+  PermissionStatus,
+  Point,
+} from "../types";
+import { VirtualScreen } from "./screen";
+
+// How often pixel waits re-check the virtual screen
+const POLL_INTERVAL_MS = 10;
+
+export interface MockOverlayState {
+  visible: boolean;
+  position?: Point;
+  state: "idle" | "action" | "transition";
+  subState?: "mouse" | "keyboard" | "time" | "pixel";
+  magnifierVisible: boolean;
+}
+
+type ActionListener = (action: Action) => void;
+
+export class MockHelper {
+  /** Screen that pixel requests read from */
+  readonly screen: VirtualScreen;
+  /** Every request received, in order */
+  readonly requests: IPCRequest[] = [];
+  /** Clicks, keypresses and typed text performed, in order */
+  readonly actions: Action[] = [];
+
+  permissions: PermissionStatus = { accessibility: true, screenRecording: true };
+  overlay: MockOverlayState = {
+    visible: false,
+    state: "idle",
+    magnifierVisible: false,
+  };
+
+  private stdout: ReadableStreamDefaultController<Uint8Array> | null = null;
+  private stderr: ReadableStreamDefaultController<Uint8Array> | null = null;
+  private resolveExit: ((code: number | null) => void) | null = null;
+  private inputBuffer = "";
+  private readonly encoder = new TextEncoder();
+  private readonly pendingWaits = new Map<string, () => void>();
+  private readonly actionListeners = new Set<ActionListener>();
+
+  constructor(screen: VirtualScreen = new VirtualScreen()) {
+    this.screen = screen;
+  }
+
+  /**
+   * Create a transport to pass to SwiftBridge.start()
+   */
+  transport(): HelperTransport {
+    const stdout = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        this.stdout = controller;
+      },
+    });
+    const stderr = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        this.stderr = controller;
+      },
+    });
+    const exited = new Promise<number | null>((resolve) => {
+      this.resolveExit = resolve;
+    });
+    this.inputBuffer = "";
+
+    return {
+      stdout,
+      stderr,
+      exited,
+      write: (data: string) => this.handleInput(data),
+      close: () => this.exit(null),
+    };
+  }
+
+  /**
+   * Register a callback for every performed click or keypress,
+   * e.g. to repaint the screen in response
+   */
+  onAction(listener: ActionListener): () => void {
+    this.actionListeners.add(listener);
+    return () => {
+      this.actionListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send an unsolicited event to the controller
+   */
+  emit(event: IPCEvent): void {
+    this.send(event);
+  }
+
+  /**
+   * Terminate the helper as if the process exited
+   */
+  exit(code: number | null = 0): void {
+    for (const cancel of this.pendingWaits.values()) {
+      cancel();
+    }
+    this.pendingWaits.clear();
+
+    try {
+      this.stdout?.close();
+      this.stderr?.close();
+    } catch {
+      // Already closed
+    }
+    this.stdout = null;
+    this.stderr = null;
+
+    this.resolveExit?.(code);
+    this.resolveExit = null;
+  }
+
+  /**
+   * Buffer stdin data and handle each complete line
+   */
+  private handleInput(data: string): void {
+    this.inputBuffer += data;
+
+    let newlineIndex: number;
+    while ((newlineIndex = this.inputBuffer.indexOf("\n")) !== -1) {
+      const line = this.inputBuffer.slice(0, newlineIndex);
+      this.inputBuffer = this.inputBuffer.slice(newlineIndex + 1);
+
+      if (!line.trim()) continue;
+
+      let request: IPCRequest;
+      try {
+        request = JSON.parse(line) as IPCRequest;
+      } catch (error) {
+        this.log(`Failed to parse request: ${error}`);
+        continue;
+      }
+      this.requests.push(request);
+      this.handleRequest(request);
+    }
+  }
+
+  /**
+   * Route a request the same way IPCHandler.swift does
+   */
+  private handleRequest(request: IPCRequest): void {
+    const { id } = request;
+
+    switch (request.method) {
+      case "checkPermissions":
+        this.respond(id, this.permissions);
+        return;
+
+      case "showRecorderOverlay":
+        this.overlay = {
+          ...this.overlay,
+          visible: true,
+          position: request.params.position ?? this.overlay.position,
+        };
+        this.respond(id);
+        return;
+
+      case "hideRecorderOverlay":
+        this.overlay = { ...this.overlay, visible: false, state: "idle", subState: undefined };
+        this.respond(id);
+        return;
+
+      case "setRecorderState":
+        this.overlay = {
+          ...this.overlay,
+          state: request.params.state,
+          subState: request.params.subState,
+        };
+        this.respond(id);
+        return;
+
+      case "showMagnifier":
+        this.overlay = { ...this.overlay, magnifierVisible: true };
+        this.respond(id);
+        return;
+
+      case "hideMagnifier":
+        this.overlay = { ...this.overlay, magnifierVisible: false };
+        this.respond(id);
+        return;
+
+      case "executeClick":
+        this.perform({ type: "click", ...request.params });
+        this.respond(id);
+        return;
+
+      case "executeKeypress":
+        this.perform({ type: "keypress", ...request.params });
+        this.respond(id);
+        return;
+
+      case "typeText":
+        this.perform({ type: "type-text", ...request.params });
+        this.respond(id);
+        return;
+
+      case "getPixelColor":
+        this.respond(id, { color: this.screen.getPixel(request.params.position) });
+        return;
+
+      case "checkPixelState": {
+        const { position, color, threshold } = request.params;
+        this.respond(id, { matched: this.screen.matchesPixel(position, color, threshold) });
+        return;
+      }
+
+      case "checkPixelZone": {
+        const { rect, color, threshold } = request.params;
+        this.respond(id, { matched: this.screen.matchesZone(rect, color, threshold) });
+        return;
+      }
+
+      case "sampleZone": {
+        const { rect, color } = request.params;
+        try {
+          this.respond(id, this.screen.sampleZone(rect, color));
+        } catch (error) {
+          this.fail(id, (error as Error).message);
+        }
+        return;
+      }
+
+      case "waitForPixelState": {
+        const { position, color, threshold, timeoutMs } = request.params;
+        this.poll(id, () => this.screen.matchesPixel(position, color, threshold), timeoutMs);
+        return;
+      }
+
+      case "waitForPixelZone": {
+        const { rect, color, threshold, timeoutMs } = request.params;
+        this.poll(id, () => this.screen.matchesZone(rect, color, threshold), timeoutMs);
+        return;
+      }
+
+      case "cancelRequest":
+        // Cancelled requests never get a response
+        this.pendingWaits.get(request.params.requestId)?.();
+        this.pendingWaits.delete(request.params.requestId);
+        this.respond(id);
+        return;
+
+      default:
+        this.fail(id, `Invalid request: unknown method ${(request as { method: string }).method}`);
+    }
+  }
+
+  /**
+   * Log an action and notify listeners
+   */
+  private perform(action: Action): void {
+    this.actions.push(action);
+    for (const listener of this.actionListeners) {
+      listener(action);
+    }
+  }
+
+  /**
+   * Poll a condition until it matches or times out (no timeout = wait indefinitely)
+   */
+  private poll(id: string, check: () => boolean, timeoutMs?: number): void {
+    const startTime = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const tick = () => {
+      if (check()) {
+        this.pendingWaits.delete(id);
+        this.respond(id, { matched: true });
+        return;
+      }
+      if (timeoutMs !== undefined && Date.now() - startTime >= timeoutMs) {
+        this.pendingWaits.delete(id);
+        this.respond(id, { matched: false });
+        return;
+      }
+      timer = setTimeout(tick, POLL_INTERVAL_MS);
+    };
+
+    this.pendingWaits.set(id, () => clearTimeout(timer));
+    tick();
+  }
+
+  private respond(id: string, result?: unknown): void {
+    this.send(result === undefined ? { id, success: true } : { id, success: true, result });
+  }
+
+  private fail(id: string, error: string): void {
+    this.send({ id, success: false, error });
+  }
+
+  private send(message: unknown): void {
+    this.stdout?.enqueue(this.encoder.encode(JSON.stringify(message) + "\n"));
+  }
+
+  private log(message: string): void {
+    this.stderr?.enqueue(this.encoder.encode(`[MockHelper] ${message}\n`));
+  }
+}
@@ -0,0 +1,5 @@
+// controller/src/mock/index.ts
+// Export mock helper for headless testing
+
+export { MockHelper, type MockOverlayState } from "./helper";
+export { VirtualScreen, colorDistance } from "./screen";
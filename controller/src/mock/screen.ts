@@ -0,0 +1,113 @@
+// controller/src/mock/screen.ts
+// Scriptable virtual screen backing the mock helper
+
+import type { Point, Rect, RGB, ZoneSampleResult } from "../types";
+import { colorDistance } from "../types";
+
+export { colorDistance };
+
+interface Layer {
+  rect: Rect;
+  color: RGB;
+}
+
+/**
+ * In-memory screen made of painted rectangles over a solid background.
+ * Later paints cover earlier ones, like drawing on a real screen.
+ */
+export class VirtualScreen {
+  private background: RGB;
+  private layers: Layer[] = [];
+
+  constructor(background: RGB = { r: 0, g: 0, b: 0 }) {
+    this.background = background;
+  }
+
+  /**
+   * Set a single pixel
+   */
+  setPixel(position: Point, color: RGB): void {
+    this.fillRect({ x: position.x, y: position.y, width: 1, height: 1 }, color);
+  }
+
+  /**
+   * Paint a rectangle with a solid color
+   */
+  fillRect(rect: Rect, color: RGB): void {
+    this.layers.push({ rect, color });
+  }
+
+  /**
+   * Wipe everything and paint the whole screen with one color
+   */
+  clear(background: RGB = this.background): void {
+    this.background = background;
+    this.layers = [];
+  }
+
+  /**
+   * Read the color of a pixel
+   */
+  getPixel(position: Point): RGB {
+    const x = Math.floor(position.x);
+    const y = Math.floor(position.y);
+
+    for (let i = this.layers.length - 1; i >= 0; i--) {
+      const { rect, color } = this.layers[i]!;
+      if (
+        x >= rect.x &&
+        x < rect.x + rect.width &&
+        y >= rect.y &&
+        y < rect.y + rect.height
+      ) {
+        return color;
+      }
+    }
+    return this.background;
+  }
+
+  /**
+   * Check whether a pixel is within threshold of a color
+   */
+  matchesPixel(position: Point, color: RGB, threshold: number): boolean {
+    return colorDistance(this.getPixel(position), color) <= threshold;
+  }
+
+  /**
+   * Check whether any pixel in a zone is within threshold of a color
+   */
+  matchesZone(rect: Rect, color: RGB, threshold: number): boolean {
+    const x0 = Math.floor(rect.x);
+    const y0 = Math.floor(rect.y);
+    for (let y = y0; y < y0 + rect.height; y++) {
+      for (let x = x0; x < x0 + rect.width; x++) {
+        if (this.matchesPixel({ x, y }, color, threshold)) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Find the pixel in a zone closest to a color (first one wins on ties)
+   */
+  sampleZone(rect: Rect, color: RGB): ZoneSampleResult {
+    const x0 = Math.floor(rect.x);
+    const y0 = Math.floor(rect.y);
+    let closest: ZoneSampleResult | null = null;
+    for (let y = y0; y < y0 + rect.height; y++) {
+      for (let x = x0; x < x0 + rect.width; x++) {
+        const pixel = this.getPixel({ x, y });
+        const distance = colorDistance(pixel, color);
+        if (!closest || distance < closest.distance) {
+          closest = { position: { x, y }, color: pixel, distance };
+        }
+      }
+    }
+    if (!closest) {
+      throw new Error("Cannot sample an empty zone");
+    }
+    return closest;
+  }
+}
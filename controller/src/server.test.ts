@@ -0,0 +1,158 @@
+// controller/src/server.test.ts
+// Tests for the local control server, run against the mock helper
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mockPersistence } from "./test/mockPersistence";
+import type { RunLock } from "./store/persistence";
+import type { Scenario } from "./types";
+
+const SCENARIOS: Scenario[] = [
+  {
+    id: "quick",
+    name: "Quick",
+    steps: [{ type: "click", position: { x: 1, y: 1 }, button: "left" }],
+    createdAt: 1,
+    lastUsedAt: 1,
+  },
+  {
+    id: "slow",
+    name: "Slow",
+    steps: [{ type: "delay", ms: 10_000 }],
+    createdAt: 1,
+    lastUsedAt: 1,
+  },
+];
+
+// Run lock of a pretend CLI run in another process
+let otherProcessLock: RunLock | null = null;
+// Lock another process takes between our check and our claim
+let racingLock: RunLock | null = null;
+
+// Serve fixed scenarios and keep run history in memory
+mockPersistence({
+  loadScenarios: async () => structuredClone(SCENARIOS),
+  readRunLock: async () => otherProcessLock,
+  claimRunLock: async () => racingLock ?? otherProcessLock,
+});
+
+import { startControlServer, type ControlServer } from "./server";
+import { swiftBridge } from "./ipc/bridge";
+import { MockHelper } from "./mock";
+import { scenariosStore } from "./store/scenarios";
+import { executeScenario, type ExecutionProgress } from "./execution/executor";
+import { activeRun } from "./execution/runLock";
+
+const TOKEN = "secret";
+
+let server: ControlServer;
+
+function call(path: string, init: RequestInit = {}, token = TOKEN): Promise<Response> {
+  return fetch(server.url + path, {
+    ...init,
+    headers: { authorization: `Bearer ${token}`, "content-type": "application/json" },
+  });
+}
+
+beforeEach(async () => {
+  await scenariosStore.load();
+  await swiftBridge.start(new MockHelper().transport());
+  server = startControlServer({ port: 0, token: TOKEN });
+});
+
+afterEach(() => {
+  server.stop();
+  swiftBridge.stop();
+});
+
+describe("control server", () => {
+  test("rejects requests without the token", async () => {
+    expect((await call("/scenarios", {}, "wrong")).status).toBe(401);
+    expect((await fetch(server.url + "/scenarios")).status).toBe(401);
+  });
+
+  test("lists and gets scenarios", async () => {
+    const list = (await (await call("/scenarios")).json()) as { id: string }[];
+    expect(list.map((s) => s.id).sort()).toEqual(["quick", "slow"]);
+
+    const scenario = (await (await call("/scenarios/quick")).json()) as Scenario;
+    expect(scenario.steps).toHaveLength(1);
+    expect((await call("/scenarios/nope")).status).toBe(404);
+  });
+
+  test("streams progress of a started run over the WebSocket", async () => {
+    const ws = new WebSocket(`${server.url.replace("http", "ws")}/events?token=${TOKEN}`);
+    await new Promise((resolve) => ws.addEventListener("open", resolve));
+
+    const statuses: ExecutionProgress["status"][] = [];
+    const finished = new Promise<void>((resolve) => {
+      ws.addEventListener("message", (event) => {
+        const { progress } = JSON.parse(String(event.data));
+        statuses.push(progress.status);
+        if (progress.status === "completed") resolve();
+      });
+    });
+
+    const response = await call("/runs", { method: "POST", body: JSON.stringify({ scenarioId: "quick" }) });
+    expect(response.status).toBe(202);
+
+    await finished;
+    ws.close();
+    expect(statuses).toContain("running");
+    expect(statuses.at(-1)).toBe("completed");
+  });
+
+  test("allows one run at a time and aborts it on request", async () => {
+    const start = await call("/runs", { method: "POST", body: JSON.stringify({ scenarioId: "slow" }) });
+    const { id } = (await start.json()) as { id: string };
+
+    const second = await call("/runs", { method: "POST", body: JSON.stringify({ scenarioId: "quick" }) });
+    expect(second.status).toBe(409);
+
+    expect((await call(`/runs/${id}`, { method: "DELETE" })).status).toBe(200);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(await (await call("/runs/current")).json()).toBeNull();
+  });
+
+  test("refuses to start while the TUI is running a scenario", async () => {
+    const abort = new AbortController();
+    const tuiRun = executeScenario(scenariosStore.getScenarioById("slow")!, abort.signal).catch(
+      () => {}
+    );
+
+    const response = await call("/runs", { method: "POST", body: JSON.stringify({ scenarioId: "quick" }) });
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({ error: '"Slow" is already running' });
+
+    abort.abort();
+    await tuiRun;
+    expect(await activeRun()).toBeNull();
+  });
+
+  test("refuses to start while another process is running a scenario", async () => {
+    otherProcessLock = { pid: 1, scenarioName: "Nightly", startedAt: 0 };
+    try {
+      const response = await call("/runs", { method: "POST", body: JSON.stringify({ scenarioId: "quick" }) });
+      expect(response.status).toBe(409);
+      expect(await response.json()).toEqual({
+        error: '"Nightly" is already running in another process (pid 1)',
+      });
+    } finally {
+      otherProcessLock = null;
+    }
+  });
+
+  test("refuses to start when another process claims the lock first", async () => {
+    racingLock = { pid: 2, scenarioName: "Nightly", startedAt: 0 };
+    try {
+      const response = await call("/runs", { method: "POST", body: JSON.stringify({ scenarioId: "quick" }) });
+      expect(response.status).toBe(409);
+      expect(await response.json()).toEqual({
+        error: '"Nightly" is already running in another process (pid 2)',
+      });
+      expect(await (await call("/runs/current")).json()).toBeNull();
+      expect(await activeRun()).toBeNull();
+    } finally {
+      racingLock = null;
+    }
+  });
+});
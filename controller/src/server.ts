@@ -0,0 +1,220 @@
+// controller/src/server.ts
+// Optional local HTTP/WebSocket server for starting and watching runs from other tools
+
+import { timingSafeEqual } from "crypto";
+import { nanoid } from "nanoid";
+import { executeScenario, type ExecutionProgress } from "./execution/executor";
+import { bindArguments } from "./execution/parameters";
+import { acquireRunLock, RunInProgressError } from "./execution/runLock";
+import { scenariosStore } from "./store/scenarios";
+import type { Scenario } from "./types";
+
+export interface ControlServerOptions {
+  port: number; // 0 picks a free port
+  token: string;
+}
+
+export interface ControlServer {
+  url: string; // e.g. http://127.0.0.1:8787
+  stop(): void;
+}
+
+export interface RunInfo {
+  id: string;
+  scenarioId: string;
+  progress: ExecutionProgress | null; // Latest update, null until the first one
+}
+
+// Pub/sub topic every WebSocket client is subscribed to
+const PROGRESS_TOPIC = "progress";
+
+function json(body: unknown, status = 200): Response {
+  return Response.json(body, { status });
+}
+
+function error(message: string, status: number): Response {
+  return json({ error: message }, status);
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((v) => typeof v === "string")
+  );
+}
+
+/**
+ * Accept the token as a bearer header, or as ?token= for WebSocket clients
+ * that can't set headers
+ */
+function isAuthorized(req: Request, url: URL, token: string): boolean {
+  const header = req.headers.get("authorization");
+  const given = header?.startsWith("Bearer ") ? header.slice(7) : url.searchParams.get("token");
+  if (!given) return false;
+
+  const a = Buffer.from(given);
+  const b = Buffer.from(token);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Start the control server on localhost. Only one run at a time is allowed,
+ * including runs started from the TUI or the CLI, since runs drive the real
+ * mouse and keyboard.
+ *
+ * Endpoints (all require the token):
+ *   GET    /scenarios       Scenario summaries
+ *   GET    /scenarios/:id   Full scenario
+ *   GET    /runs/current    The active run, or null
+ *   POST   /runs            Start a run: { "scenarioId": "...", "args"?: { name: value } }
+ *   DELETE /runs/:id        Abort a run
+ *   GET    /events          WebSocket stream of { runId, scenarioId, progress }
+ */
+export function startControlServer({ port, token }: ControlServerOptions): ControlServer {
+  if (!token) {
+    throw new Error("The control server needs a token (serverToken in settings.json)");
+  }
+
+  let current: (RunInfo & { abort: AbortController }) | null = null;
+
+  function runInfo(): RunInfo | null {
+    return current && { id: current.id, scenarioId: current.scenarioId, progress: current.progress };
+  }
+
+  function startRun(
+    scenario: Scenario,
+    args: Record<string, string>,
+    releaseLock: () => Promise<void>
+  ): RunInfo {
+    const scenarioId = scenario.id;
+    const run: RunInfo & { abort: AbortController } = {
+      id: nanoid(),
+      scenarioId,
+      progress: null,
+      abort: new AbortController(),
+    };
+    current = run;
+
+    executeScenario(
+      scenario,
+      run.abort.signal,
+      (progress) => {
+        run.progress = progress;
+        server.publish(PROGRESS_TOPIC, JSON.stringify({ runId: run.id, scenarioId, progress }));
+      },
+      { args, releaseLock }
+    )
+      .catch(() => {
+        // Reported through the final progress update
+      })
+      .finally(() => {
+        if (current === run) current = null;
+      });
+
+    return { id: run.id, scenarioId, progress: null };
+  }
+
+  const server = Bun.serve({
+    hostname: "127.0.0.1",
+    port,
+
+    async fetch(req, server) {
+      const url = new URL(req.url);
+      if (!isAuthorized(req, url, token)) {
+        return error("Unauthorized", 401);
+      }
+
+      const [resource, id, ...rest] = url.pathname.split("/").filter(Boolean);
+      if (rest.length > 0) return error("Not found", 404);
+
+      if (resource === "events" && !id) {
+        return server.upgrade(req) ? undefined : error("Expected a WebSocket upgrade", 400);
+      }
+
+      if (resource === "scenarios" && req.method === "GET") {
+        if (!id) {
+          return json(
+            scenariosStore.getSortedScenarios().map((s) => ({
+              id: s.id,
+              name: s.name,
+              steps: s.steps.length,
+              lastUsedAt: s.lastUsedAt,
+            }))
+          );
+        }
+        const scenario = scenariosStore.getScenarioById(id);
+        return scenario ? json(scenario) : error(`Scenario not found: ${id}`, 404);
+      }
+
+      if (resource === "runs") {
+        if (req.method === "GET" && id === "current") {
+          return json(runInfo());
+        }
+
+        if (req.method === "POST" && !id) {
+          const body = (await req.json().catch(() => null)) as {
+            scenarioId?: unknown;
+            args?: unknown;
+          } | null;
+          if (typeof body?.scenarioId !== "string") {
+            return error('Expected { "scenarioId": string }', 400);
+          }
+          const args = body.args ?? {};
+          if (!isStringRecord(args)) {
+            return error('Expected "args" to map parameter names to strings', 400);
+          }
+          const scenario = scenariosStore.getScenarioById(body.scenarioId);
+          if (!scenario) return error(`Scenario not found: ${body.scenarioId}`, 404);
+          // Report missing or unknown parameters before starting
+          try {
+            bindArguments(scenario, args, {});
+          } catch (e) {
+            return error(e instanceof Error ? e.message : String(e), 400);
+          }
+          // Taken before answering, so a run that can't start is reported here
+          let releaseLock: () => Promise<void>;
+          try {
+            releaseLock = await acquireRunLock(scenario.name);
+          } catch (e) {
+            if (e instanceof RunInProgressError) return error(e.message, 409);
+            throw e;
+          }
+          return json(startRun(scenario, args, releaseLock), 202);
+        }
+
+        if (req.method === "DELETE" && id) {
+          if (current?.id !== id) return error(`No active run ${id}`, 404);
+          current.abort.abort();
+          return json(runInfo());
+        }
+      }
+
+      return error("Not found", 404);
+    },
+
+    websocket: {
+      open(ws) {
+        ws.subscribe(PROGRESS_TOPIC);
+        // Catch up late subscribers on the active run
+        const run = runInfo();
+        if (run?.progress) {
+          const { id: runId, scenarioId, progress } = run;
+          ws.send(JSON.stringify({ runId, scenarioId, progress }));
+        }
+      },
+      message() {
+        // Clients only listen
+      },
+    },
+  });
+
+  return {
+    url: `http://127.0.0.1:${server.port}`,
+    stop(): void {
+      current?.abort.abort();
+      server.stop(true);
+    },
+  };
+}
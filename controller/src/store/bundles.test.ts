@@ -0,0 +1,111 @@
+// controller/src/store/bundles.test.ts
+// Tests for exporting and importing scenario bundles
+
+import { afterEach, describe, expect, test } from "bun:test";
+import { mockPersistence } from "../test/mockPersistence";
+
+mockPersistence();
+
+import { createBundle, importBundle } from "./bundles";
+import { historyStore } from "./history";
+import { scenariosStore } from "./scenarios";
+import type { Scenario, Step } from "../types";
+
+function add(id: string, name: string, steps: Step[] = []): Scenario {
+  const scenario: Scenario = { id, name, steps, createdAt: 1, lastUsedAt: 1 };
+  scenariosStore.restoreScenario(scenario);
+  return scenario;
+}
+
+function byName(name: string): Scenario | undefined {
+  return scenariosStore.getState().scenarios.find((s) => s.name === name);
+}
+
+afterEach(() => {
+  for (const scenario of scenariosStore.getState().scenarios) {
+    scenariosStore.deleteScenario(scenario.id);
+  }
+  historyStore.clear();
+});
+
+describe("createBundle", () => {
+  test("includes every transitively referenced scenario and nothing else", () => {
+    add("leaf", "Leaf");
+    add("fallback", "Fallback");
+    add("mid", "Mid", [{ type: "loop", count: 2, body: { type: "scenario-ref", scenarioId: "leaf" } }]);
+    add("root", "Root", [
+      { type: "scenario-ref", scenarioId: "mid" },
+      {
+        type: "pixel-state",
+        position: { x: 0, y: 0 },
+        color: { r: 0, g: 0, b: 0 },
+        threshold: 10,
+        onTimeout: { goto: "fallback" },
+      },
+      { type: "scenario-ref", scenarioId: "root" },
+    ]);
+    add("other", "Unrelated");
+
+    const bundle = createBundle("root");
+
+    expect(bundle.rootId).toBe("root");
+    expect(bundle.scenarios.map((s) => s.id).sort()).toEqual(["fallback", "leaf", "mid", "root"]);
+  });
+});
+
+describe("importBundle", () => {
+  test("gives every scenario a new id and keeps references between them", () => {
+    add("leaf", "Leaf");
+    add("root", "Root", [{ type: "scenario-ref", scenarioId: "leaf" }]);
+    const bundle = createBundle("root");
+
+    const result = importBundle(JSON.parse(JSON.stringify(bundle)));
+
+    const ids = result.imported.map((s) => s.id);
+    expect(ids).not.toContain("root");
+    expect(ids).not.toContain("leaf");
+    expect(result.root.name).toBe("Root (imported)");
+    expect(result.root.steps[0]).toEqual({
+      type: "scenario-ref",
+      scenarioId: byName("Leaf (imported)")!.id,
+    });
+    expect(scenariosStore.getState().selectedScenarioId).toBe(result.root.id);
+  });
+
+  test("undoes the whole import in one step", () => {
+    add("leaf", "Leaf");
+    add("root", "Root", [{ type: "scenario-ref", scenarioId: "leaf" }]);
+    const bundle = createBundle("root");
+
+    const result = importBundle(bundle);
+    expect(historyStore.getUndoDescription()).toBe('Undo import "Root (imported)" and 1 more');
+
+    historyStore.undo();
+    expect(scenariosStore.getState().scenarios.map((s) => s.id).sort()).toEqual(["leaf", "root"]);
+    historyStore.redo();
+    expect(scenariosStore.getScenarioById(result.root.id)?.steps).toEqual(result.root.steps);
+    expect(scenariosStore.getState().scenarios).toHaveLength(4);
+  });
+
+  test("suffixes names until they are free", () => {
+    add("a", "Login");
+    add("b", "Login (imported)");
+    const bundle = createBundle("a");
+
+    const result = importBundle(bundle);
+
+    expect(result.renamed).toEqual([{ from: "Login", to: "Login (imported 2)" }]);
+  });
+
+  test("rejects bundles with invalid scenarios, naming the bad field", () => {
+    const bundle = {
+      version: 1,
+      exportedAt: 0,
+      rootId: "x",
+      scenarios: [{ id: "x", name: "X", createdAt: 1, lastUsedAt: 1, steps: [{ type: "delay" }] }],
+    };
+
+    expect(() => importBundle(bundle)).toThrow("$.scenarios[0].steps[0].ms: is required");
+    expect(scenariosStore.getState().scenarios).toHaveLength(0);
+  });
+});
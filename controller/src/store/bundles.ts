@@ -0,0 +1,250 @@
+// controller/src/store/bundles.ts
+// Portable bundles of a scenario and everything it references, for sharing
+
+import { nanoid } from "nanoid";
+import { homedir } from "os";
+import {
+  formatValidationErrors,
+  validate,
+  type PixelCondition,
+  type Scenario,
+  type Step,
+  type StepBlock,
+  type ValidationError,
+} from "../types";
+import { historyStore } from "./history";
+import { scenariosStore } from "./scenarios";
+
+export const BUNDLE_VERSION = 1;
+
+export interface ScenarioBundle {
+  version: number;
+  exportedAt: number; // Unix timestamp ms
+  rootId: string; // The scenario that was exported; the rest are its references
+  scenarios: Scenario[];
+}
+
+export interface ImportResult {
+  root: Scenario;
+  imported: Scenario[];
+  renamed: { from: string; to: string }[]; // Names changed to avoid collisions
+}
+
+// ============ Reference walking ============
+
+function conditionTargets(condition: PixelCondition | undefined, into: string[]): void {
+  const policy = condition?.onTimeout;
+  if (typeof policy === "object") into.push(policy.goto);
+}
+
+function blockTargets(block: StepBlock, into: string[]): void {
+  if (Array.isArray(block)) {
+    for (const step of block) stepTargets(step, into);
+  } else {
+    into.push(block.scenarioId);
+  }
+}
+
+/**
+ * Ids of every scenario a step points at, including nested blocks
+ */
+function stepTargets(step: Step, into: string[]): void {
+  switch (step.type) {
+    case "scenario-ref":
+      into.push(step.scenarioId);
+      break;
+    case "pixel-state":
+    case "pixel-zone":
+      conditionTargets(step, into);
+      break;
+    case "loop":
+      blockTargets(step.body, into);
+      conditionTargets(step.until, into);
+      break;
+    case "if":
+      conditionTargets(step.condition, into);
+      blockTargets(step.then, into);
+      if (step.else !== undefined) blockTargets(step.else, into);
+      break;
+  }
+}
+
+// ============ Id remapping ============
+
+function remapCondition<T extends PixelCondition>(condition: T, ids: Map<string, string>): T {
+  const policy = condition.onTimeout;
+  if (typeof policy !== "object") return condition;
+  return { ...condition, onTimeout: { goto: ids.get(policy.goto) ?? policy.goto } };
+}
+
+function remapBlock(block: StepBlock, ids: Map<string, string>): StepBlock {
+  return Array.isArray(block)
+    ? block.map((step) => remapStep(step, ids))
+    : { ...block, scenarioId: ids.get(block.scenarioId) ?? block.scenarioId };
+}
+
+/**
+ * Point a step's references at new ids. Ids missing from the map are kept.
+ */
+function remapStep(step: Step, ids: Map<string, string>): Step {
+  switch (step.type) {
+    case "scenario-ref":
+      return { ...step, scenarioId: ids.get(step.scenarioId) ?? step.scenarioId };
+    case "pixel-state":
+    case "pixel-zone":
+      return remapCondition(step, ids);
+    case "loop":
+      return {
+        ...step,
+        body: remapBlock(step.body, ids),
+        until: step.until && remapCondition(step.until, ids),
+      };
+    case "if":
+      return {
+        ...step,
+        condition: remapCondition(step.condition, ids),
+        then: remapBlock(step.then, ids),
+        else: step.else && remapBlock(step.else, ids),
+      };
+    default:
+      return step;
+  }
+}
+
+// ============ Export ============
+
+/**
+ * Bundle a scenario with every scenario it transitively references.
+ * References to scenarios that no longer exist are left out.
+ */
+export function createBundle(scenarioId: string): ScenarioBundle {
+  const root = scenariosStore.getScenarioById(scenarioId);
+  if (!root) {
+    throw new Error(`Scenario not found: ${scenarioId}`);
+  }
+
+  const included = new Map<string, Scenario>();
+  const queue = [root];
+  while (queue.length > 0) {
+    const scenario = queue.shift()!;
+    if (included.has(scenario.id)) continue;
+    included.set(scenario.id, scenario);
+
+    const targets: string[] = [];
+    for (const step of scenario.steps) stepTargets(step, targets);
+    for (const id of targets) {
+      const target = scenariosStore.getScenarioById(id);
+      if (target && !included.has(id)) queue.push(target);
+    }
+  }
+
+  return {
+    version: BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    rootId: root.id,
+    scenarios: [...included.values()],
+  };
+}
+
+/**
+ * Expand a leading ~ to the home directory
+ */
+export function expandHome(filePath: string): string {
+  return filePath === "~" || filePath.startsWith("~/")
+    ? homedir() + filePath.slice(1)
+    : filePath;
+}
+
+/**
+ * Write a scenario's bundle to a file, returning what was written
+ */
+export async function exportBundle(scenarioId: string, filePath: string): Promise<ScenarioBundle> {
+  const bundle = createBundle(scenarioId);
+  await Bun.write(expandHome(filePath), JSON.stringify(bundle, null, 2));
+  return bundle;
+}
+
+// ============ Import ============
+
+/**
+ * Check that parsed JSON is a bundle this version can import
+ */
+function parseBundle(data: unknown): ScenarioBundle {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error("Invalid bundle: expected an object");
+  }
+  const { version, rootId, scenarios } = data as Partial<Record<keyof ScenarioBundle, unknown>>;
+  if (typeof version !== "number" || version > BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version: ${String(version)}`);
+  }
+  if (typeof rootId !== "string" || !Array.isArray(scenarios)) {
+    throw new Error("Invalid bundle: expected rootId and scenarios");
+  }
+
+  const errors: ValidationError[] = scenarios.flatMap((scenario, i) =>
+    validate("Scenario", scenario, `$.scenarios[${i}]`)
+  );
+  if (errors.length > 0) {
+    throw new Error(`Invalid bundle:\n${formatValidationErrors(errors)}`);
+  }
+  const bundle = data as ScenarioBundle;
+  if (!bundle.scenarios.some((s) => s.id === rootId)) {
+    throw new Error("Invalid bundle: exported scenario is missing");
+  }
+  return bundle;
+}
+
+/**
+ * First free name among "name", "name (imported)", "name (imported 2)", ...
+ */
+function uniqueName(name: string, taken: Set<string>): string {
+  if (!taken.has(name)) return name;
+  for (let n = 1; ; n++) {
+    const candidate = n === 1 ? `${name} (imported)` : `${name} (imported ${n})`;
+    if (!taken.has(candidate)) return candidate;
+  }
+}
+
+/**
+ * Merge a bundle into the library. Every scenario gets a fresh id (references
+ * between them follow), and names that clash with existing ones are suffixed.
+ */
+export function importBundle(data: unknown): ImportResult {
+  const bundle = parseBundle(data);
+
+  const ids = new Map(bundle.scenarios.map((s) => [s.id, nanoid()] as const));
+  const taken = new Set(scenariosStore.getState().scenarios.map((s) => s.name));
+  const renamed: ImportResult["renamed"] = [];
+  const now = Date.now();
+
+  const imported = bundle.scenarios.map((scenario): Scenario => {
+    const name = uniqueName(scenario.name, taken);
+    taken.add(name);
+    if (name !== scenario.name) renamed.push({ from: scenario.name, to: name });
+
+    return {
+      ...scenario,
+      id: ids.get(scenario.id)!,
+      name,
+      steps: scenario.steps.map((step) => remapStep(step, ids)),
+      createdAt: now,
+      lastUsedAt: now,
+    };
+  });
+
+  const root = imported.find((s) => s.id === ids.get(bundle.rootId))!;
+  // One undo removes the whole import
+  historyStore.importScenarios(imported, root.id);
+  return { root, imported, renamed };
+}
+
+/**
+ * Read a bundle file and merge it into the library
+ */
+export async function importBundleFile(filePath: string): Promise<ImportResult> {
+  const file = Bun.file(expandHome(filePath));
+  if (!(await file.exists())) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+  return importBundle(JSON.parse(await file.text()));
+}
@@ -0,0 +1,63 @@
+// controller/src/store/debounce.test.ts
+// Tests for coalescing store saves
+
+import { describe, expect, test } from "bun:test";
+import { createDebouncedSave, flushPendingSaves } from "./debounce";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("createDebouncedSave", () => {
+  test("writes once after a burst of mutations", async () => {
+    let writes = 0;
+    const saver = createDebouncedSave(async () => {
+      writes++;
+    }, 20);
+
+    saver.schedule();
+    saver.schedule();
+    saver.schedule();
+    expect(writes).toBe(0);
+
+    await sleep(40);
+    expect(writes).toBe(1);
+  });
+
+  test("does not postpone a write past the max wait", async () => {
+    let writes = 0;
+    const saver = createDebouncedSave(
+      async () => {
+        writes++;
+      },
+      20,
+      30
+    );
+
+    for (let i = 0; i < 6; i++) {
+      saver.schedule();
+      await sleep(10);
+    }
+
+    expect(writes).toBeGreaterThanOrEqual(1);
+    await saver.flush();
+  });
+
+  test("flushes scheduled writes immediately", async () => {
+    const written: string[] = [];
+    const a = createDebouncedSave(async () => {
+      written.push("a");
+    }, 10_000);
+    const b = createDebouncedSave(async () => {
+      written.push("b");
+    }, 10_000);
+
+    a.schedule();
+    b.schedule();
+    await flushPendingSaves();
+
+    expect(written.sort()).toEqual(["a", "b"]);
+
+    // Nothing left to write
+    await flushPendingSaves();
+    expect(written).toHaveLength(2);
+  });
+});
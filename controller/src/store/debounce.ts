@@ -0,0 +1,65 @@
+// controller/src/store/debounce.ts
+// Coalesces bursts of store mutations into a single write to disk
+
+// Wait this long after the last mutation before writing
+export const SAVE_DEBOUNCE_MS = 500;
+// Never hold back a write longer than this while mutations keep coming
+export const SAVE_MAX_WAIT_MS = 5000;
+
+export interface DebouncedSave {
+  schedule(): void; // Write after the burst of mutations settles
+  flush(): Promise<void>; // Write now if one is scheduled, and wait for writes in flight
+}
+
+// Every saver, so pending writes can be flushed before exit
+const savers = new Set<DebouncedSave>();
+
+export function createDebouncedSave(
+  save: () => Promise<void>,
+  delayMs = SAVE_DEBOUNCE_MS,
+  maxWaitMs = SAVE_MAX_WAIT_MS
+): DebouncedSave {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let firstScheduledAt = 0;
+  let inFlight: Promise<void> = Promise.resolve();
+
+  function run(): Promise<void> {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    // Chain writes so two saves of the same file never overlap
+    inFlight = inFlight.then(save).catch((error) => {
+      console.error("Failed to save:", error);
+    });
+    return inFlight;
+  }
+
+  const saver: DebouncedSave = {
+    schedule(): void {
+      const now = Date.now();
+      if (!timer) {
+        firstScheduledAt = now;
+      } else if (now - firstScheduledAt < maxWaitMs) {
+        clearTimeout(timer);
+      } else {
+        return; // Waited long enough; let the current timer fire
+      }
+      timer = setTimeout(run, delayMs);
+    },
+
+    flush(): Promise<void> {
+      return timer ? run() : inFlight;
+    },
+  };
+
+  savers.add(saver);
+  return saver;
+}
+
+/**
+ * Write everything that is still scheduled. Call before exiting.
+ */
+export async function flushPendingSaves(): Promise<void> {
+  await Promise.all([...savers].map((saver) => saver.flush()));
+}
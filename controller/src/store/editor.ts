@@ -0,0 +1,198 @@
+// controller/src/store/editor.ts
+// State machine for editing a step's fields in the Preview column
+
+import type { Step } from "../types";
+import { getStepFields, type StepField } from "../editor/fields";
+import { createsCycle } from "../execution/executor";
+import { historyStore } from "./history";
+import { scenariosStore } from "./scenarios";
+
+type Listener = () => void;
+
+export type EditorStatus = "idle" | "editing";
+
+export type EditorState =
+  | { status: "idle" }
+  | {
+      status: "editing";
+      scenarioId: string;
+      stepIndex: number;
+      fieldIndex: number;
+      input: string | null; // Text being typed into the selected field, if any
+      error: string | null;
+    };
+
+export interface EditorStore {
+  getState(): EditorState;
+  subscribe(listener: Listener): () => void;
+
+  /**
+   * Start editing a step (does nothing if the step has no editable fields)
+   */
+  open(scenarioId: string, stepIndex: number): void;
+  close(): void;
+
+  /**
+   * Move the field selection by delta, wrapping around
+   */
+  moveField(delta: number): void;
+
+  /**
+   * Start typing into the selected field, pre-filled with its current value
+   */
+  beginInput(): void;
+  appendInput(char: string): void;
+  backspaceInput(): void;
+  cancelInput(): void;
+
+  /**
+   * Validate the typed value and write it to the step (undoable).
+   * Returns false and keeps the input open if it is invalid.
+   */
+  commitInput(): boolean;
+
+  isEditing(): boolean;
+
+  /**
+   * The step being edited and its fields, or null if it no longer exists
+   */
+  getTarget(): { step: Step; fields: StepField[] } | null;
+}
+
+/**
+ * Checks that need the rest of the scenarios rather than just the step
+ */
+function validateReferences(scenarioId: string, step: Step): void {
+  if (step.type !== "scenario-ref") return;
+  if (!scenariosStore.getScenarioById(step.scenarioId)) {
+    throw new Error(`No scenario with ID "${step.scenarioId}"`);
+  }
+  if (createsCycle(scenarioId, step.scenarioId)) {
+    throw new Error("Scenario would run itself");
+  }
+}
+
+export function createEditorStore(): EditorStore {
+  let state: EditorState = { status: "idle" };
+
+  const listeners = new Set<Listener>();
+
+  function notify(): void {
+    for (const listener of listeners) {
+      listener();
+    }
+  }
+
+  function setState(newState: EditorState): void {
+    state = newState;
+    notify();
+  }
+
+  function getTarget(): { step: Step; fields: StepField[] } | null {
+    if (state.status !== "editing") return null;
+    const step = scenariosStore.getScenarioById(state.scenarioId)?.steps[state.stepIndex];
+    return step ? { step, fields: getStepFields(step) } : null;
+  }
+
+  return {
+    getState(): EditorState {
+      return state;
+    },
+
+    subscribe(listener: Listener): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    open(scenarioId: string, stepIndex: number): void {
+      const step = scenariosStore.getScenarioById(scenarioId)?.steps[stepIndex];
+      if (!step || getStepFields(step).length === 0) return;
+      setState({
+        status: "editing",
+        scenarioId,
+        stepIndex,
+        fieldIndex: 0,
+        input: null,
+        error: null,
+      });
+    },
+
+    close(): void {
+      setState({ status: "idle" });
+    },
+
+    moveField(delta: number): void {
+      const target = getTarget();
+      if (state.status !== "editing" || !target) return;
+      const count = target.fields.length;
+      setState({
+        ...state,
+        fieldIndex: (((state.fieldIndex + delta) % count) + count) % count,
+        error: null,
+      });
+    },
+
+    beginInput(): void {
+      const target = getTarget();
+      if (state.status !== "editing" || !target) return;
+      const field = target.fields[state.fieldIndex];
+      if (!field) return;
+      setState({ ...state, input: field.get(target.step), error: null });
+    },
+
+    appendInput(char: string): void {
+      if (state.status !== "editing" || state.input === null) return;
+      setState({ ...state, input: state.input + char });
+    },
+
+    backspaceInput(): void {
+      if (state.status !== "editing" || state.input === null) return;
+      setState({ ...state, input: state.input.slice(0, -1) });
+    },
+
+    cancelInput(): void {
+      if (state.status !== "editing") return;
+      setState({ ...state, input: null, error: null });
+    },
+
+    commitInput(): boolean {
+      const target = getTarget();
+      if (state.status !== "editing" || state.input === null) return false;
+      if (!target) {
+        // The step was removed (e.g. by undo) while editing
+        setState({ status: "idle" });
+        return false;
+      }
+
+      const field = target.fields[state.fieldIndex];
+      if (!field) return false;
+
+      let updated: Step;
+      try {
+        updated = field.set(target.step, state.input);
+        validateReferences(state.scenarioId, updated);
+      } catch (error) {
+        setState({ ...state, error: error instanceof Error ? error.message : String(error) });
+        return false;
+      }
+
+      const { scenarioId, stepIndex } = state;
+      setState({ ...state, input: null, error: null });
+      if (JSON.stringify(updated) !== JSON.stringify(target.step)) {
+        historyStore.updateStep(scenarioId, stepIndex, updated);
+      }
+      return true;
+    },
+
+    isEditing(): boolean {
+      return state.status === "editing";
+    },
+
+    getTarget,
+  };
+}
+
+// Singleton instance
+export const editorStore = createEditorStore();
@@ -0,0 +1,205 @@
+// controller/src/store/history.test.ts
+// Tests for undo/redo of scenario mutations
+
+import { afterEach, describe, expect, spyOn, test } from "bun:test";
+import { mockPersistence } from "../test/mockPersistence";
+
+mockPersistence();
+
+import { historyStore } from "./history";
+import { scenariosStore } from "./scenarios";
+import { trashStore } from "./trash";
+import type { Step } from "../types";
+
+const A: Step = { type: "keypress", key: "a", modifiers: [] };
+const B: Step = { type: "keypress", key: "b", modifiers: [] };
+const C: Step = { type: "keypress", key: "c", modifiers: [] };
+
+function keys(scenarioId: string): string[] {
+  const steps = scenariosStore.getScenarioById(scenarioId)?.steps ?? [];
+  return steps.map((s) => (s.type === "keypress" ? s.key : s.type));
+}
+
+afterEach(() => {
+  for (const scenario of scenariosStore.getState().scenarios) {
+    scenariosStore.deleteScenario(scenario.id);
+  }
+  historyStore.clear();
+  trashStore.empty();
+});
+
+describe("historyStore", () => {
+  test("undoes and redoes step edits in order", () => {
+    const { id } = historyStore.createScenario("Steps");
+    historyStore.addStep(id, A);
+    historyStore.addStep(id, B);
+    historyStore.addStep(id, C);
+    historyStore.swapSteps(id, 0, 2);
+    historyStore.updateStep(id, 1, { type: "delay", ms: 5 });
+    historyStore.deleteStep(id, 0);
+    expect(keys(id)).toEqual(["delay", "a"]);
+
+    historyStore.undo();
+    expect(keys(id)).toEqual(["c", "delay", "a"]);
+    historyStore.undo();
+    expect(keys(id)).toEqual(["c", "b", "a"]);
+    historyStore.undo();
+    expect(keys(id)).toEqual(["a", "b", "c"]);
+
+    historyStore.redo();
+    expect(keys(id)).toEqual(["c", "b", "a"]);
+    expect(historyStore.getRedoDescription()).toBe("Redo edit delay 5ms");
+  });
+
+  test("restores the selection of the undone edit", () => {
+    const { id } = historyStore.createScenario("Selection");
+    historyStore.addStep(id, A);
+    historyStore.addStep(id, B);
+    historyStore.addStep(id, C);
+    scenariosStore.selectStep(1);
+
+    historyStore.deleteStep(id, 1);
+    scenariosStore.selectStep(0);
+    historyStore.undo();
+
+    expect(scenariosStore.getState().selectedStepIndex).toBe(1);
+    historyStore.redo();
+    expect(scenariosStore.getState().selectedStepIndex).toBe(1);
+    expect(keys(id)).toEqual(["a", "c"]);
+  });
+
+  test("undoes scenario creation, rename and deletion", () => {
+    const scenario = historyStore.createScenario("Original");
+    historyStore.updateScenarioName(scenario.id, "Renamed");
+    historyStore.deleteScenario(scenario.id);
+    expect(scenariosStore.getScenarioById(scenario.id)).toBeNull();
+
+    historyStore.undo();
+    expect(scenariosStore.getScenarioById(scenario.id)?.name).toBe("Renamed");
+    expect(scenariosStore.getState().selectedScenarioId).toBe(scenario.id);
+    historyStore.undo();
+    expect(scenariosStore.getScenarioById(scenario.id)?.name).toBe("Original");
+    historyStore.undo();
+    expect(scenariosStore.getScenarioById(scenario.id)).toBeNull();
+
+    historyStore.redo();
+    historyStore.redo();
+    expect(scenariosStore.getScenarioById(scenario.id)?.name).toBe("Renamed");
+  });
+
+  test("groups a recording session into one entry", () => {
+    const { id } = historyStore.createScenario("Recorded");
+    historyStore.beginRecording(id);
+    scenariosStore.addStep(id, A);
+    scenariosStore.addStep(id, B);
+    historyStore.endRecording();
+
+    expect(historyStore.getUndoDescription()).toBe("Undo record 2 steps");
+    historyStore.undo();
+    expect(keys(id)).toEqual([]);
+    historyStore.redo();
+    expect(keys(id)).toEqual(["a", "b"]);
+  });
+
+  test("clears the redo stack on a new edit", () => {
+    const { id } = historyStore.createScenario("Redo");
+    historyStore.addStep(id, A);
+    historyStore.undo();
+    expect(historyStore.canRedo()).toBe(true);
+
+    historyStore.addStep(id, B);
+    expect(historyStore.canRedo()).toBe(false);
+    expect(historyStore.redo()).toBe("Nothing to redo");
+  });
+
+  test("ignores no-op edits", () => {
+    const { id } = historyStore.createScenario("No-op");
+    historyStore.swapSteps(id, 0, 1);
+    historyStore.deleteStep(id, 3);
+
+    expect(historyStore.getState().undoStack).toHaveLength(1);
+  });
+
+  test("keeps lastUsedAt set by a run when undoing", () => {
+    const { id } = historyStore.createScenario("Run");
+    historyStore.addStep(id, A);
+    scenariosStore.touchScenario(id);
+    const lastUsedAt = scenariosStore.getScenarioById(id)!.lastUsedAt;
+
+    expect(historyStore.undo()).toBeNull();
+    expect(keys(id)).toEqual([]);
+    expect(scenariosStore.getScenarioById(id)!.lastUsedAt).toBe(lastUsedAt);
+  });
+
+  test("refuses to undo over changes made outside history", () => {
+    const { id } = historyStore.createScenario("Unrecorded");
+    historyStore.addStep(id, A);
+    scenariosStore.addStep(id, B);
+
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(historyStore.undo()).toBe(
+      'Cannot undo add keypress a: "Unrecorded" was changed outside of history'
+    );
+    expect(keys(id)).toEqual(["a", "b"]);
+    // The refused entry is kept, and the reason is returned rather than logged
+    expect(historyStore.getUndoDescription()).toBe("Undo add keypress a");
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  test("discards a just-created scenario without history", () => {
+    const { id } = historyStore.createScenario("Cancelled");
+    historyStore.discardNewScenario(id);
+
+    expect(scenariosStore.getScenarioById(id)).toBeNull();
+    expect(historyStore.canUndo()).toBe(false);
+  });
+});
+
+describe("deleting and duplicating scenarios", () => {
+  test("moves deleted scenarios to the trash and back on undo", () => {
+    const { id } = historyStore.createScenario("Doomed");
+    historyStore.deleteScenario(id);
+    expect(trashStore.getById(id)?.scenario.name).toBe("Doomed");
+
+    historyStore.undo();
+    expect(scenariosStore.getScenarioById(id)).not.toBeNull();
+    expect(trashStore.getById(id)).toBeNull();
+
+    historyStore.redo();
+    expect(trashStore.getById(id)).not.toBeNull();
+  });
+
+  test("restores a trashed scenario so references resolve again", () => {
+    const target = historyStore.createScenario("Target");
+    const caller = historyStore.createScenario("Caller");
+    historyStore.addStep(caller.id, { type: "scenario-ref", scenarioId: target.id });
+    expect(scenariosStore.getReferencingScenarios(target.id)).toHaveLength(1);
+
+    historyStore.deleteScenario(target.id);
+    expect(historyStore.restoreFromTrash(target.id)?.name).toBe("Target");
+    expect(scenariosStore.getScenarioById(target.id)).not.toBeNull();
+    expect(trashStore.getItems()).toHaveLength(0);
+
+    // Undoing the restore puts it back in the trash
+    historyStore.undo();
+    expect(scenariosStore.getScenarioById(target.id)).toBeNull();
+    expect(trashStore.getById(target.id)).not.toBeNull();
+  });
+
+  test("duplicates a scenario as an independent deep copy", () => {
+    const { id } = historyStore.createScenario("Original");
+    historyStore.addStep(id, { type: "loop", body: [A], count: 2 });
+    const copy = historyStore.duplicateScenario(id);
+
+    expect(copy?.id).not.toBe(id);
+    expect(copy?.name).toBe("Original (copy)");
+    expect(scenariosStore.getState().selectedScenarioId).toBe(copy!.id);
+    expect(copy?.steps).toEqual(scenariosStore.getScenarioById(id)!.steps);
+    expect(copy?.steps[0]).not.toBe(scenariosStore.getScenarioById(id)!.steps[0]);
+
+    historyStore.undo();
+    expect(scenariosStore.getScenarioById(copy!.id)).toBeNull();
+  });
+});
@@ -1,21 +1,58 @@
 // controller/src/store/history.ts
-// History store for undo functionality
+// History store with undo/redo for every scenario mutation
 
-import type { Step } from "../types";
+import { isDeepStrictEqual } from "util";
+import type { Scenario, ScenarioParameter, Step } from "../types";
 import { scenariosStore } from "./scenarios";
+import { trashStore } from "./trash";
 
 const MAX_UNDO_STACK_SIZE = 50;
 
-export interface HistoryEntry {
-  type: "delete-step";
+export type HistoryEntryType =
+  | "add-step"
+  | "update-step"
+  | "delete-step"
+  | "swap-steps"
+  | "toggle-breakpoint"
+  | "create-scenario"
+  | "duplicate-scenario"
+  | "delete-scenario"
+  | "restore-scenario"
+  | "rename-scenario"
+  | "update-parameters"
+  | "import-scenarios"
+  | "recording";
+
+export interface HistorySelection {
+  scenarioId: string | null;
+  stepIndex: number | null;
+}
+
+/**
+ * Before/after snapshots of one scenario.
+ * A null snapshot means the scenario did not exist at that point.
+ */
+export interface ScenarioChange {
   scenarioId: string;
-  stepIndex: number;
-  step: Step;
+  before: Scenario | null;
+  after: Scenario | null;
+}
+
+/**
+ * A recorded mutation, usually of one scenario (imports add several at once)
+ */
+export interface HistoryEntry {
+  type: HistoryEntryType;
+  description: string;
+  changes: ScenarioChange[];
+  selectionBefore: HistorySelection;
+  selectionAfter: HistorySelection;
   timestamp: number;
 }
 
 export interface HistoryState {
   undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
 }
 
 type Listener = () => void;
@@ -24,38 +61,156 @@ export interface HistoryStore {
   getState(): HistoryState;
   subscribe(listener: Listener): () => void;
 
+  // Undoable step operations (same arguments as scenariosStore)
+  addStep(scenarioId: string, step: Step, afterIndex?: number): void;
+  updateStep(scenarioId: string, stepIndex: number, step: Step): void;
+  deleteStep(scenarioId: string, stepIndex: number): void;
+  swapSteps(scenarioId: string, indexA: number, indexB: number): void;
+  toggleBreakpoint(scenarioId: string, stepIndex: number): void;
+
+  // Undoable scenario operations
+  createScenario(name: string): Scenario;
+  duplicateScenario(id: string): Scenario | null;
+  deleteScenario(id: string): Scenario | null; // Moves it to the trash
+  restoreFromTrash(id: string): Scenario | null;
+  updateScenarioName(id: string, name: string): void;
+  updateScenarioParameters(id: string, parameters: ScenarioParameter[]): void;
+  importScenarios(scenarios: Scenario[], rootId: string): void; // Adds them and selects rootId
+
   /**
-   * Delete a step from a scenario and add to undo history
+   * Remove a scenario created moments ago without leaving history behind
+   * (e.g. when naming a new scenario is cancelled). Does nothing if the
+   * last entry isn't its creation, so cancelling a rename keeps the scenario.
    */
-  deleteStep(scenarioId: string, stepIndex: number): void;
+  discardNewScenario(id: string): void;
+
+  /**
+   * Start grouping all edits to a scenario into one "recording" entry
+   */
+  beginRecording(scenarioId: string): void;
+
+  /**
+   * Finish the recording session started with beginRecording
+   */
+  endRecording(): void;
 
   /**
    * Undo the last operation
-   * Returns true if undo was successful
+   * Returns why nothing was undone, or null if undo was successful
    */
-  undo(): boolean;
+  undo(): string | null;
 
   /**
-   * Check if undo is available
+   * Redo the last undone operation
+   * Returns why nothing was redone, or null if redo was successful
    */
+  redo(): string | null;
+
   canUndo(): boolean;
+  canRedo(): boolean;
 
   /**
-   * Get the description of what will be undone
+   * Get the description of what will be undone / redone
    */
   getUndoDescription(): string | null;
+  getRedoDescription(): string | null;
 
   /**
-   * Clear the undo history
+   * Clear the undo and redo history
    */
   clear(): void;
 }
 
+/**
+ * Short description of a step for history messages
+ */
+function getStepDescription(step: Step): string {
+  switch (step.type) {
+    case "click":
+      return `${step.button} click at (${step.position.x}, ${step.position.y})`;
+    case "keypress": {
+      const mods = step.modifiers.length > 0 ? step.modifiers.join("+") + "+" : "";
+      return `keypress ${mods}${step.key}`;
+    }
+    case "type-text":
+      return `type ${JSON.stringify(step.text)}`;
+    case "delay":
+      return `delay ${step.ms}ms`;
+    case "pixel-state":
+      return `pixel-state at (${step.position.x}, ${step.position.y})`;
+    case "pixel-zone":
+      return `pixel-zone at (${step.rect.x}, ${step.rect.y})`;
+    case "scenario-ref":
+      return `scenario reference`;
+    case "loop":
+      return `loop`;
+    case "if":
+      return `conditional`;
+    default:
+      return "unknown step";
+  }
+}
+
+function getSelection(): HistorySelection {
+  const { selectedScenarioId, selectedStepIndex } = scenariosStore.getState();
+  return { scenarioId: selectedScenarioId, stepIndex: selectedStepIndex };
+}
+
+function restoreSelection(selection: HistorySelection): void {
+  scenariosStore.selectScenario(selection.scenarioId);
+  scenariosStore.selectStep(selection.stepIndex);
+}
+
+/**
+ * A scenario without the fields that change outside of history (running a
+ * scenario updates lastUsedAt), for comparing it against a snapshot
+ */
+function trackedFields(scenario: Scenario): Omit<Scenario, "lastUsedAt"> {
+  const { lastUsedAt: _, ...tracked } = scenario;
+  return tracked;
+}
+
+/**
+ * Put a scenario back to a snapshot (null removes it), keeping its lastUsedAt
+ */
+function restoreSnapshot(scenarioId: string, snapshot: Scenario | null): void {
+  const current = scenariosStore.getScenarioById(scenarioId);
+  if (snapshot) {
+    scenariosStore.restoreScenario(
+      current ? { ...snapshot, lastUsedAt: current.lastUsedAt } : snapshot
+    );
+  } else {
+    scenariosStore.deleteScenario(scenarioId);
+  }
+}
+
+/**
+ * Keep the trash in step when undo/redo deletes or brings back a trashed scenario
+ */
+function syncTrash(entry: HistoryEntry, change: ScenarioChange, snapshot: Scenario | null): void {
+  if (entry.type !== "delete-scenario" && entry.type !== "restore-scenario") return;
+
+  if (snapshot) {
+    trashStore.remove(change.scenarioId);
+  } else {
+    const trashed = change.before ?? change.after;
+    if (trashed) trashStore.add(trashed);
+  }
+}
+
 export function createHistoryStore(): HistoryStore {
   let state: HistoryState = {
     undoStack: [],
+    redoStack: [],
   };
 
+  // Open recording session, if any
+  let recording: {
+    scenarioId: string;
+    before: Scenario | null;
+    selectionBefore: HistorySelection;
+  } | null = null;
+
   const listeners = new Set<Listener>();
 
   function notify(): void {
@@ -69,43 +224,73 @@ export function createHistoryStore(): HistoryStore {
     notify();
   }
 
-  function pushToStack(entry: HistoryEntry): void {
-    const newStack = [...state.undoStack, entry];
-
+  function trim(stack: HistoryEntry[]): HistoryEntry[] {
     // Trim stack if it exceeds max size
-    if (newStack.length > MAX_UNDO_STACK_SIZE) {
-      newStack.shift();
-    }
+    return stack.length > MAX_UNDO_STACK_SIZE ? stack.slice(-MAX_UNDO_STACK_SIZE) : stack;
+  }
 
-    setState({ undoStack: newStack });
+  function pushToStack(entry: HistoryEntry): void {
+    // A new edit invalidates everything that was undone
+    setState({ undoStack: trim([...state.undoStack, entry]), redoStack: [] });
   }
 
-  function popFromStack(): HistoryEntry | null {
-    if (state.undoStack.length === 0) return null;
+  /**
+   * Run a mutation and record it if it changed the scenario
+   */
+  function record(
+    type: HistoryEntryType,
+    scenarioId: string,
+    description: string,
+    mutate: () => void
+  ): void {
+    const before = scenariosStore.getScenarioById(scenarioId);
+    const selectionBefore = getSelection();
+
+    mutate();
+
+    const after = scenariosStore.getScenarioById(scenarioId);
+    // Store updates replace scenario objects, so identity means nothing changed
+    if (before === after) return;
+
+    pushToStack({
+      type,
+      description,
+      changes: [{ scenarioId, before, after }],
+      selectionBefore,
+      selectionAfter: getSelection(),
+      timestamp: Date.now(),
+    });
+  }
 
-    const entry = state.undoStack[state.undoStack.length - 1];
-    if (!entry) return null;
-    setState({ undoStack: state.undoStack.slice(0, -1) });
-    return entry;
+  /**
+   * Check that every scenario an entry touches is in the state it expects, so
+   * applying it can't revert changes that were never recorded.
+   * Returns why it can't be applied, or null if it can.
+   */
+  function canApply(entry: HistoryEntry, side: "before" | "after"): string | null {
+    for (const change of entry.changes) {
+      const expected = change[side];
+      const current = scenariosStore.getScenarioById(change.scenarioId);
+      const name = (current ?? expected)?.name ?? change.scenarioId;
+      if ((current === null) !== (expected === null)) {
+        return `"${name}" ${current ? "already exists" : "no longer exists"}`;
+      }
+      const changed =
+        current && expected && !isDeepStrictEqual(trackedFields(current), trackedFields(expected));
+      if (changed) {
+        return `"${name}" was changed outside of history`;
+      }
+    }
+    return null;
   }
 
-  function getStepDescription(step: Step): string {
-    switch (step.type) {
-      case "click":
-        return `${step.button} click at (${step.position.x}, ${step.position.y})`;
-      case "keypress":
-        const mods = step.modifiers.length > 0 ? step.modifiers.join("+") + "+" : "";
-        return `keypress ${mods}${step.key}`;
-      case "delay":
-        return `delay ${step.ms}ms`;
-      case "pixel-state":
-        return `pixel-state at (${step.position.x}, ${step.position.y})`;
-      case "pixel-zone":
-        return `pixel-zone at (${step.rect.x}, ${step.rect.y})`;
-      case "scenario-ref":
-        return `scenario reference`;
-      default:
-        return "unknown step";
+  /**
+   * Put every scenario an entry touches back to one side of it
+   */
+  function apply(entry: HistoryEntry, side: "before" | "after"): void {
+    for (const change of entry.changes) {
+      restoreSnapshot(change.scenarioId, change[side]);
+      syncTrash(entry, change, change[side]);
     }
   }
 
@@ -121,102 +306,220 @@ export function createHistoryStore(): HistoryStore {
       };
     },
 
-    deleteStep(scenarioId: string, stepIndex: number): void {
-      // Get the step before deleting
-      const scenario = scenariosStore.getScenarioById(scenarioId);
-      if (!scenario) return;
-      if (stepIndex < 0 || stepIndex >= scenario.steps.length) return;
+    addStep(scenarioId: string, step: Step, afterIndex?: number): void {
+      record("add-step", scenarioId, `add ${getStepDescription(step)}`, () =>
+        scenariosStore.addStep(scenarioId, step, afterIndex)
+      );
+    },
 
-      const step = scenario.steps[stepIndex];
+    updateStep(scenarioId: string, stepIndex: number, step: Step): void {
+      record("update-step", scenarioId, `edit ${getStepDescription(step)}`, () =>
+        scenariosStore.updateStep(scenarioId, stepIndex, step)
+      );
+    },
+
+    deleteStep(scenarioId: string, stepIndex: number): void {
+      const step = scenariosStore.getScenarioById(scenarioId)?.steps[stepIndex];
       if (!step) return;
 
-      // Remove from scenarios store
-      const removed = scenariosStore.removeStep(scenarioId, stepIndex);
-      if (!removed) return;
+      record("delete-step", scenarioId, `delete ${getStepDescription(step)}`, () =>
+        scenariosStore.removeStep(scenarioId, stepIndex)
+      );
+    },
+
+    swapSteps(scenarioId: string, indexA: number, indexB: number): void {
+      record("swap-steps", scenarioId, "reorder steps", () =>
+        scenariosStore.swapSteps(scenarioId, indexA, indexB)
+      );
+    },
+
+    toggleBreakpoint(scenarioId: string, stepIndex: number): void {
+      record("toggle-breakpoint", scenarioId, "toggle breakpoint", () =>
+        scenariosStore.toggleBreakpoint(scenarioId, stepIndex)
+      );
+    },
+
+    createScenario(name: string): Scenario {
+      const selectionBefore = getSelection();
+      const created = scenariosStore.createScenario(name);
 
-      // Add to undo history
       pushToStack({
-        type: "delete-step",
-        scenarioId,
-        stepIndex,
-        step,
+        type: "create-scenario",
+        description: `create "${created.name}"`,
+        changes: [{ scenarioId: created.id, before: null, after: created }],
+        selectionBefore,
+        selectionAfter: getSelection(),
+        timestamp: Date.now(),
+      });
+      return created;
+    },
+
+    duplicateScenario(id: string): Scenario | null {
+      const selectionBefore = getSelection();
+      const copy = scenariosStore.duplicateScenario(id);
+      if (!copy) return null;
+
+      pushToStack({
+        type: "duplicate-scenario",
+        description: `duplicate as "${copy.name}"`,
+        changes: [{ scenarioId: copy.id, before: null, after: copy }],
+        selectionBefore,
+        selectionAfter: getSelection(),
         timestamp: Date.now(),
       });
+      return copy;
+    },
+
+    deleteScenario(id: string): Scenario | null {
+      let deleted: Scenario | null = null;
+      const name = scenariosStore.getScenarioById(id)?.name;
+      record("delete-scenario", id, `delete "${name}"`, () => {
+        deleted = scenariosStore.deleteScenario(id);
+      });
+      if (deleted) trashStore.add(deleted);
+      return deleted;
+    },
+
+    restoreFromTrash(id: string): Scenario | null {
+      // Refuse to clobber a scenario that already exists under this id
+      if (scenariosStore.getScenarioById(id)) return null;
+      const restored = trashStore.remove(id);
+      if (!restored) return null;
+
+      record("restore-scenario", id, `restore "${restored.name}"`, () => {
+        scenariosStore.restoreScenario(restored);
+        scenariosStore.selectScenario(id);
+      });
+      return restored;
+    },
+
+    updateScenarioName(id: string, name: string): void {
+      record("rename-scenario", id, `rename to "${name}"`, () =>
+        scenariosStore.updateScenarioName(id, name)
+      );
     },
 
-    undo(): boolean {
-      const entry = popFromStack();
-      if (!entry) return false;
-
-      switch (entry.type) {
-        case "delete-step": {
-          // Check if scenario still exists
-          const scenario = scenariosStore.getScenarioById(entry.scenarioId);
-          if (!scenario) {
-            // Scenario was deleted, can't undo
-            console.warn(
-              `Cannot undo: scenario ${entry.scenarioId} no longer exists`
-            );
-            return false;
-          }
-
-          // Reinsert step at original position (or at end if position is invalid)
-          const insertIndex = Math.min(entry.stepIndex, scenario.steps.length);
-
-          // Use addStep with afterIndex - 1 to insert at the correct position
-          if (insertIndex === 0) {
-            // Insert at beginning - need to use a workaround
-            // Add at position 0 by temporarily manipulating
-            const scenarioIndex = scenariosStore
-              .getState()
-              .scenarios.findIndex((s) => s.id === entry.scenarioId);
-            if (scenarioIndex === -1) return false;
-
-            const scenarios = [...scenariosStore.getState().scenarios];
-            const targetScenario = scenarios[scenarioIndex];
-            if (!targetScenario) return false;
-            const updatedScenario = { ...targetScenario };
-            updatedScenario.steps = [entry.step, ...updatedScenario.steps];
-            scenarios[scenarioIndex] = updatedScenario;
-
-            // Manually trigger re-save through scenarios store
-            scenariosStore.addStep(entry.scenarioId, entry.step, -1);
-            // The addStep with -1 will insert at position 0
-          } else {
-            scenariosStore.addStep(entry.scenarioId, entry.step, insertIndex - 1);
-          }
-
-          // Select the restored step
-          scenariosStore.selectScenario(entry.scenarioId);
-          scenariosStore.selectStep(insertIndex);
-
-          return true;
-        }
-        default:
-          return false;
+    updateScenarioParameters(id: string, parameters: ScenarioParameter[]): void {
+      const names = parameters.map((p) => p.name).join(", ");
+      record("update-parameters", id, names ? `set parameters ${names}` : "clear parameters", () =>
+        scenariosStore.updateScenarioParameters(id, parameters)
+      );
+    },
+
+    importScenarios(scenarios: Scenario[], rootId: string): void {
+      const selectionBefore = getSelection();
+      for (const scenario of scenarios) {
+        scenariosStore.restoreScenario(scenario);
       }
+      scenariosStore.selectScenario(rootId);
+
+      const root = scenarios.find((s) => s.id === rootId);
+      const others = scenarios.length - 1;
+      pushToStack({
+        type: "import-scenarios",
+        description: `import "${root?.name}"${others > 0 ? ` and ${others} more` : ""}`,
+        changes: scenarios.map((scenario) => ({
+          scenarioId: scenario.id,
+          before: null,
+          after: scenariosStore.getScenarioById(scenario.id),
+        })),
+        selectionBefore,
+        selectionAfter: getSelection(),
+        timestamp: Date.now(),
+      });
+    },
+
+    discardNewScenario(id: string): void {
+      const top = state.undoStack[state.undoStack.length - 1];
+      if (top?.type !== "create-scenario" || top.changes[0]?.scenarioId !== id) return;
+
+      setState({ undoStack: state.undoStack.slice(0, -1) });
+      scenariosStore.deleteScenario(id);
+    },
+
+    beginRecording(scenarioId: string): void {
+      recording = {
+        scenarioId,
+        before: scenariosStore.getScenarioById(scenarioId),
+        selectionBefore: getSelection(),
+      };
+    },
+
+    endRecording(): void {
+      if (!recording) return;
+      const { scenarioId, before, selectionBefore } = recording;
+      recording = null;
+
+      const after = scenariosStore.getScenarioById(scenarioId);
+      if (before === after) return;
+
+      const added = (after?.steps.length ?? 0) - (before?.steps.length ?? 0);
+      pushToStack({
+        type: "recording",
+        description: `record ${added} step${added === 1 ? "" : "s"}`,
+        changes: [{ scenarioId, before, after }],
+        selectionBefore,
+        selectionAfter: getSelection(),
+        timestamp: Date.now(),
+      });
+    },
+
+    undo(): string | null {
+      const entry = state.undoStack[state.undoStack.length - 1];
+      if (!entry) return "Nothing to undo";
+
+      // A refused entry stays on the stack
+      const reason = canApply(entry, "after");
+      if (reason) return `Cannot undo ${entry.description}: ${reason}`;
+
+      apply(entry, "before");
+      restoreSelection(entry.selectionBefore);
+
+      setState({
+        undoStack: state.undoStack.slice(0, -1),
+        redoStack: trim([...state.redoStack, entry]),
+      });
+      return null;
+    },
+
+    redo(): string | null {
+      const entry = state.redoStack[state.redoStack.length - 1];
+      if (!entry) return "Nothing to redo";
+
+      const reason = canApply(entry, "before");
+      if (reason) return `Cannot redo ${entry.description}: ${reason}`;
+
+      apply(entry, "after");
+      restoreSelection(entry.selectionAfter);
+
+      setState({
+        undoStack: trim([...state.undoStack, entry]),
+        redoStack: state.redoStack.slice(0, -1),
+      });
+      return null;
     },
 
     canUndo(): boolean {
       return state.undoStack.length > 0;
     },
 
-    getUndoDescription(): string | null {
-      if (state.undoStack.length === 0) return null;
+    canRedo(): boolean {
+      return state.redoStack.length > 0;
+    },
 
+    getUndoDescription(): string | null {
       const entry = state.undoStack[state.undoStack.length - 1];
-      if (!entry) return null;
+      return entry ? `Undo ${entry.description}` : null;
+    },
 
-      switch (entry.type) {
-        case "delete-step":
-          return `Restore deleted ${getStepDescription(entry.step)}`;
-        default:
-          return "Undo last action";
-      }
+    getRedoDescription(): string | null {
+      const entry = state.redoStack[state.redoStack.length - 1];
+      return entry ? `Redo ${entry.description}` : null;
     },
 
     clear(): void {
-      setState({ undoStack: [] });
+      recording = null;
+      setState({ undoStack: [], redoStack: [] });
     },
   };
 }
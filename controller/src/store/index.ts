@@ -12,8 +12,11 @@ export {
   historyStore,
   createHistoryStore,
   type HistoryEntry,
+  type HistoryEntryType,
+  type HistorySelection,
   type HistoryState,
   type HistoryStore,
+  type ScenarioChange,
 } from "./history";
 
 export {
@@ -24,6 +27,14 @@ export {
   type RecorderStore,
 } from "./recorder";
 
+export {
+  editorStore,
+  createEditorStore,
+  type EditorState,
+  type EditorStatus,
+  type EditorStore,
+} from "./editor";
+
 export {
   settingsStore,
   createSettingsStore,
@@ -32,10 +43,60 @@ export {
   DEFAULT_SETTINGS,
 } from "./settings";
 
+export {
+  runsStore,
+  createRunsStore,
+  MAX_RUNS_PER_SCENARIO,
+  type RunOutcome,
+  type RunRecord,
+  type RunsState,
+  type RunsStore,
+  type StepTiming,
+} from "./runs";
+
+export {
+  trashStore,
+  createTrashStore,
+  MAX_TRASH_SIZE,
+  type TrashedScenario,
+  type TrashState,
+  type TrashStore,
+} from "./trash";
+
 export {
   loadScenarios,
   saveScenarios,
   loadSettings,
   saveSettings,
+  loadRuns,
+  saveRuns,
+  loadTrash,
+  saveTrash,
   getConfigDir,
 } from "./persistence";
+
+export {
+  migrateScenariosFile,
+  SCENARIOS_FILE_VERSION,
+  type MigrationResult,
+  type ScenariosFile,
+} from "./migrations";
+
+export {
+  createDebouncedSave,
+  flushPendingSaves,
+  SAVE_DEBOUNCE_MS,
+  SAVE_MAX_WAIT_MS,
+  type DebouncedSave,
+} from "./debounce";
+
+export {
+  createBundle,
+  exportBundle,
+  importBundle,
+  importBundleFile,
+  expandHome,
+  BUNDLE_VERSION,
+  type ImportResult,
+  type ScenarioBundle,
+} from "./bundles";
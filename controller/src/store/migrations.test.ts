@@ -0,0 +1,42 @@
+// controller/src/store/migrations.test.ts
+// Tests for upgrading stored scenarios files
+
+import { describe, expect, test } from "bun:test";
+import { migrateScenariosFile, SCENARIOS_FILE_VERSION } from "./migrations";
+import type { Scenario } from "../types";
+
+const SCENARIO: Scenario = {
+  id: "s1",
+  name: "Login",
+  steps: [{ type: "delay", ms: 100 }],
+  createdAt: 1,
+  lastUsedAt: 2,
+};
+
+describe("migrateScenariosFile", () => {
+  test("wraps a legacy bare array in the current envelope", () => {
+    const { file, fromVersion } = migrateScenariosFile([SCENARIO]);
+
+    expect(fromVersion).toBe(0);
+    expect(file).toEqual({ version: SCENARIOS_FILE_VERSION, scenarios: [SCENARIO] });
+  });
+
+  test("leaves current files untouched", () => {
+    const current = { version: SCENARIOS_FILE_VERSION, scenarios: [SCENARIO] };
+    const { file, fromVersion } = migrateScenariosFile(current);
+
+    expect(fromVersion).toBe(SCENARIOS_FILE_VERSION);
+    expect(file).toEqual(current);
+  });
+
+  test("refuses files from a newer version", () => {
+    expect(() => migrateScenariosFile({ version: SCENARIOS_FILE_VERSION + 1, scenarios: [] })).toThrow(
+      "newer than supported"
+    );
+  });
+
+  test("refuses unrecognized content", () => {
+    expect(() => migrateScenariosFile({ scenarios: [] })).toThrow("Unrecognized scenarios file");
+    expect(() => migrateScenariosFile({ version: 1, scenarios: "nope" })).toThrow("no scenarios array");
+  });
+});
@@ -0,0 +1,70 @@
+// controller/src/store/migrations.ts
+// Versioned scenarios.json format and the upgrades between versions
+
+import type { Scenario } from "../types";
+
+/**
+ * Version written by this build. Bump it together with a new entry in
+ * MIGRATIONS whenever the shape of stored scenarios changes.
+ */
+export const SCENARIOS_FILE_VERSION = 1;
+
+export interface ScenariosFile {
+  version: number;
+  scenarios: Scenario[];
+}
+
+export interface MigrationResult {
+  file: ScenariosFile;
+  fromVersion: number; // Version found on disk (0 = legacy bare array)
+}
+
+/**
+ * Upgrades keyed by the version they start from. Each one receives the
+ * parsed file at that version and returns it at the next version.
+ */
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  // 0 -> 1: bare array of scenarios wrapped in an envelope
+  0: (data) => ({ version: 1, scenarios: data }),
+};
+
+/**
+ * Version of a parsed scenarios file (bare arrays predate versioning)
+ */
+function detectVersion(data: unknown): number {
+  if (Array.isArray(data)) return 0;
+  if (typeof data === "object" && data !== null && "version" in data) {
+    const { version } = data as { version: unknown };
+    if (typeof version === "number" && Number.isInteger(version) && version >= 0) {
+      return version;
+    }
+  }
+  throw new Error("Unrecognized scenarios file: expected an array or { version, scenarios }");
+}
+
+/**
+ * Bring a parsed scenarios file up to SCENARIOS_FILE_VERSION
+ */
+export function migrateScenariosFile(data: unknown): MigrationResult {
+  const fromVersion = detectVersion(data);
+  if (fromVersion > SCENARIOS_FILE_VERSION) {
+    throw new Error(
+      `Scenarios file is version ${fromVersion}, newer than supported version ${SCENARIOS_FILE_VERSION}`
+    );
+  }
+
+  let current = data;
+  for (let version = fromVersion; version < SCENARIOS_FILE_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from scenarios file version ${version}`);
+    }
+    current = migrate(current);
+  }
+
+  const file = current as ScenariosFile;
+  if (!Array.isArray(file.scenarios)) {
+    throw new Error("Scenarios file has no scenarios array");
+  }
+  return { file, fromVersion };
+}
@@ -1,20 +1,70 @@
 // controller/src/store/persistence.ts
 // Persistence layer for scenarios and settings
 
+import { copyFile, mkdir, readdir, rename, rm, writeFile } from "fs/promises";
 import { homedir } from "os";
 import { join } from "path";
-import type { Scenario, Point } from "../types";
+import { formatValidationErrors, validate, type Scenario, type Point } from "../types";
+import { migrateScenariosFile, SCENARIOS_FILE_VERSION, type ScenariosFile } from "./migrations";
 
 // Allow override via environment variable for testing
 const CONFIG_DIR = process.env.SEQUENCER_CONFIG_DIR ?? 
   join(homedir(), ".config", "macos-sequencer");
 const SCENARIOS_FILE = "scenarios.json";
 const SETTINGS_FILE = "settings.json";
+const RUNS_FILE = "runs.json";
+const TRASH_FILE = "trash.json";
+const RUN_LOCK_FILE = "run.lock";
+const BACKUPS_DIR = "backups";
+
+// Timestamped copies of scenarios.json kept in BACKUPS_DIR
+const MAX_BACKUPS = 10;
+// Minimum time between backups, so one editing session doesn't rotate them all out
+const BACKUP_INTERVAL_MS = 5 * 60 * 1000;
+let lastBackupAt = 0;
 
 export interface Settings {
   lastOverlayPosition?: Point;
   defaultThreshold: number;
   pollIntervalMs: number;
+  mergeTypedText?: boolean; // Record runs of plain keypresses as one type-text step
+  serverPort?: number; // Start the local control server on this port (localhost only)
+  serverToken?: string; // Required by the control server on every request
+}
+
+// "redirected": finished in another scenario after a wait timed out with a goto policy
+export type RunOutcome = "completed" | "redirected" | "aborted" | "error";
+
+export interface StepTiming {
+  description: string;
+  scenarioName: string; // Scenario the step belongs to (may be a sub-scenario)
+  startedAt: number; // Unix timestamp ms
+  durationMs: number;
+  waitMs: number; // Time spent in delays and pixel waits
+}
+
+export interface RunRecord {
+  id: string;
+  scenarioId: string;
+  scenarioName: string;
+  startedAt: number; // Unix timestamp ms
+  endedAt: number; // Unix timestamp ms
+  outcome: RunOutcome;
+  error?: string;
+  redirects?: string[]; // Scenarios timed-out waits jumped to, in order
+  steps: StepTiming[]; // The latest steps only when droppedSteps is set
+  droppedSteps?: number; // Earlier steps left out to keep long runs small
+}
+
+export interface RunLock {
+  pid: number; // Process running the scenario
+  scenarioName: string;
+  startedAt: number; // Unix timestamp ms
+}
+
+export interface TrashedScenario {
+  scenario: Scenario;
+  deletedAt: number; // Unix timestamp ms
 }
 
 export const DEFAULT_SETTINGS: Settings = {
@@ -35,36 +85,121 @@ async function ensureConfigDir(): Promise<void> {
   }
 }
 
+/**
+ * Write a file by writing a temp file next to it and renaming it over the
+ * original, so a crash mid-write never leaves a truncated file behind
+ */
+async function writeAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await Bun.write(tempPath, content);
+  await rename(tempPath, filePath);
+}
+
+/**
+ * Copy the current scenarios.json into the backups directory, dropping the
+ * oldest copies beyond MAX_BACKUPS
+ */
+async function backupScenarios(): Promise<void> {
+  const now = Date.now();
+  if (now - lastBackupAt < BACKUP_INTERVAL_MS) return;
+
+  const filePath = join(CONFIG_DIR, SCENARIOS_FILE);
+  if (!(await Bun.file(filePath).exists())) return;
+
+  const backupsDir = join(CONFIG_DIR, BACKUPS_DIR);
+  await mkdir(backupsDir, { recursive: true });
+  await copyFile(filePath, join(backupsDir, `scenarios.${now}.json`));
+  lastBackupAt = now;
+
+  // Same-length timestamps, so name order is age order
+  const backups = (await readdir(backupsDir))
+    .filter((name) => /^scenarios\.\d+\.json$/.test(name))
+    .sort();
+  for (const name of backups.slice(0, -MAX_BACKUPS)) {
+    await rm(join(backupsDir, name));
+  }
+}
+
+/**
+ * Split scenarios into valid ones and ones that fail the schema.
+ * Invalid scenarios are written to a quarantine file (with their errors)
+ * instead of being loaded, so one bad entry doesn't hide the rest. The file
+ * is only written when something was set aside.
+ * @returns The valid scenarios and how many were quarantined
+ */
+async function quarantineInvalid(
+  scenarios: unknown[]
+): Promise<{ valid: Scenario[]; quarantined: number }> {
+  const valid: Scenario[] = [];
+  const rejected: { scenario: unknown; errors: string[] }[] = [];
+
+  scenarios.forEach((scenario, i) => {
+    const errors = validate("Scenario", scenario, `$.scenarios[${i}]`);
+    if (errors.length === 0) {
+      valid.push(scenario as Scenario);
+    } else {
+      console.error(`Skipping invalid scenario:\n${formatValidationErrors(errors)}`);
+      rejected.push({ scenario, errors: errors.map((e) => `${e.path}: ${e.message}`) });
+    }
+  });
+
+  if (rejected.length > 0) {
+    const quarantinePath = join(CONFIG_DIR, `scenarios.quarantine.${Date.now()}.json`);
+    await writeAtomic(quarantinePath, JSON.stringify(rejected, null, 2));
+  }
+  return { valid, quarantined: rejected.length };
+}
+
 /**
  * Load scenarios from disk
- * Returns empty array if file doesn't exist
+ * Returns empty array if file doesn't exist. Files written by older versions
+ * are upgraded in place, keeping a copy of the original next to it.
+ * Scenarios that don't match the schema are quarantined. Throws if the file
+ * can't be read, so a later save never replaces it with an empty one.
  */
 export async function loadScenarios(): Promise<Scenario[]> {
   const filePath = join(CONFIG_DIR, SCENARIOS_FILE);
   const file = Bun.file(filePath);
 
+  if (!(await file.exists())) {
+    return [];
+  }
+
   try {
-    if (!(await file.exists())) {
-      return [];
-    }
     const content = await file.text();
-    const scenarios = JSON.parse(content) as Scenario[];
-    return scenarios;
+    const { file: migrated, fromVersion } = migrateScenariosFile(JSON.parse(content));
+    const { valid, quarantined } = await quarantineInvalid(migrated.scenarios);
+
+    if (fromVersion < SCENARIOS_FILE_VERSION) {
+      const backupPath = join(CONFIG_DIR, `scenarios.v${fromVersion}.${Date.now()}.json`);
+      await writeAtomic(backupPath, content);
+    }
+    if (fromVersion < SCENARIOS_FILE_VERSION || quarantined > 0) {
+      // Without the quarantined scenarios, so they aren't quarantined again on every start
+      await saveScenarios(valid);
+    }
+    return valid;
   } catch (error) {
-    console.error("Failed to load scenarios:", error);
-    return [];
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load ${filePath} (left unchanged): ${reason}`);
   }
 }
 
 /**
- * Save scenarios to disk
- * Pretty-prints JSON for readability
+ * Save scenarios to disk in the current versioned format
+ * Pretty-prints JSON for readability. Backs up the previous file first.
  */
 export async function saveScenarios(scenarios: Scenario[]): Promise<void> {
   await ensureConfigDir();
+  try {
+    await backupScenarios();
+  } catch (error) {
+    console.error("Failed to back up scenarios:", error);
+  }
   const filePath = join(CONFIG_DIR, SCENARIOS_FILE);
-  const content = JSON.stringify(scenarios, null, 2);
-  await Bun.write(filePath, content);
+  const envelope: ScenariosFile = { version: SCENARIOS_FILE_VERSION, scenarios };
+  const content = JSON.stringify(envelope, null, 2);
+  await writeAtomic(filePath, content);
 }
 
 /**
@@ -97,7 +232,127 @@ export async function saveSettings(settings: Settings): Promise<void> {
   await ensureConfigDir();
   const filePath = join(CONFIG_DIR, SETTINGS_FILE);
   const content = JSON.stringify(settings, null, 2);
-  await Bun.write(filePath, content);
+  await writeAtomic(filePath, content);
+}
+
+/**
+ * Load run history from disk
+ * Returns empty array if file doesn't exist
+ */
+export async function loadRuns(): Promise<RunRecord[]> {
+  const filePath = join(CONFIG_DIR, RUNS_FILE);
+  const file = Bun.file(filePath);
+
+  try {
+    if (!(await file.exists())) {
+      return [];
+    }
+    const content = await file.text();
+    return JSON.parse(content) as RunRecord[];
+  } catch (error) {
+    console.error("Failed to load run history:", error);
+    return [];
+  }
+}
+
+/**
+ * Save run history to disk
+ */
+export async function saveRuns(runs: RunRecord[]): Promise<void> {
+  await ensureConfigDir();
+  const filePath = join(CONFIG_DIR, RUNS_FILE);
+  const content = JSON.stringify(runs, null, 2);
+  await writeAtomic(filePath, content);
+}
+
+/**
+ * Load deleted scenarios from disk
+ * Returns empty array if file doesn't exist
+ */
+export async function loadTrash(): Promise<TrashedScenario[]> {
+  const filePath = join(CONFIG_DIR, TRASH_FILE);
+  const file = Bun.file(filePath);
+
+  try {
+    if (!(await file.exists())) {
+      return [];
+    }
+    const content = await file.text();
+    return JSON.parse(content) as TrashedScenario[];
+  } catch (error) {
+    console.error("Failed to load trash:", error);
+    return [];
+  }
+}
+
+/**
+ * Save deleted scenarios to disk
+ */
+export async function saveTrash(trash: TrashedScenario[]): Promise<void> {
+  await ensureConfigDir();
+  const filePath = join(CONFIG_DIR, TRASH_FILE);
+  const content = JSON.stringify(trash, null, 2);
+  await writeAtomic(filePath, content);
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: alive, but owned by another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * The run lock held by another running process, if any
+ */
+export async function readRunLock(): Promise<RunLock | null> {
+  try {
+    const content = await Bun.file(join(CONFIG_DIR, RUN_LOCK_FILE)).text();
+    const lock = JSON.parse(content) as RunLock;
+    return lock.pid !== process.pid && isProcessAlive(lock.pid) ? lock : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Take the run lock for this process, replacing one left by a process that exited
+ * @returns The lock of another running process holding it, or null once taken
+ */
+export async function claimRunLock(scenarioName: string): Promise<RunLock | null> {
+  await ensureConfigDir();
+  const filePath = join(CONFIG_DIR, RUN_LOCK_FILE);
+  const lock: RunLock = { pid: process.pid, scenarioName, startedAt: Date.now() };
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      // "wx" fails if the file exists, so two processes can't both take it
+      await writeFile(filePath, JSON.stringify(lock), { flag: "wx" });
+      return null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    }
+    const holder = await readRunLock();
+    if (holder) return holder;
+    await rm(filePath, { force: true });
+  }
+  throw new Error(`Could not take the run lock: ${filePath}`);
+}
+
+/**
+ * Give up the run lock if this process holds it
+ */
+export async function releaseRunLock(): Promise<void> {
+  const filePath = join(CONFIG_DIR, RUN_LOCK_FILE);
+  try {
+    const lock = JSON.parse(await Bun.file(filePath).text()) as RunLock;
+    if (lock.pid === process.pid) await rm(filePath, { force: true });
+  } catch {
+    // Already released
+  }
 }
 
 /**
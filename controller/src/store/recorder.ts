@@ -3,12 +3,13 @@
 
 type Listener = () => void;
 
-export type RecorderStatus = "idle" | "recording" | "naming";
+export type RecorderStatus = "idle" | "recording" | "naming" | "repicking";
 
 export type RecorderState =
   | { status: "idle" }
   | { status: "recording"; scenarioId: string; insertAfterIndex: number | null }
-  | { status: "naming"; scenarioId: string; name: string };
+  | { status: "naming"; scenarioId: string; name: string }
+  | { status: "repicking"; scenarioId: string; stepIndex: number };
 
 export interface RecorderStore {
   getState(): RecorderState;
@@ -54,6 +55,16 @@ export interface RecorderStore {
    */
   cancelNaming(): void;
 
+  /**
+   * Start re-capturing the position/color of an existing step from the screen
+   */
+  startRepicking(scenarioId: string, stepIndex: number): void;
+
+  /**
+   * Leave re-pick mode (after a selection or when cancelled)
+   */
+  stopRepicking(): void;
+
   /**
    * Check if currently recording
    */
@@ -166,6 +177,20 @@ export function createRecorderStore(): RecorderStore {
       setState({ status: "idle" });
     },
 
+    startRepicking(scenarioId: string, stepIndex: number): void {
+      if (state.status !== "idle") {
+        console.warn(`Cannot start re-picking: already in ${state.status} state`);
+        return;
+      }
+
+      setState({ status: "repicking", scenarioId, stepIndex });
+    },
+
+    stopRepicking(): void {
+      if (state.status !== "repicking") return;
+      setState({ status: "idle" });
+    },
+
     isRecording(): boolean {
       return state.status === "recording";
     },
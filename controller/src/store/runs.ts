@@ -0,0 +1,126 @@
+// controller/src/store/runs.ts
+// Run history store recording the outcome and step timings of past executions
+
+import {
+  loadRuns,
+  saveRuns,
+  type RunOutcome,
+  type RunRecord,
+  type StepTiming,
+} from "./persistence";
+import { createDebouncedSave } from "./debounce";
+
+// Oldest runs of a scenario are dropped beyond this
+export const MAX_RUNS_PER_SCENARIO = 20;
+
+export type { RunOutcome, RunRecord, StepTiming };
+
+export interface RunsState {
+  runs: RunRecord[]; // Oldest first
+}
+
+type Listener = () => void;
+
+export interface RunsStore {
+  getState(): RunsState;
+  subscribe(listener: Listener): () => void;
+
+  load(): Promise<void>;
+  save(): Promise<void>;
+
+  addRun(run: RunRecord): void;
+  // Re-read runs.json, add the run and write it back now, keeping runs
+  // another process saved meanwhile (the CLI shares the file with the TUI)
+  appendRun(run: RunRecord): Promise<void>;
+  clearRuns(scenarioId: string): void;
+
+  // Most recent first
+  getRunsForScenario(scenarioId: string): RunRecord[];
+}
+
+/**
+ * Add a run, keeping only the most recent runs of its scenario
+ */
+function withRun(runs: RunRecord[], run: RunRecord): RunRecord[] {
+  const all = [...runs, run];
+  const scenarioRuns = all.filter((r) => r.scenarioId === run.scenarioId);
+  const excess = new Set(
+    scenarioRuns.slice(0, Math.max(0, scenarioRuns.length - MAX_RUNS_PER_SCENARIO))
+  );
+  return all.filter((r) => !excess.has(r));
+}
+
+export function createRunsStore(): RunsStore {
+  let state: RunsState = {
+    runs: [],
+  };
+
+  const listeners = new Set<Listener>();
+
+  function notify(): void {
+    for (const listener of listeners) {
+      listener();
+    }
+  }
+
+  function setState(partial: Partial<RunsState>): void {
+    state = { ...state, ...partial };
+    notify();
+  }
+
+  const saver = createDebouncedSave(() => saveRuns(state.runs));
+
+  function autoSave(): void {
+    saver.schedule();
+  }
+
+  return {
+    getState(): RunsState {
+      return state;
+    },
+
+    subscribe(listener: Listener): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    async load(): Promise<void> {
+      const runs = await loadRuns();
+      setState({ runs });
+    },
+
+    async save(): Promise<void> {
+      saver.schedule();
+      await saver.flush();
+    },
+
+    addRun(run: RunRecord): void {
+      setState({ runs: withRun(state.runs, run) });
+      autoSave();
+    },
+
+    async appendRun(run: RunRecord): Promise<void> {
+      const runs = withRun(await loadRuns(), run);
+      setState({ runs });
+      try {
+        await saveRuns(runs);
+      } catch (error) {
+        console.error("Failed to save:", error);
+      }
+    },
+
+    clearRuns(scenarioId: string): void {
+      setState({ runs: state.runs.filter((r) => r.scenarioId !== scenarioId) });
+      autoSave();
+    },
+
+    getRunsForScenario(scenarioId: string): RunRecord[] {
+      return state.runs.filter((r) => r.scenarioId === scenarioId).reverse();
+    },
+  };
+}
+
+// Singleton instance
+export const runsStore = createRunsStore();
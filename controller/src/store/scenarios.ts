@@ -2,8 +2,9 @@
 // State store for scenario management with CRUD operations
 
 import { nanoid } from "nanoid";
-import type { Scenario, Step } from "../types";
+import type { PixelCondition, Scenario, ScenarioParameter, Step, StepBlock } from "../types";
 import { loadScenarios, saveScenarios } from "./persistence";
+import { createDebouncedSave } from "./debounce";
 
 export interface ScenariosState {
   scenarios: Scenario[];
@@ -28,19 +29,73 @@ export interface ScenariosStore {
   // Scenario CRUD
   createScenario(name: string): Scenario;
   updateScenarioName(id: string, name: string): void;
+  updateScenarioParameters(id: string, parameters: ScenarioParameter[]): void;
   deleteScenario(id: string): Scenario | null;
+  duplicateScenario(id: string): Scenario | null; // Deep copy with a new id
   touchScenario(id: string): void; // Update lastUsedAt
+  restoreScenario(scenario: Scenario): void; // Insert or replace as-is (undo/redo)
 
   // Step operations
   addStep(scenarioId: string, step: Step, afterIndex?: number): void;
   updateStep(scenarioId: string, stepIndex: number, step: Step): void;
   removeStep(scenarioId: string, stepIndex: number): Step | null;
   swapSteps(scenarioId: string, indexA: number, indexB: number): void;
+  toggleBreakpoint(scenarioId: string, stepIndex: number): void;
 
   // Queries
   getSortedScenarios(): Scenario[];
   getSelectedScenario(): Scenario | null;
   getScenarioById(id: string): Scenario | null;
+  getReferencingScenarios(id: string): Scenario[]; // Scenarios whose steps point at id
+}
+
+/**
+ * Move breakpoints along with their steps; mapping to null drops one
+ */
+function remapBreakpoints(
+  scenario: Scenario,
+  map: (index: number) => number | null
+): number[] | undefined {
+  if (!scenario.breakpoints) return undefined;
+  const remapped = scenario.breakpoints
+    .map(map)
+    .filter((i): i is number => i !== null)
+    .sort((a, b) => a - b);
+  return remapped.length > 0 ? remapped : undefined;
+}
+
+function conditionReferences(condition: PixelCondition | undefined, id: string): boolean {
+  const policy = condition?.onTimeout;
+  return typeof policy === "object" && policy.goto === id;
+}
+
+function blockReferences(block: StepBlock, id: string): boolean {
+  return Array.isArray(block)
+    ? block.some((step) => stepReferences(step, id))
+    : block.scenarioId === id;
+}
+
+/**
+ * Whether a step points at a scenario, directly or inside nested blocks
+ */
+function stepReferences(step: Step, id: string): boolean {
+  switch (step.type) {
+    case "scenario-ref":
+      return step.scenarioId === id;
+    case "pixel-state":
+    case "pixel-zone":
+      return conditionReferences(step, id);
+    case "loop":
+      return blockReferences(step.body, id) || conditionReferences(step.until, id);
+    case "if":
+      return (
+        conditionReferences(step.condition, id) ||
+        blockReferences(step.then, id) ||
+        (step.else !== undefined && blockReferences(step.else, id))
+      );
+    default:
+      return false;
+  }
 }
 
 export function createScenariosStore(): ScenariosStore {
@@ -67,9 +122,10 @@ export function createScenariosStore(): ScenariosStore {
     return state.scenarios.findIndex((s) => s.id === id);
   }
 
-  async function autoSave(): Promise<void> {
-    // Debounced save could be added here if needed
-    await saveScenarios(state.scenarios);
+  const saver = createDebouncedSave(() => saveScenarios(state.scenarios));
+
+  function autoSave(): void {
+    saver.schedule();
   }
 
   return {
@@ -90,7 +146,8 @@ export function createScenariosStore(): ScenariosStore {
     },
 
     async save(): Promise<void> {
-      await autoSave();
+      saver.schedule();
+      await saver.flush();
     },
 
     selectScenario(id: string | null): void {
@@ -136,6 +193,21 @@ export function createScenariosStore(): ScenariosStore {
       autoSave();
     },
 
+    updateScenarioParameters(id: string, parameters: ScenarioParameter[]): void {
+      const index = findScenarioIndex(id);
+      if (index === -1) return;
+
+      const updated = [...state.scenarios];
+      const existing = updated[index];
+      if (!existing) return;
+      updated[index] = {
+        ...existing,
+        parameters: parameters.length > 0 ? parameters : undefined,
+      };
+      setState({ scenarios: updated });
+      autoSave();
+    },
+
     deleteScenario(id: string): Scenario | null {
       const index = findScenarioIndex(id);
       if (index === -1) return null;
@@ -166,6 +238,29 @@ export function createScenariosStore(): ScenariosStore {
       return deleted;
     },
 
+    duplicateScenario(id: string): Scenario | null {
+      const original = state.scenarios.find((s) => s.id === id);
+      if (!original) return null;
+
+      const now = Date.now();
+      const copy: Scenario = {
+        ...structuredClone(original),
+        id: nanoid(),
+        name: `${original.name} (copy)`,
+        createdAt: now,
+        lastUsedAt: now,
+      };
+
+      setState({
+        scenarios: [...state.scenarios, copy],
+        selectedScenarioId: copy.id,
+        selectedStepIndex: null,
+      });
+
+      autoSave();
+      return copy;
+    },
+
     touchScenario(id: string): void {
       const index = findScenarioIndex(id);
       if (index === -1) return;
@@ -178,6 +273,18 @@ export function createScenariosStore(): ScenariosStore {
       autoSave();
     },
 
+    restoreScenario(scenario: Scenario): void {
+      const index = findScenarioIndex(scenario.id);
+      const updated = [...state.scenarios];
+      if (index === -1) {
+        updated.push(scenario);
+      } else {
+        updated[index] = scenario;
+      }
+      setState({ scenarios: updated });
+      autoSave();
+    },
+
     addStep(scenarioId: string, step: Step, afterIndex?: number): void {
       const index = findScenarioIndex(scenarioId);
       if (index === -1) return;
@@ -198,6 +305,9 @@ export function createScenariosStore(): ScenariosStore {
       updated[index] = {
         ...scenario,
         steps: newSteps,
+        breakpoints: remapBreakpoints(scenario, (i) =>
+          i >= insertIndex ? i + 1 : i
+        ),
         lastUsedAt: Date.now(),
       };
 
@@ -240,7 +350,13 @@ export function createScenariosStore(): ScenariosStore {
       const newSteps = scenario.steps.filter((_, i) => i !== stepIndex);
 
       const updated = [...state.scenarios];
-      updated[index] = { ...scenario, steps: newSteps };
+      updated[index] = {
+        ...scenario,
+        steps: newSteps,
+        breakpoints: remapBreakpoints(scenario, (i) =>
+          i === stepIndex ? null : i > stepIndex ? i - 1 : i
+        ),
+      };
 
       // Adjust selection
       const newSelectedStep =
@@ -286,7 +402,13 @@ export function createScenariosStore(): ScenariosStore {
       newSteps[indexB] = stepA;
 
       const updated = [...state.scenarios];
-      updated[index] = { ...scenario, steps: newSteps };
+      updated[index] = {
+        ...scenario,
+        steps: newSteps,
+        breakpoints: remapBreakpoints(scenario, (i) =>
+          i === indexA ? indexB : i === indexB ? indexA : i
+        ),
+      };
 
       // Update selection if it was one of the swapped items
       let newSelectedStep = state.selectedStepIndex;
@@ -304,6 +426,29 @@ export function createScenariosStore(): ScenariosStore {
       autoSave();
     },
 
+    toggleBreakpoint(scenarioId: string, stepIndex: number): void {
+      const index = findScenarioIndex(scenarioId);
+      if (index === -1) return;
+
+      const scenario = state.scenarios[index];
+      if (!scenario) return;
+      if (stepIndex < 0 || stepIndex >= scenario.steps.length) return;
+
+      const existing = scenario.breakpoints ?? [];
+      const breakpoints = existing.includes(stepIndex)
+        ? existing.filter((i) => i !== stepIndex)
+        : [...existing, stepIndex].sort((a, b) => a - b);
+
+      const updated = [...state.scenarios];
+      updated[index] = {
+        ...scenario,
+        breakpoints: breakpoints.length > 0 ? breakpoints : undefined,
+      };
+
+      setState({ scenarios: updated });
+      autoSave();
+    },
+
     getSortedScenarios(): Scenario[] {
       return [...state.scenarios].sort((a, b) => b.lastUsedAt - a.lastUsedAt);
     },
@@ -316,6 +461,12 @@ export function createScenariosStore(): ScenariosStore {
     getScenarioById(id: string): Scenario | null {
       return state.scenarios.find((s) => s.id === id) ?? null;
     },
+
+    getReferencingScenarios(id: string): Scenario[] {
+      return state.scenarios.filter(
+        (s) => s.id !== id && s.steps.some((step) => stepReferences(step, id))
+      );
+    },
   };
 }
 
@@ -8,6 +8,7 @@ import {
   DEFAULT_SETTINGS,
   type Settings,
 } from "./persistence";
+import { createDebouncedSave } from "./debounce";
 
 type Listener = () => void;
 
@@ -70,8 +71,10 @@ export function createSettingsStore(): SettingsStore {
     notify();
   }
 
-  async function autoSave(): Promise<void> {
-    await saveSettingsToDisk(state);
+  const saver = createDebouncedSave(() => saveSettingsToDisk(state));
+
+  function autoSave(): void {
+    saver.schedule();
   }
 
   return {
@@ -92,7 +95,8 @@ export function createSettingsStore(): SettingsStore {
     },
 
     async save(): Promise<void> {
-      await autoSave();
+      saver.schedule();
+      await saver.flush();
     },
 
     set<K extends keyof Settings>(key: K, value: Settings[K]): void {
@@ -0,0 +1,117 @@
+// controller/src/store/trash.ts
+// Trash store keeping deleted scenarios recoverable
+
+import type { Scenario } from "../types";
+import { loadTrash, saveTrash, type TrashedScenario } from "./persistence";
+import { createDebouncedSave } from "./debounce";
+
+// Oldest deleted scenarios are purged beyond this
+export const MAX_TRASH_SIZE = 50;
+
+export type { TrashedScenario };
+
+export interface TrashState {
+  items: TrashedScenario[]; // Oldest first
+}
+
+type Listener = () => void;
+
+export interface TrashStore {
+  getState(): TrashState;
+  subscribe(listener: Listener): () => void;
+
+  load(): Promise<void>;
+  save(): Promise<void>;
+
+  add(scenario: Scenario): void;
+  /** Take a scenario out of the trash, returning it (null if not trashed) */
+  remove(id: string): Scenario | null;
+  empty(): void;
+
+  // Most recently deleted first
+  getItems(): TrashedScenario[];
+  getById(id: string): TrashedScenario | null;
+}
+
+export function createTrashStore(): TrashStore {
+  let state: TrashState = {
+    items: [],
+  };
+
+  const listeners = new Set<Listener>();
+
+  function notify(): void {
+    for (const listener of listeners) {
+      listener();
+    }
+  }
+
+  function setState(partial: Partial<TrashState>): void {
+    state = { ...state, ...partial };
+    notify();
+  }
+
+  const saver = createDebouncedSave(() => saveTrash(state.items));
+
+  function autoSave(): void {
+    saver.schedule();
+  }
+
+  return {
+    getState(): TrashState {
+      return state;
+    },
+
+    subscribe(listener: Listener): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    async load(): Promise<void> {
+      const items = await loadTrash();
+      setState({ items });
+    },
+
+    async save(): Promise<void> {
+      saver.schedule();
+      await saver.flush();
+    },
+
+    add(scenario: Scenario): void {
+      // Re-deleting a scenario replaces its older copy
+      const items = [
+        ...state.items.filter((item) => item.scenario.id !== scenario.id),
+        { scenario, deletedAt: Date.now() },
+      ];
+      setState({ items: items.slice(-MAX_TRASH_SIZE) });
+      autoSave();
+    },
+
+    remove(id: string): Scenario | null {
+      const item = state.items.find((i) => i.scenario.id === id);
+      if (!item) return null;
+
+      setState({ items: state.items.filter((i) => i !== item) });
+      autoSave();
+      return item.scenario;
+    },
+
+    empty(): void {
+      setState({ items: [] });
+      autoSave();
+    },
+
+    getItems(): TrashedScenario[] {
+      return [...state.items].reverse();
+    },
+
+    getById(id: string): TrashedScenario | null {
+      return state.items.find((i) => i.scenario.id === id) ?? null;
+    },
+  };
+}
+
+// Singleton instance
+export const trashStore = createTrashStore();
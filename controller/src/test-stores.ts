@@ -79,8 +79,8 @@ async function testHistoryUndo(scenario: { id: string }) {
   console.log("  Undo description:", historyStore.getUndoDescription());
 
   // Undo
-  const undoResult = historyStore.undo();
-  console.log("Undo result:", undoResult);
+  const undoError = historyStore.undo();
+  console.log("Undo result:", undoError ?? "ok");
   console.log("After undo:");
   console.log("  Steps count:", scenariosStore.getSelectedScenario()?.steps.length);
   console.log("  Steps:", scenariosStore.getSelectedScenario()?.steps.map((s) => s.type));
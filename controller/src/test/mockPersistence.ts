@@ -0,0 +1,30 @@
+// controller/src/test/mockPersistence.ts
+// Shared in-memory stand-in for the persistence module in tests
+
+import { mock } from "bun:test";
+import type * as persistence from "../store/persistence";
+
+type Persistence = typeof persistence;
+
+/**
+ * Keep scenarios, runs, trash and the run lock in memory instead of the
+ * user's config dir. Call before importing anything that loads a store;
+ * overrides replace individual functions.
+ */
+export function mockPersistence(overrides: Partial<Persistence> = {}): void {
+  const stubs: Partial<Persistence> = {
+    loadScenarios: async () => [],
+    saveScenarios: async () => {},
+    loadRuns: async () => [],
+    saveRuns: async () => {},
+    loadTrash: async () => [],
+    saveTrash: async () => {},
+    readRunLock: async () => null,
+    claimRunLock: async () => null,
+    releaseRunLock: async () => {},
+  };
+  mock.module(new URL("../store/persistence.ts", import.meta.url).pathname, () => ({
+    ...stubs,
+    ...overrides,
+  }));
+}
@@ -0,0 +1,17 @@
+// controller/src/types/color.ts
+// RGB color distance and the threshold range it spans
+
+import type { RGB } from "../../../schema/src/types.ts";
+
+// Largest possible Euclidean distance between two RGB colors (sqrt(3 * 255^2))
+export const MAX_THRESHOLD = 441;
+
+/**
+ * Euclidean RGB distance (0 = exact match, ~441 = black vs white)
+ */
+export function colorDistance(a: RGB, b: RGB): number {
+  const dr = a.r - b.r;
+  const dg = a.g - b.g;
+  const db = a.b - b.b;
+  return Math.sqrt(dr * dr + dg * dg + db * db);
+}
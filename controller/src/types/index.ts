@@ -7,19 +7,30 @@ export type {
   Point,
   Rect,
 
+  // Parameters
+  BindableField,
+  StepBindings,
+  ScenarioParameter,
+
   // Actions
   ClickAction,
   KeypressAction,
+  TypeTextAction,
   Action,
 
   // Transitions
   DelayTransition,
+  TimeoutPolicy,
   PixelStateTransition,
   PixelZoneTransition,
   Transition,
+  PixelCondition,
 
   // Scenario
   ScenarioRef,
+  StepBlock,
+  LoopStep,
+  IfStep,
   Step,
   Scenario,
 
@@ -32,9 +43,14 @@ export type {
   HideMagnifierRequest,
   ExecuteClickRequest,
   ExecuteKeypressRequest,
+  TypeTextRequest,
   GetPixelColorRequest,
+  CheckPixelStateRequest,
+  CheckPixelZoneRequest,
+  SampleZoneRequest,
   WaitForPixelStateRequest,
   WaitForPixelZoneRequest,
+  CancelRequest,
   IPCRequestBody,
   IPCRequest,
 
@@ -44,6 +60,7 @@ export type {
   IPCResponse,
   PermissionStatus,
   PixelColorResult,
+  ZoneSampleResult,
 
   // IPC Events
   OverlayIconClickedEvent,
@@ -59,3 +76,14 @@ export type {
   // Union
   IPCMessage,
 } from "../../../schema/src/types.ts";
+
+// Runtime validators generated from the same definitions
+export {
+  validate,
+  formatValidationErrors,
+  type DefinitionName,
+  type ValidationError,
+} from "../../../schema/generated/validators.ts";
+
+// Color distance shared by execution, the mock screen and the editor
+export { colorDistance, MAX_THRESHOLD } from "./color";
@@ -0,0 +1,45 @@
+// controller/src/types/validators.test.ts
+// Tests for the schema-generated runtime validators
+
+import { describe, expect, test } from "bun:test";
+import { validate } from "./index";
+
+function scenario(steps: unknown[]): unknown {
+  return { id: "s1", name: "Login", createdAt: 1, lastUsedAt: 2, steps };
+}
+
+describe("validate", () => {
+  test("accepts a well-formed scenario", () => {
+    const steps = [
+      { type: "click", position: { x: 10, y: 20 }, button: "left" },
+      { type: "loop", count: 2, body: [{ type: "delay", ms: 100 }] },
+      { type: "if", condition: { type: "pixel-state", position: { x: 1, y: 1 }, color: { r: 0, g: 0, b: 0 }, threshold: 10 }, then: { type: "scenario-ref", scenarioId: "s2" } },
+    ];
+
+    expect(validate("Scenario", scenario(steps))).toEqual([]);
+  });
+
+  test("reports errors at the path of the offending field", () => {
+    const steps = [{ type: "click", position: { x: "10", y: 20 }, button: "left" }];
+
+    expect(validate("Scenario", scenario(steps))).toEqual([
+      { path: "$.steps[0].position.x", message: "expected number, got string" },
+    ]);
+  });
+
+  test("reports errors inside nested blocks", () => {
+    const steps = [{ type: "loop", count: 2, body: [{ type: "delay" }] }];
+
+    expect(validate("Scenario", scenario(steps))).toEqual([
+      { path: "$.steps[0].body[0].ms", message: "is required" },
+    ]);
+  });
+
+  test("names the allowed step types for an unknown one", () => {
+    const [error] = validate("Step", { type: "teleport" });
+
+    expect(error?.path).toBe("$.type");
+    expect(error?.message).toContain('"click", "keypress"');
+    expect(error?.message).toContain('got "teleport"');
+  });
+});
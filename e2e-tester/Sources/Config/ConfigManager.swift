@@ -2,6 +2,9 @@ import Foundation
 
 /// Manages reading and writing config files (scenarios.json, settings.json)
 class ConfigManager {
+    /// Must match SCENARIOS_FILE_VERSION in controller/src/store/migrations.ts
+    static let scenariosFileVersion = 1
+    
     let configDir: String
     
     private let fileManager = FileManager.default
@@ -47,19 +50,24 @@ class ConfigManager {
     
     /// Read scenarios from disk
     /// Returns empty array if file doesn't exist
+    /// Accepts both the versioned envelope and the legacy bare array
     func readScenarios() throws -> [Scenario] {
         guard fileManager.fileExists(atPath: scenariosPath) else {
             return []
         }
         
         let data = try Data(contentsOf: URL(fileURLWithPath: scenariosPath))
+        if let file = try? decoder.decode(ScenariosFile.self, from: data) {
+            return file.scenarios
+        }
         return try decoder.decode([Scenario].self, from: data)
     }
     
-    /// Write scenarios to disk
+    /// Write scenarios to disk in the controller's versioned format
     func writeScenarios(_ scenarios: [Scenario]) throws {
         try ensureDir()
-        let data = try encoder.encode(scenarios)
+        let file = ScenariosFile(version: ConfigManager.scenariosFileVersion, scenarios: scenarios)
+        let data = try encoder.encode(file)
         try data.write(to: URL(fileURLWithPath: scenariosPath))
     }
     
@@ -115,3 +123,9 @@ class ConfigManager {
         return date
     }
 }
+
+/// On-disk envelope for scenarios.json
+private struct ScenariosFile: Codable {
+    let version: Int
+    let scenarios: [Scenario]
+}
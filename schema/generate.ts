@@ -51,7 +51,16 @@ async function generate() {
 
   console.log(`  -> Created ${swiftPath}`);
 
-  // Step 3: Verify Swift compiles
+  // Step 3: Generate runtime validators for the controller
+  console.log("Generating runtime validators...");
+
+  const validatorsContent = generateValidators(schema);
+  const validatorsPath = path.join(outDir, "validators.ts");
+  fs.writeFileSync(validatorsPath, validatorsContent);
+
+  console.log(`  -> Created ${validatorsPath}`);
+
+  // Step 4: Verify Swift compiles
   console.log("Verifying Swift types compile...");
   try {
     await execAsync(`swiftc -typecheck "${swiftPath}"`);
@@ -66,6 +75,7 @@ async function generate() {
   console.log("\nDone! Generated files:");
   console.log(`  - ${schemaPath}`);
   console.log(`  - ${swiftPath}`);
+  console.log(`  - ${validatorsPath}`);
 }
 
 function generateSwiftTypes(schema: any): string {
@@ -119,11 +129,13 @@ struct ClickAction: Codable, Equatable {
     let type: String
     let position: Point
     let button: MouseButton
+    let bindings: [String: String]?
 
-    init(position: Point, button: MouseButton) {
+    init(position: Point, button: MouseButton, bindings: [String: String]? = nil) {
         self.type = "click"
         self.position = position
         self.button = button
+        self.bindings = bindings
     }
 }
 
@@ -131,11 +143,27 @@ struct KeypressAction: Codable, Equatable {
     let type: String
     let key: String
     let modifiers: [KeyModifier]
+    let bindings: [String: String]?
 
-    init(key: String, modifiers: [KeyModifier]) {
+    init(key: String, modifiers: [KeyModifier], bindings: [String: String]? = nil) {
         self.type = "keypress"
         self.key = key
         self.modifiers = modifiers
+        self.bindings = bindings
+    }
+}
+
+struct TypeTextAction: Codable, Equatable {
+    let type: String
+    let text: String
+    let charDelayMs: Double?
+    let bindings: [String: String]?
+
+    init(text: String, charDelayMs: Double? = nil, bindings: [String: String]? = nil) {
+        self.type = "type-text"
+        self.text = text
+        self.charDelayMs = charDelayMs
+        self.bindings = bindings
     }
 }
 
@@ -144,10 +172,58 @@ struct KeypressAction: Codable, Equatable {
 struct DelayTransition: Codable, Equatable {
     let type: String
     let ms: Double
+    let bindings: [String: String]?
 
-    init(ms: Double) {
+    init(ms: Double, bindings: [String: String]? = nil) {
         self.type = "delay"
         self.ms = ms
+        self.bindings = bindings
+    }
+}
+
+enum TimeoutPolicy: Codable, Equatable {
+    case fail
+    case skip
+    case retry
+    case goto(String)
+
+    private struct GotoTarget: Codable {
+        let goto: String
+    }
+
+    init(from decoder: Decoder) throws {
+        let container = try decoder.singleValueContainer()
+        if let policy = try? container.decode(String.self) {
+            switch policy {
+            case "fail":
+                self = .fail
+            case "skip":
+                self = .skip
+            case "retry":
+                self = .retry
+            default:
+                throw DecodingError.dataCorruptedError(
+                    in: container,
+                    debugDescription: "Unknown timeout policy: \\(policy)"
+                )
+            }
+        } else {
+            self = .goto(try container.decode(GotoTarget.self).goto)
+        }
+    }
+
+    func encode(to encoder: Encoder) throws {
+        var container = encoder.singleValueContainer()
+        switch self {
+        case .fail:
+            try container.encode("fail")
+        case .skip:
+            try container.encode("skip")
+        case .retry:
+            try container.encode("retry")
+        case .goto(let scenarioId):
+            try container.encode(GotoTarget(goto: scenarioId))
+        }
     }
 }
 
@@ -156,12 +232,18 @@ struct PixelStateTransition: Codable, Equatable {
     let position: Point
     let color: RGB
     let threshold: Double
+    let timeoutMs: Double?
+    let onTimeout: TimeoutPolicy?
+    let bindings: [String: String]?
 
-    init(position: Point, color: RGB, threshold: Double) {
+    init(position: Point, color: RGB, threshold: Double, timeoutMs: Double? = nil, onTimeout: TimeoutPolicy? = nil, bindings: [String: String]? = nil) {
         self.type = "pixel-state"
         self.position = position
         self.color = color
         self.threshold = threshold
+        self.timeoutMs = timeoutMs
+        self.onTimeout = onTimeout
+        self.bindings = bindings
     }
 }
 
@@ -170,12 +252,18 @@ struct PixelZoneTransition: Codable, Equatable {
     let rect: Rect
     let color: RGB
     let threshold: Double
+    let timeoutMs: Double?
+    let onTimeout: TimeoutPolicy?
+    let bindings: [String: String]?
 
-    init(rect: Rect, color: RGB, threshold: Double) {
+    init(rect: Rect, color: RGB, threshold: Double, timeoutMs: Double? = nil, onTimeout: TimeoutPolicy? = nil, bindings: [String: String]? = nil) {
         self.type = "pixel-zone"
         self.rect = rect
         self.color = color
         self.threshold = threshold
+        self.timeoutMs = timeoutMs
+        self.onTimeout = onTimeout
+        self.bindings = bindings
     }
 }
 
@@ -184,10 +272,106 @@ struct PixelZoneTransition: Codable, Equatable {
 struct ScenarioRef: Codable, Equatable {
     let type: String
     let scenarioId: String
+    let args: [String: String]?
 
-    init(scenarioId: String) {
+    init(scenarioId: String, args: [String: String]? = nil) {
         self.type = "scenario-ref"
         self.scenarioId = scenarioId
+        self.args = args
+    }
+}
+
+// MARK: - Pixel Condition (Union Type)
+
+enum PixelCondition: Codable, Equatable {
+    case pixelState(PixelStateTransition)
+    case pixelZone(PixelZoneTransition)
+
+    private enum CodingKeys: String, CodingKey {
+        case type
+    }
+
+    init(from decoder: Decoder) throws {
+        let container = try decoder.container(keyedBy: CodingKeys.self)
+        let type = try container.decode(String.self, forKey: .type)
+
+        switch type {
+        case "pixel-state":
+            self = .pixelState(try PixelStateTransition(from: decoder))
+        case "pixel-zone":
+            self = .pixelZone(try PixelZoneTransition(from: decoder))
+        default:
+            throw DecodingError.dataCorruptedError(
+                forKey: .type,
+                in: container,
+                debugDescription: "Unknown condition type: \\(type)"
+            )
+        }
+    }
+
+    func encode(to encoder: Encoder) throws {
+        switch self {
+        case .pixelState(let transition):
+            try transition.encode(to: encoder)
+        case .pixelZone(let transition):
+            try transition.encode(to: encoder)
+        }
+    }
+}
+
+// MARK: - Control Flow
+
+enum StepBlock: Codable, Equatable {
+    case steps([Step])
+    case scenarioRef(ScenarioRef)
+
+    init(from decoder: Decoder) throws {
+        let container = try decoder.singleValueContainer()
+        if let steps = try? container.decode([Step].self) {
+            self = .steps(steps)
+        } else {
+            self = .scenarioRef(try container.decode(ScenarioRef.self))
+        }
+    }
+
+    func encode(to encoder: Encoder) throws {
+        var container = encoder.singleValueContainer()
+        switch self {
+        case .steps(let steps):
+            try container.encode(steps)
+        case .scenarioRef(let ref):
+            try container.encode(ref)
+        }
+    }
+}
+
+struct LoopStep: Codable, Equatable {
+    let type: String
+    let body: StepBlock
+    let count: Int?
+    let until: PixelCondition?
+    let maxIterations: Int?
+
+    init(body: StepBlock, count: Int? = nil, until: PixelCondition? = nil, maxIterations: Int? = nil) {
+        self.type = "loop"
+        self.body = body
+        self.count = count
+        self.until = until
+        self.maxIterations = maxIterations
+    }
+}
+
+struct IfStep: Codable, Equatable {
+    let type: String
+    let condition: PixelCondition
+    let then: StepBlock
+    let \`else\`: StepBlock?
+
+    init(condition: PixelCondition, then: StepBlock, else elseBlock: StepBlock? = nil) {
+        self.type = "if"
+        self.condition = condition
+        self.then = then
+        self.\`else\` = elseBlock
     }
 }
 
@@ -196,10 +380,13 @@ struct ScenarioRef: Codable, Equatable {
 enum Step: Codable, Equatable {
     case click(ClickAction)
     case keypress(KeypressAction)
+    case typeText(TypeTextAction)
     case delay(DelayTransition)
     case pixelState(PixelStateTransition)
     case pixelZone(PixelZoneTransition)
     case scenarioRef(ScenarioRef)
+    case loop(LoopStep)
+    case ifStep(IfStep)
 
     private enum CodingKeys: String, CodingKey {
         case type
@@ -214,6 +401,8 @@ enum Step: Codable, Equatable {
             self = .click(try ClickAction(from: decoder))
         case "keypress":
             self = .keypress(try KeypressAction(from: decoder))
+        case "type-text":
+            self = .typeText(try TypeTextAction(from: decoder))
         case "delay":
             self = .delay(try DelayTransition(from: decoder))
         case "pixel-state":
@@ -222,6 +411,10 @@ enum Step: Codable, Equatable {
             self = .pixelZone(try PixelZoneTransition(from: decoder))
         case "scenario-ref":
             self = .scenarioRef(try ScenarioRef(from: decoder))
+        case "loop":
+            self = .loop(try LoopStep(from: decoder))
+        case "if":
+            self = .ifStep(try IfStep(from: decoder))
         default:
             throw DecodingError.dataCorruptedError(
                 forKey: .type,
@@ -237,6 +430,8 @@ enum Step: Codable, Equatable {
             try action.encode(to: encoder)
         case .keypress(let action):
             try action.encode(to: encoder)
+        case .typeText(let action):
+            try action.encode(to: encoder)
         case .delay(let transition):
             try transition.encode(to: encoder)
         case .pixelState(let transition):
@@ -245,6 +440,10 @@ enum Step: Codable, Equatable {
             try transition.encode(to: encoder)
         case .scenarioRef(let ref):
             try ref.encode(to: encoder)
+        case .loop(let loop):
+            try loop.encode(to: encoder)
+        case .ifStep(let ifStep):
+            try ifStep.encode(to: encoder)
         }
     }
 }
@@ -257,6 +456,13 @@ struct Scenario: Codable, Equatable {
     let steps: [Step]
     let createdAt: Double
     let lastUsedAt: Double
+    let breakpoints: [Int]?
+    let parameters: [ScenarioParameter]?
+}
+
+struct ScenarioParameter: Codable, Equatable {
+    let name: String
+    let \`default\`: String?
 }
 
 // MARK: - Permission Status
@@ -272,6 +478,14 @@ struct PixelColorResult: Codable, Equatable {
     let color: RGB
 }
 
+// MARK: - Zone Sample Result
+
+struct ZoneSampleResult: Codable, Equatable {
+    let position: Point
+    let color: RGB
+    let distance: Double
+}
+
 // MARK: - Recorder State
 
 enum RecorderState: String, Codable {
@@ -396,6 +610,23 @@ struct ExecuteKeypressRequest: Codable {
     }
 }
 
+struct TypeTextParams: Codable {
+    let text: String
+    let charDelayMs: Double?
+}
+
+struct TypeTextRequest: Codable {
+    let id: String
+    let method: String
+    let params: TypeTextParams
+
+    init(id: String, text: String, charDelayMs: Double? = nil) {
+        self.id = id
+        self.method = "typeText"
+        self.params = TypeTextParams(text: text, charDelayMs: charDelayMs)
+    }
+}
+
 struct GetPixelColorParams: Codable {
     let position: Point
 }
@@ -412,6 +643,59 @@ struct GetPixelColorRequest: Codable {
     }
 }
 
+struct CheckPixelStateParams: Codable {
+    let position: Point
+    let color: RGB
+    let threshold: Double
+}
+
+struct CheckPixelStateRequest: Codable {
+    let id: String
+    let method: String
+    let params: CheckPixelStateParams
+
+    init(id: String, position: Point, color: RGB, threshold: Double) {
+        self.id = id
+        self.method = "checkPixelState"
+        self.params = CheckPixelStateParams(position: position, color: color, threshold: threshold)
+    }
+}
+
+struct CheckPixelZoneParams: Codable {
+    let rect: Rect
+    let color: RGB
+    let threshold: Double
+}
+
+struct CheckPixelZoneRequest: Codable {
+    let id: String
+    let method: String
+    let params: CheckPixelZoneParams
+
+    init(id: String, rect: Rect, color: RGB, threshold: Double) {
+        self.id = id
+        self.method = "checkPixelZone"
+        self.params = CheckPixelZoneParams(rect: rect, color: color, threshold: threshold)
+    }
+}
+
+struct SampleZoneParams: Codable {
+    let rect: Rect
+    let color: RGB
+}
+
+struct SampleZoneRequest: Codable {
+    let id: String
+    let method: String
+    let params: SampleZoneParams
+
+    init(id: String, rect: Rect, color: RGB) {
+        self.id = id
+        self.method = "sampleZone"
+        self.params = SampleZoneParams(rect: rect, color: color)
+    }
+}
+
 struct WaitForPixelStateParams: Codable {
     let position: Point
     let color: RGB
@@ -460,6 +744,22 @@ struct WaitForPixelZoneRequest: Codable {
     }
 }
 
+struct CancelRequestParams: Codable {
+    let requestId: String
+}
+
+struct CancelRequest: Codable {
+    let id: String
+    let method: String
+    let params: CancelRequestParams
+
+    init(id: String, requestId: String) {
+        self.id = id
+        self.method = "cancelRequest"
+        self.params = CancelRequestParams(requestId: requestId)
+    }
+}
+
 // MARK: - IPC Request (Union for Parsing)
 
 enum IPCRequestMethod: String, Codable {
@@ -471,9 +771,14 @@ enum IPCRequestMethod: String, Codable {
     case hideMagnifier
     case executeClick
     case executeKeypress
+    case typeText
     case getPixelColor
+    case checkPixelState
+    case checkPixelZone
+    case sampleZone
     case waitForPixelState
     case waitForPixelZone
+    case cancelRequest
 }
 
 struct IPCRequestEnvelope: Codable {
@@ -721,6 +1026,186 @@ enum IPCEvent: Codable {
 `;
 }
 
+function generateValidators(schema: any): string {
+  const definitions: Record<string, unknown> = { ...schema.definitions };
+
+  // Generic parameters (IPCResponseSuccess<T>) are emitted as "object",
+  // but results can be any JSON value
+  for (const name of Object.keys(definitions)) {
+    if (/^T(_\d+)?$/.test(name)) definitions[name] = {};
+  }
+
+  const names = Object.keys(definitions)
+    .map((name) => `  | ${JSON.stringify(name)}`)
+    .join("\n");
+
+  return `// This file was generated from schema.json, do not modify it directly.
+// To regenerate: cd schema && bun run generate
+// Source: schema/src/types.ts
+
+export interface ValidationError {
+  path: string; // e.g. "$.steps[2].position.x"
+  message: string;
+}
+
+export type DefinitionName =
+${names};
+
+interface JsonSchema {
+  $ref?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+}
+
+const definitions: Record<string, JsonSchema> = ${JSON.stringify(definitions, null, 2)};
+
+// Properties that tell union members apart (Step.type, request method, event name)
+const DISCRIMINATORS = ["type", "method", "event"];
+
+function resolve(schema: JsonSchema): JsonSchema {
+  let current = schema;
+  while (current.$ref !== undefined) {
+    const target = definitions[current.$ref.replace("#/definitions/", "")];
+    if (!target) throw new Error("Unknown schema reference: " + current.$ref);
+    current = target;
+  }
+  return current;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = describe(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+/**
+ * The single allowed value of a property, if the schema pins one
+ */
+function constantOf(schema: JsonSchema, key: string): unknown {
+  const resolved = resolve(schema);
+  const values = resolved.properties?.[key]?.enum;
+  if (values?.length === 1) return values[0];
+  for (const part of resolved.allOf ?? []) {
+    const value = constantOf(part, key);
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+function checkAnyOf(value: unknown, branches: JsonSchema[], path: string, errors: ValidationError[]): void {
+  let candidates = branches;
+
+  // Pick the member by its tag so errors point inside it, not at every member
+  if (isObject(value)) {
+    for (const key of DISCRIMINATORS) {
+      const tags = branches.map((branch) => constantOf(branch, key));
+      if (tags.some((tag) => tag === undefined)) continue;
+      candidates = branches.filter((_, i) => tags[i] === value[key]);
+      if (candidates.length === 0) {
+        const expected = [...new Set(tags)].map((tag) => JSON.stringify(tag)).join(", ");
+        errors.push({
+          path: path + "." + key,
+          message: "expected one of " + expected + ", got " + JSON.stringify(value[key]),
+        });
+        return;
+      }
+      break;
+    }
+  }
+
+  // Members of a different JSON type (array vs object) can't be what was meant
+  const sameType = candidates.filter((branch) => {
+    const type = resolve(branch).type;
+    return type === undefined || [type].flat().some((t) => matchesType(value, t));
+  });
+  if (sameType.length > 0) candidates = sameType;
+
+  let closest: ValidationError[] | null = null;
+  for (const branch of candidates) {
+    const branchErrors: ValidationError[] = [];
+    check(value, branch, path, branchErrors);
+    if (branchErrors.length === 0) return;
+    if (!closest || branchErrors.length < closest.length) closest = branchErrors;
+  }
+  if (closest) errors.push(...closest);
+}
+
+function check(value: unknown, schema: JsonSchema, path: string, errors: ValidationError[]): void {
+  const resolved = resolve(schema);
+
+  if (resolved.type !== undefined) {
+    const types = Array.isArray(resolved.type) ? resolved.type : [resolved.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push({ path, message: "expected " + types.join(" or ") + ", got " + describe(value) });
+      return;
+    }
+  }
+
+  if (resolved.enum && !resolved.enum.includes(value)) {
+    const expected = resolved.enum.map((option) => JSON.stringify(option)).join(", ");
+    errors.push({ path, message: "expected one of " + expected + ", got " + JSON.stringify(value) });
+  }
+
+  for (const part of resolved.allOf ?? []) {
+    check(value, part, path, errors);
+  }
+  if (resolved.anyOf) {
+    checkAnyOf(value, resolved.anyOf, path, errors);
+  }
+
+  if (isObject(value)) {
+    for (const key of resolved.required ?? []) {
+      if (value[key] === undefined) {
+        errors.push({ path: path + "." + key, message: "is required" });
+      }
+    }
+    for (const [key, property] of Object.entries(resolved.properties ?? {})) {
+      if (value[key] !== undefined) {
+        check(value[key], property, path + "." + key, errors);
+      }
+    }
+  }
+
+  if (resolved.items && Array.isArray(value)) {
+    const items = resolved.items;
+    value.forEach((item, i) => check(item, items, path + "[" + i + "]", errors));
+  }
+}
+
+/**
+ * Check a parsed JSON value against a schema definition.
+ * Returns every problem found; an empty array means the value is valid.
+ */
+export function validate(name: DefinitionName, value: unknown, path = "$"): ValidationError[] {
+  const errors: ValidationError[] = [];
+  check(value, { $ref: "#/definitions/" + name }, path, errors);
+  return errors;
+}
+
+/**
+ * One "path: message" line per error, for logs
+ */
+export function formatValidationErrors(errors: ValidationError[]): string {
+  return errors.map((error) => error.path + ": " + error.message).join("\\n");
+}
+`;
+}
+
 generate().catch((err) => {
   console.error("Generation failed:", err);
   process.exit(1);
@@ -0,0 +1,2339 @@
+// This file was generated from schema.json, do not modify it directly.
+// To regenerate: cd schema && bun run generate
+// Source: schema/src/types.ts
+
+export interface ValidationError {
+  path: string; // e.g. "$.steps[2].position.x"
+  message: string;
+}
+
+export type DefinitionName =
+  | "Action"
+  | "BindableField"
+  | "CancelRequest"
+  | "CheckPermissionsRequest"
+  | "CheckPixelStateRequest"
+  | "CheckPixelZoneRequest"
+  | "ClickAction"
+  | "DelayTransition"
+  | "ExecuteClickRequest"
+  | "ExecuteKeypressRequest"
+  | "GetPixelColorRequest"
+  | "HideMagnifierRequest"
+  | "HideRecorderOverlayRequest"
+  | "IPCEvent"
+  | "IPCMessage"
+  | "IPCRequest"
+  | "IPCRequestBody"
+  | "IPCResponse"
+  | "IPCResponseError"
+  | "IPCResponseSuccess"
+  | "IPCResponseSuccess<T>_1"
+  | "IPCResponseSuccess<unknown>"
+  | "IfStep"
+  | "KeyPressedEvent"
+  | "KeypressAction"
+  | "LoopStep"
+  | "MouseClickedEvent"
+  | "OverlayClosedEvent"
+  | "OverlayIconClickedEvent"
+  | "OverlayMovedEvent"
+  | "Partial<Record<BindableField,string>>"
+  | "PermissionStatus"
+  | "PixelColorResult"
+  | "PixelCondition"
+  | "PixelSelectedEvent"
+  | "PixelStateTransition"
+  | "PixelZoneTransition"
+  | "Point"
+  | "RGB"
+  | "Record<string,never>"
+  | "Record<string,string>"
+  | "Rect"
+  | "SampleZoneRequest"
+  | "Scenario"
+  | "ScenarioParameter"
+  | "ScenarioRef"
+  | "SetRecorderStateRequest"
+  | "ShowMagnifierRequest"
+  | "ShowRecorderOverlayRequest"
+  | "Step"
+  | "StepBindings"
+  | "StepBlock"
+  | "T"
+  | "T_1"
+  | "TimeInputCompletedEvent"
+  | "TimeoutPolicy"
+  | "Transition"
+  | "TypeTextAction"
+  | "TypeTextRequest"
+  | "WaitForPixelStateRequest"
+  | "WaitForPixelZoneRequest"
+  | "ZoneSampleResult"
+  | "ZoneSelectedEvent";
+
+interface JsonSchema {
+  $ref?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+}
+
+const definitions: Record<string, JsonSchema> = {
+  "Action": {
+    "anyOf": [
+      {
+        "$ref": "#/definitions/ClickAction"
+      },
+      {
+        "$ref": "#/definitions/KeypressAction"
+      },
+      {
+        "$ref": "#/definitions/TypeTextAction"
+      }
+    ]
+  },
+  "BindableField": {
+    "enum": [
+      "color.b",
+      "color.g",
+      "color.r",
+      "key",
+      "ms",
+      "position.x",
+      "position.y",
+      "text"
+    ],
+    "type": "string"
+  },
+  "CancelRequest": {
+    "properties": {
+      "method": {
+        "enum": [
+          "cancelRequest"
+        ],
+        "type": "string"
+      },
+      "params": {
+        "properties": {
+          "requestId": {
+            "type": "string"
+          }
+        },
+        "required": [
+          "requestId"
+        ],
+        "type": "object"
+      }
+    },
+    "required": [
+      "method",
+      "params"
+    ],
+    "type": "object"
+  },
+  "CheckPermissionsRequest": {
+    "properties": {
+      "method": {
+        "enum": [
+          "checkPermissions"
+        ],
+        "type": "string"
+      }
+    },
+    "required": [
+      "method"
+    ],
+    "type": "object"
+  },
+  "CheckPixelStateRequest": {
+    "properties": {
+      "method": {
+        "enum": [
+          "checkPixelState"
+        ],
+        "type": "string"
+      },
+      "params": {
+        "properties": {
+          "color": {
+            "$ref": "#/definitions/RGB"
+          },
+          "position": {
+            "$ref": "#/definitions/Point"
+          },
+          "threshold": {
+            "type": "number"
+          }
+        },
+        "required": [
+          "color",
+          "position",
+          "threshold"
+        ],
+        "type": "object"
+      }
+    },
+    "required": [
+      "method",
+      "params"
+    ],
+    "type": "object"
+  },
+  "CheckPixelZoneRequest": {
+    "properties": {
+      "method": {
+        "enum": [
+          "checkPixelZone"
+        ],
+        "type": "string"
+      },
+      "params": {
+        "properties": {
+          "color": {
+            "$ref": "#/definitions/RGB"
+          },
+          "rect": {
+            "$ref": "#/definitions/Rect"
+          },
+          "threshold": {
+            "type": "number"
+          }
+        },
+        "required": [
+          "color",
+          "rect",
+          "threshold"
+        ],
+        "type": "object"
+      }
+    },
+    "required": [
+      "method",
+      "params"
+    ],
+    "type": "object"
+  },
+  "ClickAction": {
+    "properties": {
+      "bindings": {
+        "$ref": "#/definitions/Partial<Record<BindableField,string>>"
+      },
+      "button": {
+        "enum": [
+          "left",
+          "right"
+        ],
+        "type": "string"
+      },
+      "position": {
+        "$ref": "#/definitions/Point"
+      },
+      "type": {
+        "enum": [
+          "click"
+        ],
+        "type": "string"
+      }
+    },
+    "required": [
+      "button",
+      "position",
+      "type"
+    ],
+    "type": "object"
+  },
+  "DelayTransition": {
+    "properties": {
+      "bindings": {
+        "$ref": "#/definitions/Partial<Record<BindableField,string>>"
+      },
+      "ms": {
+        "type": "number"
+      },
+      "type": {
+        "enum": [
+          "delay"
+        ],
+        "type": "string"
+      }
+    },
+    "required": [
+      "ms",
+      "type"
+    ],
+    "type": "object"
+  },
+  "ExecuteClickRequest": {
+    "properties": {
+      "method": {
+        "enum": [
+          "executeClick"
+        ],
+        "type": "string"
+      },
+      "params": {
+        "properties": {
+          "button": {
+            "enum": [
+              "left",
+              "right"
+            ],
+            "type": "string"
+          },
+          "position": {
+            "$ref": "#/definitions/Point"
+          }
+        },
+        "required": [
+          "button",
+          "position"
+        ],
+        "type": "object"
+      }
+    },
+    "required": [
+      "method",
+      "params"
+    ],
+    "type": "object"
+  },
+  "ExecuteKeypressRequest": {
+    "properties": {
+      "method": {
+        "enum": [
+          "executeKeypress"
+        ],
+        "type": "string"
+      },
+      "params": {
+        "properties": {
+          "key": {
+            "type": "string"
+          },
+          "modifiers": {
+            "items": {
+              "enum": [
+                "alt",
+                "cmd",
+                "ctrl",
+                "shift"
+              ],
+              "type": "string"
+            },
+            "type": "array"
+          }
+        },
+        "required": [
+          "key",
+          "modifiers"
+        ],
+        "type": "object"
+      }
+    },
+    "required": [
+      "method",
+      "params"
+    ],
+    "type": "object"
+  },
+  "GetPixelColorRequest": {
+    "properties": {
+      "method": {
+        "enum": [
+          "getPixelColor"
+        ],
+        "type": "string"
+      },
+      "params": {
+        "properties": {
+          "position": {
+            "$ref": "#/definitions/Point"
+          }
+        },
+        "required": [
+          "position"
+        ],
+        "type": "object"
+      }
+    },
+    "required": [
+      "method",
+      "params"
+    ],
+    "type": "object"
+  },
+  "HideMagnifierRequest": {
+    "properties": {
+      "method": {
+        "enum": [
+          "hideMagnifier"
+        ],
+        "type": "string"
+      }
+    },
+    "required": [
+      "method"
+    ],
+    "type": "object"
+  },
+  "HideRecorderOverlayRequest": {
+    "properties": {
+      "method": {
+        "enum": [
+          "hideRecorderOverlay"
+        ],
+        "type": "string"
+      }
+    },
+    "required": [
+      "method"
+    ],
+    "type": "object"
+  },
+  "IPCEvent": {
+    "anyOf": [
+      {
+        "$ref": "#/definitions/OverlayIconClickedEvent"
+      },
+      {
+        "$ref": "#/definitions/MouseClickedEvent"
+      },
+      {
+        "$ref": "#/definitions/KeyPressedEvent"
+      },
+      {
+        "$ref": "#/definitions/ZoneSelectedEvent"
+      },
+      {
+        "$ref": "#/definitions/PixelSelectedEvent"
+      },
+      {
+        "$ref": "#/definitions/OverlayMovedEvent"
+      },
+      {
+        "$ref": "#/definitions/OverlayClosedEvent"
+      },
+      {
+        "$ref": "#/definitions/TimeInputCompletedEvent"
+      }
+    ]
+  },
+  "IPCMessage": {
+    "anyOf": [
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/CheckPermissionsRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/ShowRecorderOverlayRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/HideRecorderOverlayRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/SetRecorderStateRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/ShowMagnifierRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/HideMagnifierRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/ExecuteClickRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/ExecuteKeypressRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/TypeTextRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/GetPixelColorRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/CheckPixelStateRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/CheckPixelZoneRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/SampleZoneRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/WaitForPixelStateRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/WaitForPixelZoneRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/CancelRequest"
+          }
+        ]
+      },
+      {
+        "$ref": "#/definitions/IPCResponseError"
+      },
+      {
+        "$ref": "#/definitions/OverlayIconClickedEvent"
+      },
+      {
+        "$ref": "#/definitions/MouseClickedEvent"
+      },
+      {
+        "$ref": "#/definitions/KeyPressedEvent"
+      },
+      {
+        "$ref": "#/definitions/ZoneSelectedEvent"
+      },
+      {
+        "$ref": "#/definitions/PixelSelectedEvent"
+      },
+      {
+        "$ref": "#/definitions/OverlayMovedEvent"
+      },
+      {
+        "$ref": "#/definitions/OverlayClosedEvent"
+      },
+      {
+        "$ref": "#/definitions/TimeInputCompletedEvent"
+      },
+      {
+        "$ref": "#/definitions/IPCResponseSuccess<unknown>"
+      }
+    ]
+  },
+  "IPCRequest": {
+    "anyOf": [
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/CheckPermissionsRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/ShowRecorderOverlayRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/HideRecorderOverlayRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/SetRecorderStateRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/ShowMagnifierRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/HideMagnifierRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/ExecuteClickRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/ExecuteKeypressRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/TypeTextRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/GetPixelColorRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/CheckPixelStateRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/CheckPixelZoneRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/SampleZoneRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/WaitForPixelStateRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/WaitForPixelZoneRequest"
+          }
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "properties": {
+              "id": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "id"
+            ],
+            "type": "object"
+          },
+          {
+            "$ref": "#/definitions/CancelRequest"
+          }
+        ]
+      }
+    ]
+  },
+  "IPCRequestBody": {
+    "anyOf": [
+      {
+        "$ref": "#/definitions/CheckPermissionsRequest"
+      },
+      {
+        "$ref": "#/definitions/ShowRecorderOverlayRequest"
+      },
+      {
+        "$ref": "#/definitions/HideRecorderOverlayRequest"
+      },
+      {
+        "$ref": "#/definitions/SetRecorderStateRequest"
+      },
+      {
+        "$ref": "#/definitions/ShowMagnifierRequest"
+      },
+      {
+        "$ref": "#/definitions/HideMagnifierRequest"
+      },
+      {
+        "$ref": "#/definitions/ExecuteClickRequest"
+      },
+      {
+        "$ref": "#/definitions/ExecuteKeypressRequest"
+      },
+      {
+        "$ref": "#/definitions/TypeTextRequest"
+      },
+      {
+        "$ref": "#/definitions/GetPixelColorRequest"
+      },
+      {
+        "$ref": "#/definitions/CheckPixelStateRequest"
+      },
+      {
+        "$ref": "#/definitions/CheckPixelZoneRequest"
+      },
+      {
+        "$ref": "#/definitions/SampleZoneRequest"
+      },
+      {
+        "$ref": "#/definitions/WaitForPixelStateRequest"
+      },
+      {
+        "$ref": "#/definitions/WaitForPixelZoneRequest"
+      },
+      {
+        "$ref": "#/definitions/CancelRequest"
+      }
+    ]
+  },
+  "IPCResponse": {
+    "anyOf": [
+      {
+        "$ref": "#/definitions/IPCResponseError"
+      },
+      {
+        "$ref": "#/definitions/IPCResponseSuccess<T>_1"
+      }
+    ]
+  },
+  "IPCResponseError": {
+    "properties": {
+      "error": {
+        "type": "string"
+      },
+      "id": {
+        "type": "string"
+      },
+      "success": {
+        "enum": [
+          false
+        ],
+        "type": "boolean"
+      }
+    },
+    "required": [
+      "error",
+      "id",
+      "success"
+    ],
+    "type": "object"
+  },
+  "IPCResponseSuccess": {
+    "properties": {
+      "id": {
+        "type": "string"
+      },
+      "result": {
+        "$ref": "#/definitions/T"
+      },
+      "success": {
+        "enum": [
+          true
+        ],
+        "type": "boolean"
+      }
+    },
+    "required": [
+      "id",
+      "success"
+    ],
+    "type": "object"
+  },
+  "IPCResponseSuccess<T>_1": {
+    "properties": {
+      "id": {
+        "type": "string"
+      },
+      "result": {
+        "$ref": "#/definitions/T_1"
+      },
+      "success": {
+        "enum": [
+          true
+        ],
+        "type": "boolean"
+      }
+    },
+    "required": [
+      "id",
+      "success"
+    ],
+    "type": "object"
+  },
+  "IPCResponseSuccess<unknown>": {
+    "properties": {
+      "id": {
+        "type": "string"
+      },
+      "result": {},
+      "success": {
+        "enum": [
+          true
+        ],
+        "type": "boolean"
+      }
+    },
+    "required": [
+      "id",
+      "success"
+    ],
+    "type": "object"
+  },
+  "IfStep": {
+    "properties": {
+      "condition": {
+        "$ref": "#/definitions/PixelCondition"
+      },
+      "else": {
+        "anyOf": [
+          {
+            "$ref": "#/definitions/ScenarioRef"
+          },
+          {
+            "items": {
+              "$ref": "#/definitions/Step"
+            },
+            "type": "array"
+          }
+        ]
+      },
+      "then": {
+        "$ref": "#/definitions/StepBlock"
+      },
+      "type": {
+        "enum": [
+          "if"
+        ],
+        "type": "string"
+      }
+    },
+    "required": [
+      "condition",
+      "then",
+      "type"
+    ],
+    "type": "object"
+  },
+  "KeyPressedEvent": {
+    "properties": {
+      "data": {
+        "properties": {
+          "key": {
+            "type": "string"
+          },
+          "modifiers": {
+            "items": {
+              "enum": [
+                "alt",
+                "cmd",
+                "ctrl",
+                "shift"
+              ],
+              "type": "string"
+            },
+            "type": "array"
+          }
+        },
+        "required": [
+          "key",
+          "modifiers"
+        ],
+        "type": "object"
+      },
+      "event": {
+        "enum": [
+          "keyPressed"
+        ],
+        "type": "string"
+      }
+    },
+    "required": [
+      "data",
+      "event"
+    ],
+    "type": "object"
+  },
+  "KeypressAction": {
+    "properties": {
+      "bindings": {
+        "$ref": "#/definitions/Partial<Record<BindableField,string>>"
+      },
+      "key": {
+        "type": "string"
+      },
+      "modifiers": {
+        "items": {
+          "enum": [
+            "alt",
+            "cmd",
+            "ctrl",
+            "shift"
+          ],
+          "type": "string"
+        },
+        "type": "array"
+      },
+      "type": {
+        "enum": [
+          "keypress"
+        ],
+        "type": "string"
+      }
+    },
+    "required": [
+      "key",
+      "modifiers",
+      "type"
+    ],
+    "type": "object"
+  },
+  "LoopStep": {
+    "properties": {
+      "body": {
+        "$ref": "#/definitions/StepBlock"
+      },
+      "count": {
+        "type": "number"
+      },
+      "maxIterations": {
+        "type": "number"
+      },
+      "type": {
+        "enum": [
+          "loop"
+        ],
+        "type": "string"
+      },
+      "until": {
+        "anyOf": [
+          {
+            "$ref": "#/definitions/PixelStateTransition"
+          },
+          {
+            "$ref": "#/definitions/PixelZoneTransition"
+          }
+        ]
+      }
+    },
+    "required": [
+      "body",
+      "type"
+    ],
+    "type": "object"
+  },
+  "MouseClickedEvent": {
+    "properties": {
+      "data": {
+        "properties": {
+          "button": {
+            "enum": [
+              "left",
+              "right"
+            ],
+            "type": "string"
+          },
+          "position": {
+            "$ref": "#/definitions/Point"
+          }
+        },
+        "required": [
+          "button",
+          "position"
+        ],
+        "type": "object"
+      },
+      "event": {
+        "enum": [
+          "mouseClicked"
+        ],
+        "type": "string"
+      }
+    },
+    "required": [
+      "data",
+      "event"
+    ],
+    "type": "object"
+  },
+  "OverlayClosedEvent": {
+    "properties": {
+      "data": {
+        "$ref": "#/definitions/Record<string,never>"
+      },
+      "event": {
+        "enum": [
+          "overlayClosed"
+        ],
+        "type": "string"
+      }
+    },
+    "required": [
+      "data",
+      "event"
+    ],
+    "type": "object"
+  },
+  "OverlayIconClickedEvent": {
+    "properties": {
+      "data": {
+        "properties": {
+          "icon": {
+            "enum": [
+              "action",
+              "keyboard",
+              "mouse",
+              "time",
+              "transition"
+            ],
+            "type": "string"
+          }
+        },
+        "required": [
+          "icon"
+        ],
+        "type": "object"
+      },
+      "event": {
+        "enum": [
+          "overlayIconClicked"
+        ],
+        "type": "string"
+      }
+    },
+    "required": [
+      "data",
+      "event"
+    ],
+    "type": "object"
+  },
+  "OverlayMovedEvent": {
+    "properties": {
+      "data": {
+        "properties": {
+          "position": {
+            "$ref": "#/definitions/Point"
+          }
+        },
+        "required": [
+          "position"
+        ],
+        "type": "object"
+      },
+      "event": {
+        "enum": [
+          "overlayMoved"
+        ],
+        "type": "string"
+      }
+    },
+    "required": [
+      "data",
+      "event"
+    ],
+    "type": "object"
+  },
+  "Partial<Record<BindableField,string>>": {
+    "properties": {
+      "color.b": {
+        "type": "string"
+      },
+      "color.g": {
+        "type": "string"
+      },
+      "color.r": {
+        "type": "string"
+      },
+      "key": {
+        "type": "string"
+      },
+      "ms": {
+        "type": "string"
+      },
+      "position.x": {
+        "type": "string"
+      },
+      "position.y": {
+        "type": "string"
+      },
+      "text": {
+        "type": "string"
+      }
+    },
+    "type": "object"
+  },
+  "PermissionStatus": {
+    "properties": {
+      "accessibility": {
+        "type": "boolean"
+      },
+      "screenRecording": {
+        "type": "boolean"
+      }
+    },
+    "required": [
+      "accessibility",
+      "screenRecording"
+    ],
+    "type": "object"
+  },
+  "PixelColorResult": {
+    "properties": {
+      "color": {
+        "$ref": "#/definitions/RGB"
+      }
+    },
+    "required": [
+      "color"
+    ],
+    "type": "object"
+  },
+  "PixelCondition": {
+    "anyOf": [
+      {
+        "$ref": "#/definitions/PixelStateTransition"
+      },
+      {
+        "$ref": "#/definitions/PixelZoneTransition"
+      }
+    ]
+  },
+  "PixelSelectedEvent": {
+    "properties": {
+      "data": {
+        "properties": {
+          "color": {
+            "$ref": "#/definitions/RGB"
+          },
+          "position": {
+            "$ref": "#/definitions/Point"
+          }
+        },
+        "required": [
+          "color",
+          "position"
+        ],
+        "type": "object"
+      },
+      "event": {
+        "enum": [
+          "pixelSelected"
+        ],
+        "type": "string"
+      }
+    },
+    "required": [
+      "data",
+      "event"
+    ],
+    "type": "object"
+  },
+  "PixelStateTransition": {
+    "properties": {
+      "bindings": {
+        "$ref": "#/definitions/Partial<Record<BindableField,string>>"
+      },
+      "color": {
+        "$ref": "#/definitions/RGB"
+      },
+      "onTimeout": {
+        "anyOf": [
+          {
+            "properties": {
+              "goto": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "goto"
+            ],
+            "type": "object"
+          },
+          {
+            "enum": [
+              "fail",
+              "retry",
+              "skip"
+            ],
+            "type": "string"
+          }
+        ]
+      },
+      "position": {
+        "$ref": "#/definitions/Point"
+      },
+      "threshold": {
+        "type": "number"
+      },
+      "timeoutMs": {
+        "type": "number"
+      },
+      "type": {
+        "enum": [
+          "pixel-state"
+        ],
+        "type": "string"
+      }
+    },
+    "required": [
+      "color",
+      "position",
+      "threshold",
+      "type"
+    ],
+    "type": "object"
+  },
+  "PixelZoneTransition": {
+    "properties": {
+      "bindings": {
+        "$ref": "#/definitions/Partial<Record<BindableField,string>>"
+      },
+      "color": {
+        "$ref": "#/definitions/RGB"
+      },
+      "onTimeout": {
+        "anyOf": [
+          {
+            "properties": {
+              "goto": {
+                "type": "string"
+              }
+            },
+            "required": [
+              "goto"
+            ],
+            "type": "object"
+          },
+          {
+            "enum": [
+              "fail",
+              "retry",
+              "skip"
+            ],
+            "type": "string"
+          }
+        ]
+      },
+      "rect": {
+        "$ref": "#/definitions/Rect"
+      },
+      "threshold": {
+        "type": "number"
+      },
+      "timeoutMs": {
+        "type": "number"
+      },
+      "type": {
+        "enum": [
+          "pixel-zone"
+        ],
+        "type": "string"
+      }
+    },
+    "required": [
+      "color",
+      "rect",
+      "threshold",
+      "type"
+    ],
+    "type": "object"
+  },
+  "Point": {
+    "properties": {
+      "x": {
+        "type": "number"
+      },
+      "y": {
+        "type": "number"
+      }
+    },
+    "required": [
+      "x",
+      "y"
+    ],
+    "type": "object"
+  },
+  "RGB": {
+    "properties": {
+      "b": {
+        "type": "number"
+      },
+      "g": {
+        "type": "number"
+      },
+      "r": {
+        "type": "number"
+      }
+    },
+    "required": [
+      "b",
+      "g",
+      "r"
+    ],
+    "type": "object"
+  },
+  "Record<string,never>": {
+    "type": "object"
+  },
+  "Record<string,string>": {
+    "type": "object"
+  },
+  "Rect": {
+    "properties": {
+      "height": {
+        "type": "number"
+      },
+      "width": {
+        "type": "number"
+      },
+      "x": {
+        "type": "number"
+      },
+      "y": {
+        "type": "number"
+      }
+    },
+    "required": [
+      "height",
+      "width",
+      "x",
+      "y"
+    ],
+    "type": "object"
+  },
+  "SampleZoneRequest": {
+    "properties": {
+      "method": {
+        "enum": [
+          "sampleZone"
+        ],
+        "type": "string"
+      },
+      "params": {
+        "properties": {
+          "color": {
+            "$ref": "#/definitions/RGB"
+          },
+          "rect": {
+            "$ref": "#/definitions/Rect"
+          }
+        },
+        "required": [
+          "color",
+          "rect"
+        ],
+        "type": "object"
+      }
+    },
+    "required": [
+      "method",
+      "params"
+    ],
+    "type": "object"
+  },
+  "Scenario": {
+    "properties": {
+      "breakpoints": {
+        "items": {
+          "type": "number"
+        },
+        "type": "array"
+      },
+      "createdAt": {
+        "type": "number"
+      },
+      "id": {
+        "type": "string"
+      },
+      "lastUsedAt": {
+        "type": "number"
+      },
+      "name": {
+        "type": "string"
+      },
+      "parameters": {
+        "items": {
+          "$ref": "#/definitions/ScenarioParameter"
+        },
+        "type": "array"
+      },
+      "steps": {
+        "items": {
+          "$ref": "#/definitions/Step"
+        },
+        "type": "array"
+      }
+    },
+    "required": [
+      "createdAt",
+      "id",
+      "lastUsedAt",
+      "name",
+      "steps"
+    ],
+    "type": "object"
+  },
+  "ScenarioParameter": {
+    "properties": {
+      "default": {
+        "type": "string"
+      },
+      "name": {
+        "type": "string"
+      }
+    },
+    "required": [
+      "name"
+    ],
+    "type": "object"
+  },
+  "ScenarioRef": {
+    "properties": {
+      "args": {
+        "$ref": "#/definitions/Record<string,string>"
+      },
+      "scenarioId": {
+        "type": "string"
+      },
+      "type": {
+        "enum": [
+          "scenario-ref"
+        ],
+        "type": "string"
+      }
+    },
+    "required": [
+      "scenarioId",
+      "type"
+    ],
+    "type": "object"
+  },
+  "SetRecorderStateRequest": {
+    "properties": {
+      "method": {
+        "enum": [
+          "setRecorderState"
+        ],
+        "type": "string"
+      },
+      "params": {
+        "properties": {
+          "state": {
+            "enum": [
+              "action",
+              "idle",
+              "transition"
+            ],
+            "type": "string"
+          },
+          "subState": {
+            "enum": [
+              "keyboard",
+              "mouse",
+              "pixel",
+              "time"
+            ],
+            "type": "string"
+          }
+        },
+        "required": [
+          "state"
+        ],
+        "type": "object"
+      }
+    },
+    "required": [
+      "method",
+      "params"
+    ],
+    "type": "object"
+  },
+  "ShowMagnifierRequest": {
+    "properties": {
+      "method": {
+        "enum": [
+          "showMagnifier"
+        ],
+        "type": "string"
+      }
+    },
+    "required": [
+      "method"
+    ],
+    "type": "object"
+  },
+  "ShowRecorderOverlayRequest": {
+    "properties": {
+      "method": {
+        "enum": [
+          "showRecorderOverlay"
+        ],
+        "type": "string"
+      },
+      "params": {
+        "properties": {
+          "position": {
+            "$ref": "#/definitions/Point"
+          }
+        },
+        "type": "object"
+      }
+    },
+    "required": [
+      "method",
+      "params"
+    ],
+    "type": "object"
+  },
+  "Step": {
+    "anyOf": [
+      {
+        "$ref": "#/definitions/ClickAction"
+      },
+      {
+        "$ref": "#/definitions/KeypressAction"
+      },
+      {
+        "$ref": "#/definitions/TypeTextAction"
+      },
+      {
+        "$ref": "#/definitions/DelayTransition"
+      },
+      {
+        "$ref": "#/definitions/PixelStateTransition"
+      },
+      {
+        "$ref": "#/definitions/PixelZoneTransition"
+      },
+      {
+        "$ref": "#/definitions/ScenarioRef"
+      },
+      {
+        "$ref": "#/definitions/LoopStep"
+      },
+      {
+        "$ref": "#/definitions/IfStep"
+      }
+    ]
+  },
+  "StepBindings": {
+    "properties": {
+      "color.b": {
+        "type": "string"
+      },
+      "color.g": {
+        "type": "string"
+      },
+      "color.r": {
+        "type": "string"
+      },
+      "key": {
+        "type": "string"
+      },
+      "ms": {
+        "type": "string"
+      },
+      "position.x": {
+        "type": "string"
+      },
+      "position.y": {
+        "type": "string"
+      },
+      "text": {
+        "type": "string"
+      }
+    },
+    "type": "object"
+  },
+  "StepBlock": {
+    "anyOf": [
+      {
+        "$ref": "#/definitions/ScenarioRef"
+      },
+      {
+        "items": {
+          "$ref": "#/definitions/Step"
+        },
+        "type": "array"
+      }
+    ]
+  },
+  "T": {},
+  "T_1": {},
+  "TimeInputCompletedEvent": {
+    "properties": {
+      "data": {
+        "properties": {
+          "ms": {
+            "type": "number"
+          }
+        },
+        "required": [
+          "ms"
+        ],
+        "type": "object"
+      },
+      "event": {
+        "enum": [
+          "timeInputCompleted"
+        ],
+        "type": "string"
+      }
+    },
+    "required": [
+      "data",
+      "event"
+    ],
+    "type": "object"
+  },
+  "TimeoutPolicy": {
+    "anyOf": [
+      {
+        "properties": {
+          "goto": {
+            "type": "string"
+          }
+        },
+        "required": [
+          "goto"
+        ],
+        "type": "object"
+      },
+      {
+        "enum": [
+          "fail",
+          "retry",
+          "skip"
+        ],
+        "type": "string"
+      }
+    ]
+  },
+  "Transition": {
+    "anyOf": [
+      {
+        "$ref": "#/definitions/DelayTransition"
+      },
+      {
+        "$ref": "#/definitions/PixelStateTransition"
+      },
+      {
+        "$ref": "#/definitions/PixelZoneTransition"
+      }
+    ]
+  },
+  "TypeTextAction": {
+    "properties": {
+      "bindings": {
+        "$ref": "#/definitions/Partial<Record<BindableField,string>>"
+      },
+      "charDelayMs": {
+        "type": "number"
+      },
+      "text": {
+        "type": "string"
+      },
+      "type": {
+        "enum": [
+          "type-text"
+        ],
+        "type": "string"
+      }
+    },
+    "required": [
+      "text",
+      "type"
+    ],
+    "type": "object"
+  },
+  "TypeTextRequest": {
+    "properties": {
+      "method": {
+        "enum": [
+          "typeText"
+        ],
+        "type": "string"
+      },
+      "params": {
+        "properties": {
+          "charDelayMs": {
+            "type": "number"
+          },
+          "text": {
+            "type": "string"
+          }
+        },
+        "required": [
+          "text"
+        ],
+        "type": "object"
+      }
+    },
+    "required": [
+      "method",
+      "params"
+    ],
+    "type": "object"
+  },
+  "WaitForPixelStateRequest": {
+    "properties": {
+      "method": {
+        "enum": [
+          "waitForPixelState"
+        ],
+        "type": "string"
+      },
+      "params": {
+        "properties": {
+          "color": {
+            "$ref": "#/definitions/RGB"
+          },
+          "position": {
+            "$ref": "#/definitions/Point"
+          },
+          "threshold": {
+            "type": "number"
+          },
+          "timeoutMs": {
+            "type": "number"
+          }
+        },
+        "required": [
+          "color",
+          "position",
+          "threshold"
+        ],
+        "type": "object"
+      }
+    },
+    "required": [
+      "method",
+      "params"
+    ],
+    "type": "object"
+  },
+  "WaitForPixelZoneRequest": {
+    "properties": {
+      "method": {
+        "enum": [
+          "waitForPixelZone"
+        ],
+        "type": "string"
+      },
+      "params": {
+        "properties": {
+          "color": {
+            "$ref": "#/definitions/RGB"
+          },
+          "rect": {
+            "$ref": "#/definitions/Rect"
+          },
+          "threshold": {
+            "type": "number"
+          },
+          "timeoutMs": {
+            "type": "number"
+          }
+        },
+        "required": [
+          "color",
+          "rect",
+          "threshold"
+        ],
+        "type": "object"
+      }
+    },
+    "required": [
+      "method",
+      "params"
+    ],
+    "type": "object"
+  },
+  "ZoneSampleResult": {
+    "properties": {
+      "color": {
+        "$ref": "#/definitions/RGB"
+      },
+      "distance": {
+        "type": "number"
+      },
+      "position": {
+        "$ref": "#/definitions/Point"
+      }
+    },
+    "required": [
+      "color",
+      "distance",
+      "position"
+    ],
+    "type": "object"
+  },
+  "ZoneSelectedEvent": {
+    "properties": {
+      "data": {
+        "properties": {
+          "rect": {
+            "$ref": "#/definitions/Rect"
+          }
+        },
+        "required": [
+          "rect"
+        ],
+        "type": "object"
+      },
+      "event": {
+        "enum": [
+          "zoneSelected"
+        ],
+        "type": "string"
+      }
+    },
+    "required": [
+      "data",
+      "event"
+    ],
+    "type": "object"
+  }
+};
+
+// Properties that tell union members apart (Step.type, request method, event name)
+const DISCRIMINATORS = ["type", "method", "event"];
+
+function resolve(schema: JsonSchema): JsonSchema {
+  let current = schema;
+  while (current.$ref !== undefined) {
+    const target = definitions[current.$ref.replace("#/definitions/", "")];
+    if (!target) throw new Error("Unknown schema reference: " + current.$ref);
+    current = target;
+  }
+  return current;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = describe(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+/**
+ * The single allowed value of a property, if the schema pins one
+ */
+function constantOf(schema: JsonSchema, key: string): unknown {
+  const resolved = resolve(schema);
+  const values = resolved.properties?.[key]?.enum;
+  if (values?.length === 1) return values[0];
+  for (const part of resolved.allOf ?? []) {
+    const value = constantOf(part, key);
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+function checkAnyOf(value: unknown, branches: JsonSchema[], path: string, errors: ValidationError[]): void {
+  let candidates = branches;
+
+  // Pick the member by its tag so errors point inside it, not at every member
+  if (isObject(value)) {
+    for (const key of DISCRIMINATORS) {
+      const tags = branches.map((branch) => constantOf(branch, key));
+      if (tags.some((tag) => tag === undefined)) continue;
+      candidates = branches.filter((_, i) => tags[i] === value[key]);
+      if (candidates.length === 0) {
+        const expected = [...new Set(tags)].map((tag) => JSON.stringify(tag)).join(", ");
+        errors.push({
+          path: path + "." + key,
+          message: "expected one of " + expected + ", got " + JSON.stringify(value[key]),
+        });
+        return;
+      }
+      break;
+    }
+  }
+
+  // Members of a different JSON type (array vs object) can't be what was meant
+  const sameType = candidates.filter((branch) => {
+    const type = resolve(branch).type;
+    return type === undefined || [type].flat().some((t) => matchesType(value, t));
+  });
+  if (sameType.length > 0) candidates = sameType;
+
+  let closest: ValidationError[] | null = null;
+  for (const branch of candidates) {
+    const branchErrors: ValidationError[] = [];
+    check(value, branch, path, branchErrors);
+    if (branchErrors.length === 0) return;
+    if (!closest || branchErrors.length < closest.length) closest = branchErrors;
+  }
+  if (closest) errors.push(...closest);
+}
+
+function check(value: unknown, schema: JsonSchema, path: string, errors: ValidationError[]): void {
+  const resolved = resolve(schema);
+
+  if (resolved.type !== undefined) {
+    const types = Array.isArray(resolved.type) ? resolved.type : [resolved.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push({ path, message: "expected " + types.join(" or ") + ", got " + describe(value) });
+      return;
+    }
+  }
+
+  if (resolved.enum && !resolved.enum.includes(value)) {
+    const expected = resolved.enum.map((option) => JSON.stringify(option)).join(", ");
+    errors.push({ path, message: "expected one of " + expected + ", got " + JSON.stringify(value) });
+  }
+
+  for (const part of resolved.allOf ?? []) {
+    check(value, part, path, errors);
+  }
+  if (resolved.anyOf) {
+    checkAnyOf(value, resolved.anyOf, path, errors);
+  }
+
+  if (isObject(value)) {
+    for (const key of resolved.required ?? []) {
+      if (value[key] === undefined) {
+        errors.push({ path: path + "." + key, message: "is required" });
+      }
+    }
+    for (const [key, property] of Object.entries(resolved.properties ?? {})) {
+      if (value[key] !== undefined) {
+        check(value[key], property, path + "." + key, errors);
+      }
+    }
+  }
+
+  if (resolved.items && Array.isArray(value)) {
+    const items = resolved.items;
+    value.forEach((item, i) => check(item, items, path + "[" + i + "]", errors));
+  }
+}
+
+/**
+ * Check a parsed JSON value against a schema definition.
+ * Returns every problem found; an empty array means the value is valid.
+ */
+export function validate(name: DefinitionName, value: unknown, path = "$"): ValidationError[] {
+  const errors: ValidationError[] = [];
+  check(value, { $ref: "#/definitions/" + name }, path, errors);
+  return errors;
+}
+
+/**
+ * One "path: message" line per error, for logs
+ */
+export function formatValidationErrors(errors: ValidationError[]): string {
+  return errors.map((error) => error.path + ": " + error.message).join("\n");
+}
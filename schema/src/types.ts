@@ -22,34 +22,74 @@ export interface Rect {
   height: number;
 }
 
+// ============ PARAMETERS ============
+
+// Step fields that can take their value from a scenario parameter
+export type BindableField =
+  | "position.x"
+  | "position.y"
+  | "key"
+  | "text"
+  | "ms"
+  | "color.r"
+  | "color.g"
+  | "color.b";
+
+// Templates like "${x}" or "${prefix}-a", resolved when the step runs.
+// The concrete field value is kept alongside for display and as a fallback.
+export type StepBindings = Partial<Record<BindableField, string>>;
+
+export interface ScenarioParameter {
+  name: string;
+  default?: string; // A run fails if no value is passed and there is no default
+}
+
 // ============ ACTIONS ============
 
 export interface ClickAction {
   type: "click";
   position: Point;
   button: "left" | "right";
+  bindings?: StepBindings;
 }
 
 export interface KeypressAction {
   type: "keypress";
   key: string;
   modifiers: ("ctrl" | "alt" | "shift" | "cmd")[];
+  bindings?: StepBindings;
 }
 
-export type Action = ClickAction | KeypressAction;
+// Types a string; the helper presses shift for uppercase letters and symbols
+export interface TypeTextAction {
+  type: "type-text";
+  text: string;
+  charDelayMs?: number; // Pause between characters (none if omitted)
+  bindings?: StepBindings;
+}
+
+export type Action = ClickAction | KeypressAction | TypeTextAction;
 
 // ============ TRANSITIONS ============
 
 export interface DelayTransition {
   type: "delay";
   ms: number;
+  bindings?: StepBindings;
 }
 
+// What to do when a pixel wait times out
+// "retry" waits again a few times before failing, goto jumps to another scenario
+export type TimeoutPolicy = "fail" | "skip" | "retry" | { goto: string };
+
 export interface PixelStateTransition {
   type: "pixel-state";
   position: Point;
   color: RGB;
   threshold: number; // Euclidean RGB distance (0-441)
+  timeoutMs?: number; // Waits indefinitely if omitted
+  onTimeout?: TimeoutPolicy; // Defaults to "fail"
+  bindings?: StepBindings;
 }
 
 export interface PixelZoneTransition {
@@ -57,6 +97,9 @@ export interface PixelZoneTransition {
   rect: Rect;
   color: RGB;
   threshold: number;
+  timeoutMs?: number;
+  onTimeout?: TimeoutPolicy;
+  bindings?: StepBindings;
 }
 
 export type Transition =
@@ -64,14 +107,38 @@ export type Transition =
   | PixelStateTransition
   | PixelZoneTransition;
 
+// One-shot pixel checks reuse the transition shapes
+export type PixelCondition = PixelStateTransition | PixelZoneTransition;
+
 // ============ SCENARIO ============
 
 export interface ScenarioRef {
   type: "scenario-ref";
   scenarioId: string;
+  args?: Record<string, string>; // Parameter values, templates resolved in the caller
 }
 
-export type Step = Action | Transition | ScenarioRef;
+// ============ CONTROL FLOW ============
+
+// A nested block is either inline steps or a reference to another scenario
+export type StepBlock = Step[] | ScenarioRef;
+
+export interface LoopStep {
+  type: "loop";
+  body: StepBlock;
+  count?: number; // Run exactly this many iterations
+  until?: PixelCondition; // Stop once this matches (checked after each iteration)
+  maxIterations?: number; // Safety cap (defaults to 1000)
+}
+
+export interface IfStep {
+  type: "if";
+  condition: PixelCondition; // Checked once, without waiting
+  then: StepBlock;
+  else?: StepBlock;
+}
+
+export type Step = Action | Transition | ScenarioRef | LoopStep | IfStep;
 
 export interface Scenario {
   id: string;
@@ -79,6 +146,8 @@ export interface Scenario {
   steps: Step[];
   createdAt: number; // Unix timestamp ms
   lastUsedAt: number; // Unix timestamp ms
+  breakpoints?: number[]; // Indices of steps to pause before when debugging
+  parameters?: ScenarioParameter[];
 }
 
 // ============ IPC REQUESTS (Controller -> Swift) ============
@@ -128,11 +197,46 @@ export interface ExecuteKeypressRequest {
   };
 }
 
+export interface TypeTextRequest {
+  method: "typeText";
+  params: {
+    text: string;
+    charDelayMs?: number;
+  };
+}
+
 export interface GetPixelColorRequest {
   method: "getPixelColor";
   params: { position: Point };
 }
 
+export interface CheckPixelStateRequest {
+  method: "checkPixelState";
+  params: {
+    position: Point;
+    color: RGB;
+    threshold: number;
+  };
+}
+
+export interface CheckPixelZoneRequest {
+  method: "checkPixelZone";
+  params: {
+    rect: Rect;
+    color: RGB;
+    threshold: number;
+  };
+}
+
+// Finds the pixel in a zone closest to a color (for testing thresholds)
+export interface SampleZoneRequest {
+  method: "sampleZone";
+  params: {
+    rect: Rect;
+    color: RGB;
+  };
+}
+
 export interface WaitForPixelStateRequest {
   method: "waitForPixelState";
   params: {
@@ -153,6 +257,12 @@ export interface WaitForPixelZoneRequest {
   };
 }
 
+// Cancels an in-flight request (e.g. a pending pixel wait)
+export interface CancelRequest {
+  method: "cancelRequest";
+  params: { requestId: string };
+}
+
 // Union of all request bodies
 export type IPCRequestBody =
   | CheckPermissionsRequest
@@ -163,9 +273,14 @@ export type IPCRequestBody =
   | HideMagnifierRequest
   | ExecuteClickRequest
   | ExecuteKeypressRequest
+  | TypeTextRequest
   | GetPixelColorRequest
+  | CheckPixelStateRequest
+  | CheckPixelZoneRequest
+  | SampleZoneRequest
   | WaitForPixelStateRequest
-  | WaitForPixelZoneRequest;
+  | WaitForPixelZoneRequest
+  | CancelRequest;
 
 // Full request with ID
 export type IPCRequest = { id: string } & IPCRequestBody;
@@ -175,7 +290,7 @@ export type IPCRequest = { id: string } & IPCRequestBody;
 export interface IPCResponseSuccess<T = unknown> {
   id: string;
   success: true;
-  result: T;
+  result?: T; // Omitted by requests that return nothing
 }
 
 export interface IPCResponseError {
@@ -196,6 +311,12 @@ export interface PixelColorResult {
   color: RGB;
 }
 
+export interface ZoneSampleResult {
+  position: Point; // Closest matching pixel
+  color: RGB;
+  distance: number; // Euclidean RGB distance to the requested color
+}
+
 // ============ IPC EVENTS (Swift -> Controller, unsolicited) ============
 
 export interface OverlayIconClickedEvent {
@@ -41,8 +41,64 @@ actor KeyboardController {
         }
     }
     
+    /// Type a string one character at a time, holding shift where a US layout needs it
+    /// - Parameters:
+    ///   - text: The text to type; characters without a key (accents, emoji) are sent as Unicode input
+    ///   - charDelayMs: Optional pause between characters
+    func typeText(_ text: String, charDelayMs: Double?) async throws {
+        for (index, char) in text.enumerated() {
+            try Task.checkCancellation()
+            if index > 0, let delay = charDelayMs, delay > 0 {
+                try await Task.sleep(nanoseconds: UInt64(delay * 1_000_000))
+            }
+            
+            if let keystroke = keystrokeFor(char) {
+                try press(key: keystroke.key, modifiers: keystroke.shift ? [.shift] : [])
+            } else {
+                try postUnicode(char)
+            }
+        }
+    }
+    
     // MARK: - Private Helpers
     
+    /// Key name and shift state that produce a character on a US layout
+    private func keystrokeFor(_ char: Character) -> (key: String, shift: Bool)? {
+        switch char {
+        case " ":
+            return ("space", false)
+        case "\n", "\r", "\r\n":
+            return ("return", false)
+        case "\t":
+            return ("tab", false)
+        default:
+            break
+        }
+        
+        if let base = shiftedCharacters[char] {
+            return (base, true)
+        }
+        if char.isASCII && char.isLetter {
+            return (char.lowercased(), char.isUppercase)
+        }
+        if keyCodeMap[String(char)] != nil {
+            return (String(char), false)
+        }
+        return nil
+    }
+    
+    /// Send a character that has no key of its own as Unicode input
+    private func postUnicode(_ char: Character) throws {
+        let utf16 = Array(String(char).utf16)
+        for down in [true, false] {
+            guard let event = CGEvent(keyboardEventSource: nil, virtualKey: 0, keyDown: down) else {
+                throw KeyboardError.failedToCreateEvent
+            }
+            event.keyboardSetUnicodeString(stringLength: utf16.count, unicodeString: utf16)
+            event.post(tap: .cghidEventTap)
+        }
+    }
+    
     private func pressKey(keyCode: CGKeyCode, modifierFlags: CGEventFlags, down: Bool) throws {
         guard let event = CGEvent(keyboardEventSource: nil, virtualKey: keyCode, keyDown: down) else {
             throw KeyboardError.failedToCreateEvent
@@ -133,6 +189,15 @@ actor KeyboardController {
         return nil
     }
     
+    /// Characters typed with shift on a US layout, mapped to the key that produces them
+    private let shiftedCharacters: [Character: String] = [
+        "!": "1", "@": "2", "#": "3", "$": "4", "%": "5",
+        "^": "6", "&": "7", "*": "8", "(": "9", ")": "0",
+        "_": "-", "+": "=", "{": "[", "}": "]", "|": "\\",
+        ":": ";", "\"": "'", "<": ",", ">": ".", "?": "/",
+        "~": "`",
+    ]
+    
     /// macOS virtual key code mapping
     /// Reference: Carbon/Events.h (kVK_* constants)
     private let keyCodeMap: [String: CGKeyCode] = [
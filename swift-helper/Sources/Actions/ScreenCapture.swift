@@ -30,9 +30,6 @@ actor ScreenCapture {
     /// Default polling interval for wait operations (milliseconds)
     private let defaultPollingInterval: UInt64 = 50
     
-    /// Default timeout for wait operations (milliseconds)
-    private let defaultTimeout: Double = 30000
-    
     // MARK: - Public API
     
     /// Get the color of a single pixel at the specified position
@@ -93,12 +90,43 @@ actor ScreenCapture {
         return try scanImageForColor(image, expectedColor: expectedColor, threshold: threshold)
     }
     
+    /// Find the pixel in a rectangle closest to the expected color
+    /// - Parameters:
+    ///   - rect: Rectangle to scan (top-left origin)
+    ///   - expectedColor: Target RGB color
+    /// - Returns: Position, color and distance of the closest pixel
+    func sampleZone(rect: Rect, expectedColor: RGB) throws -> ZoneSampleResult {
+        let cgRect = CGRect(x: rect.x, y: rect.y, width: rect.width, height: rect.height)
+        
+        guard let image = CGDisplayCreateImage(CGMainDisplayID(), rect: cgRect) else {
+            throw ScreenError.failedToCapture
+        }
+        
+        var closest: ZoneSampleResult?
+        try forEachPixel(in: image) { x, y, color in
+            let distance = colorDistance(color, expectedColor)
+            if closest == nil || distance < closest!.distance {
+                closest = ZoneSampleResult(
+                    position: Point(x: rect.x + Double(x), y: rect.y + Double(y)),
+                    color: color,
+                    distance: distance
+                )
+            }
+            return distance > 0 // Stop at an exact match
+        }
+        
+        guard let result = closest else {
+            throw ScreenError.failedToGetPixelData
+        }
+        return result
+    }
+    
     /// Wait until a pixel matches the expected color
     /// - Parameters:
     ///   - point: Screen coordinates
     ///   - expectedColor: Target RGB color
     ///   - threshold: Maximum Euclidean distance
-    ///   - timeoutMs: Maximum wait time in milliseconds (nil = default 30s)
+    ///   - timeoutMs: Maximum wait time in milliseconds (nil = wait indefinitely)
     /// - Returns: true if condition was met, false if timed out
     func waitForPixelState(
         at point: Point,
@@ -106,7 +134,6 @@ actor ScreenCapture {
         threshold: Double,
         timeoutMs: Double?
     ) async throws -> Bool {
-        let timeout = timeoutMs ?? defaultTimeout
         let startTime = Date()
         
         while true {
@@ -117,7 +144,7 @@ actor ScreenCapture {
             
             // Check timeout
             let elapsed = Date().timeIntervalSince(startTime) * 1000
-            if elapsed >= timeout {
+            if let timeoutMs, elapsed >= timeoutMs {
                 return false
             }
             
@@ -131,7 +158,7 @@ actor ScreenCapture {
     ///   - rect: Rectangle to scan
     ///   - expectedColor: Target RGB color
     ///   - threshold: Maximum Euclidean distance
-    ///   - timeoutMs: Maximum wait time in milliseconds (nil = default 30s)
+    ///   - timeoutMs: Maximum wait time in milliseconds (nil = wait indefinitely)
     /// - Returns: true if condition was met, false if timed out
     func waitForPixelZone(
         rect: Rect,
@@ -139,7 +166,6 @@ actor ScreenCapture {
         threshold: Double,
         timeoutMs: Double?
     ) async throws -> Bool {
-        let timeout = timeoutMs ?? defaultTimeout
         let startTime = Date()
         
         while true {
@@ -150,7 +176,7 @@ actor ScreenCapture {
             
             // Check timeout
             let elapsed = Date().timeIntervalSince(startTime) * 1000
-            if elapsed >= timeout {
+            if let timeoutMs, elapsed >= timeoutMs {
                 return false
             }
             
@@ -190,40 +216,43 @@ actor ScreenCapture {
         return sqrt(dr * dr + dg * dg + db * db)
     }
     
-    /// Scan an image for a pixel matching the expected color
-    private func scanImageForColor(_ image: CGImage, expectedColor: RGB, threshold: Double) throws -> Bool {
+    /// Visit pixels of an image row by row until the visitor returns false
+    private func forEachPixel(in image: CGImage, _ visit: (Int, Int, RGB) -> Bool) throws {
         guard let dataProvider = image.dataProvider,
               let data = dataProvider.data,
               let bytes = CFDataGetBytePtr(data) else {
             throw ScreenError.failedToGetPixelData
         }
         
-        let width = image.width
-        let height = image.height
         let bytesPerPixel = image.bitsPerPixel / 8
         let bytesPerRow = image.bytesPerRow
-        
         let isAlphaFirst = image.alphaInfo == .premultipliedFirst || 
                            image.alphaInfo == .first || 
                            image.alphaInfo == .noneSkipFirst
         
-        for y in 0..<height {
-            for x in 0..<width {
+        for y in 0..<image.height {
+            for x in 0..<image.width {
                 let offset = y * bytesPerRow + x * bytesPerPixel
-                
                 let color: RGB
                 if isAlphaFirst {
                     color = RGB(r: Int(bytes[offset + 1]), g: Int(bytes[offset + 2]), b: Int(bytes[offset + 3]))
                 } else {
                     color = RGB(r: Int(bytes[offset]), g: Int(bytes[offset + 1]), b: Int(bytes[offset + 2]))
                 }
-                
-                if colorDistance(color, expectedColor) <= threshold {
-                    return true
+                if !visit(x, y, color) {
+                    return
                 }
             }
         }
-        
-        return false
+    }
+    
+    /// Scan an image for a pixel matching the expected color
+    private func scanImageForColor(_ image: CGImage, expectedColor: RGB, threshold: Double) throws -> Bool {
+        var found = false
+        try forEachPixel(in: image) { _, _, color in
+            found = colorDistance(color, expectedColor) <= threshold
+            return !found
+        }
+        return found
     }
 }
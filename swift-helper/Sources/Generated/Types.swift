@@ -46,11 +46,13 @@ struct ClickAction: Codable, Equatable {
     let type: String
     let position: Point
     let button: MouseButton
+    let bindings: [String: String]?
 
-    init(position: Point, button: MouseButton) {
+    init(position: Point, button: MouseButton, bindings: [String: String]? = nil) {
         self.type = "click"
         self.position = position
         self.button = button
+        self.bindings = bindings
     }
 }
 
@@ -58,11 +60,27 @@ struct KeypressAction: Codable, Equatable {
     let type: String
     let key: String
     let modifiers: [KeyModifier]
+    let bindings: [String: String]?
 
-    init(key: String, modifiers: [KeyModifier]) {
+    init(key: String, modifiers: [KeyModifier], bindings: [String: String]? = nil) {
         self.type = "keypress"
         self.key = key
         self.modifiers = modifiers
+        self.bindings = bindings
+    }
+}
+
+struct TypeTextAction: Codable, Equatable {
+    let type: String
+    let text: String
+    let charDelayMs: Double?
+    let bindings: [String: String]?
+
+    init(text: String, charDelayMs: Double? = nil, bindings: [String: String]? = nil) {
+        self.type = "type-text"
+        self.text = text
+        self.charDelayMs = charDelayMs
+        self.bindings = bindings
     }
 }
 
@@ -71,10 +89,58 @@ struct KeypressAction: Codable, Equatable {
 struct DelayTransition: Codable, Equatable {
     let type: String
     let ms: Double
+    let bindings: [String: String]?
 
-    init(ms: Double) {
+    init(ms: Double, bindings: [String: String]? = nil) {
         self.type = "delay"
         self.ms = ms
+        self.bindings = bindings
+    }
+}
+
+enum TimeoutPolicy: Codable, Equatable {
+    case fail
+    case skip
+    case retry
+    case goto(String)
+
+    private struct GotoTarget: Codable {
+        let goto: String
+    }
+
+    init(from decoder: Decoder) throws {
+        let container = try decoder.singleValueContainer()
+        if let policy = try? container.decode(String.self) {
+            switch policy {
+            case "fail":
+                self = .fail
+            case "skip":
+                self = .skip
+            case "retry":
+                self = .retry
+            default:
+                throw DecodingError.dataCorruptedError(
+                    in: container,
+                    debugDescription: "Unknown timeout policy: \(policy)"
+                )
+            }
+        } else {
+            self = .goto(try container.decode(GotoTarget.self).goto)
+        }
+    }
+
+    func encode(to encoder: Encoder) throws {
+        var container = encoder.singleValueContainer()
+        switch self {
+        case .fail:
+            try container.encode("fail")
+        case .skip:
+            try container.encode("skip")
+        case .retry:
+            try container.encode("retry")
+        case .goto(let scenarioId):
+            try container.encode(GotoTarget(goto: scenarioId))
+        }
     }
 }
 
@@ -83,12 +149,18 @@ struct PixelStateTransition: Codable, Equatable {
     let position: Point
     let color: RGB
     let threshold: Double
+    let timeoutMs: Double?
+    let onTimeout: TimeoutPolicy?
+    let bindings: [String: String]?
 
-    init(position: Point, color: RGB, threshold: Double) {
+    init(position: Point, color: RGB, threshold: Double, timeoutMs: Double? = nil, onTimeout: TimeoutPolicy? = nil, bindings: [String: String]? = nil) {
         self.type = "pixel-state"
         self.position = position
         self.color = color
         self.threshold = threshold
+        self.timeoutMs = timeoutMs
+        self.onTimeout = onTimeout
+        self.bindings = bindings
     }
 }
 
@@ -97,12 +169,18 @@ struct PixelZoneTransition: Codable, Equatable {
     let rect: Rect
     let color: RGB
     let threshold: Double
+    let timeoutMs: Double?
+    let onTimeout: TimeoutPolicy?
+    let bindings: [String: String]?
 
-    init(rect: Rect, color: RGB, threshold: Double) {
+    init(rect: Rect, color: RGB, threshold: Double, timeoutMs: Double? = nil, onTimeout: TimeoutPolicy? = nil, bindings: [String: String]? = nil) {
         self.type = "pixel-zone"
         self.rect = rect
         self.color = color
         self.threshold = threshold
+        self.timeoutMs = timeoutMs
+        self.onTimeout = onTimeout
+        self.bindings = bindings
     }
 }
 
@@ -111,10 +189,106 @@ struct PixelZoneTransition: Codable, Equatable {
 struct ScenarioRef: Codable, Equatable {
     let type: String
     let scenarioId: String
+    let args: [String: String]?
 
-    init(scenarioId: String) {
+    init(scenarioId: String, args: [String: String]? = nil) {
         self.type = "scenario-ref"
         self.scenarioId = scenarioId
+        self.args = args
+    }
+}
+
+// MARK: - Pixel Condition (Union Type)
+
+enum PixelCondition: Codable, Equatable {
+    case pixelState(PixelStateTransition)
+    case pixelZone(PixelZoneTransition)
+
+    private enum CodingKeys: String, CodingKey {
+        case type
+    }
+
+    init(from decoder: Decoder) throws {
+        let container = try decoder.container(keyedBy: CodingKeys.self)
+        let type = try container.decode(String.self, forKey: .type)
+
+        switch type {
+        case "pixel-state":
+            self = .pixelState(try PixelStateTransition(from: decoder))
+        case "pixel-zone":
+            self = .pixelZone(try PixelZoneTransition(from: decoder))
+        default:
+            throw DecodingError.dataCorruptedError(
+                forKey: .type,
+                in: container,
+                debugDescription: "Unknown condition type: \(type)"
+            )
+        }
+    }
+
+    func encode(to encoder: Encoder) throws {
+        switch self {
+        case .pixelState(let transition):
+            try transition.encode(to: encoder)
+        case .pixelZone(let transition):
+            try transition.encode(to: encoder)
+        }
+    }
+}
+
+// MARK: - Control Flow
+
+enum StepBlock: Codable, Equatable {
+    case steps([Step])
+    case scenarioRef(ScenarioRef)
+
+    init(from decoder: Decoder) throws {
+        let container = try decoder.singleValueContainer()
+        if let steps = try? container.decode([Step].self) {
+            self = .steps(steps)
+        } else {
+            self = .scenarioRef(try container.decode(ScenarioRef.self))
+        }
+    }
+
+    func encode(to encoder: Encoder) throws {
+        var container = encoder.singleValueContainer()
+        switch self {
+        case .steps(let steps):
+            try container.encode(steps)
+        case .scenarioRef(let ref):
+            try container.encode(ref)
+        }
+    }
+}
+
+struct LoopStep: Codable, Equatable {
+    let type: String
+    let body: StepBlock
+    let count: Int?
+    let until: PixelCondition?
+    let maxIterations: Int?
+
+    init(body: StepBlock, count: Int? = nil, until: PixelCondition? = nil, maxIterations: Int? = nil) {
+        self.type = "loop"
+        self.body = body
+        self.count = count
+        self.until = until
+        self.maxIterations = maxIterations
+    }
+}
+
+struct IfStep: Codable, Equatable {
+    let type: String
+    let condition: PixelCondition
+    let then: StepBlock
+    let `else`: StepBlock?
+
+    init(condition: PixelCondition, then: StepBlock, else elseBlock: StepBlock? = nil) {
+        self.type = "if"
+        self.condition = condition
+        self.then = then
+        self.`else` = elseBlock
     }
 }
 
@@ -123,10 +297,13 @@ struct ScenarioRef: Codable, Equatable {
 enum Step: Codable, Equatable {
     case click(ClickAction)
     case keypress(KeypressAction)
+    case typeText(TypeTextAction)
     case delay(DelayTransition)
     case pixelState(PixelStateTransition)
     case pixelZone(PixelZoneTransition)
     case scenarioRef(ScenarioRef)
+    case loop(LoopStep)
+    case ifStep(IfStep)
 
     private enum CodingKeys: String, CodingKey {
         case type
@@ -141,6 +318,8 @@ enum Step: Codable, Equatable {
             self = .click(try ClickAction(from: decoder))
         case "keypress":
             self = .keypress(try KeypressAction(from: decoder))
+        case "type-text":
+            self = .typeText(try TypeTextAction(from: decoder))
         case "delay":
             self = .delay(try DelayTransition(from: decoder))
         case "pixel-state":
@@ -149,6 +328,10 @@ enum Step: Codable, Equatable {
             self = .pixelZone(try PixelZoneTransition(from: decoder))
         case "scenario-ref":
             self = .scenarioRef(try ScenarioRef(from: decoder))
+        case "loop":
+            self = .loop(try LoopStep(from: decoder))
+        case "if":
+            self = .ifStep(try IfStep(from: decoder))
         default:
             throw DecodingError.dataCorruptedError(
                 forKey: .type,
@@ -164,6 +347,8 @@ enum Step: Codable, Equatable {
             try action.encode(to: encoder)
         case .keypress(let action):
             try action.encode(to: encoder)
+        case .typeText(let action):
+            try action.encode(to: encoder)
         case .delay(let transition):
             try transition.encode(to: encoder)
         case .pixelState(let transition):
@@ -172,6 +357,10 @@ enum Step: Codable, Equatable {
             try transition.encode(to: encoder)
         case .scenarioRef(let ref):
             try ref.encode(to: encoder)
+        case .loop(let loop):
+            try loop.encode(to: encoder)
+        case .ifStep(let ifStep):
+            try ifStep.encode(to: encoder)
         }
     }
 }
@@ -184,6 +373,13 @@ struct Scenario: Codable, Equatable {
     let steps: [Step]
     let createdAt: Double
     let lastUsedAt: Double
+    let breakpoints: [Int]?
+    let parameters: [ScenarioParameter]?
+}
+
+struct ScenarioParameter: Codable, Equatable {
+    let name: String
+    let `default`: String?
 }
 
 // MARK: - Permission Status
@@ -199,6 +395,14 @@ struct PixelColorResult: Codable, Equatable {
     let color: RGB
 }
 
+// MARK: - Zone Sample Result
+
+struct ZoneSampleResult: Codable, Equatable {
+    let position: Point
+    let color: RGB
+    let distance: Double
+}
+
 // MARK: - Recorder State
 
 enum RecorderState: String, Codable {
@@ -323,6 +527,23 @@ struct ExecuteKeypressRequest: Codable {
     }
 }
 
+struct TypeTextParams: Codable {
+    let text: String
+    let charDelayMs: Double?
+}
+
+struct TypeTextRequest: Codable {
+    let id: String
+    let method: String
+    let params: TypeTextParams
+
+    init(id: String, text: String, charDelayMs: Double? = nil) {
+        self.id = id
+        self.method = "typeText"
+        self.params = TypeTextParams(text: text, charDelayMs: charDelayMs)
+    }
+}
+
 struct GetPixelColorParams: Codable {
     let position: Point
 }
@@ -339,6 +560,59 @@ struct GetPixelColorRequest: Codable {
     }
 }
 
+struct CheckPixelStateParams: Codable {
+    let position: Point
+    let color: RGB
+    let threshold: Double
+}
+
+struct CheckPixelStateRequest: Codable {
+    let id: String
+    let method: String
+    let params: CheckPixelStateParams
+
+    init(id: String, position: Point, color: RGB, threshold: Double) {
+        self.id = id
+        self.method = "checkPixelState"
+        self.params = CheckPixelStateParams(position: position, color: color, threshold: threshold)
+    }
+}
+
+struct CheckPixelZoneParams: Codable {
+    let rect: Rect
+    let color: RGB
+    let threshold: Double
+}
+
+struct CheckPixelZoneRequest: Codable {
+    let id: String
+    let method: String
+    let params: CheckPixelZoneParams
+
+    init(id: String, rect: Rect, color: RGB, threshold: Double) {
+        self.id = id
+        self.method = "checkPixelZone"
+        self.params = CheckPixelZoneParams(rect: rect, color: color, threshold: threshold)
+    }
+}
+
+struct SampleZoneParams: Codable {
+    let rect: Rect
+    let color: RGB
+}
+
+struct SampleZoneRequest: Codable {
+    let id: String
+    let method: String
+    let params: SampleZoneParams
+
+    init(id: String, rect: Rect, color: RGB) {
+        self.id = id
+        self.method = "sampleZone"
+        self.params = SampleZoneParams(rect: rect, color: color)
+    }
+}
+
 struct WaitForPixelStateParams: Codable {
     let position: Point
     let color: RGB
@@ -387,6 +661,22 @@ struct WaitForPixelZoneRequest: Codable {
     }
 }
 
+struct CancelRequestParams: Codable {
+    let requestId: String
+}
+
+struct CancelRequest: Codable {
+    let id: String
+    let method: String
+    let params: CancelRequestParams
+
+    init(id: String, requestId: String) {
+        self.id = id
+        self.method = "cancelRequest"
+        self.params = CancelRequestParams(requestId: requestId)
+    }
+}
+
 // MARK: - IPC Request (Union for Parsing)
 
 enum IPCRequestMethod: String, Codable {
@@ -398,9 +688,14 @@ enum IPCRequestMethod: String, Codable {
     case hideMagnifier
     case executeClick
     case executeKeypress
+    case typeText
     case getPixelColor
+    case checkPixelState
+    case checkPixelZone
+    case sampleZone
     case waitForPixelState
     case waitForPixelZone
+    case cancelRequest
 }
 
 struct IPCRequestEnvelope: Codable {
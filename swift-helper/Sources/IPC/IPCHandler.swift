@@ -12,6 +12,9 @@ actor IPCHandler {
     private let keyboardController: KeyboardController
     private let screenCapture: ScreenCapture
     
+    // Requests currently being handled, keyed by request id (for cancelRequest)
+    private var inFlight: [String: Task<Void, Never>] = [:]
+    
     init() {
         self.reader = StdinReader()
         self.writer = StdoutWriter()
@@ -78,7 +81,19 @@ actor IPCHandler {
         // First, parse the envelope to get id and method
         do {
             let envelope = try decoder.decode(IPCRequestEnvelope.self, from: data)
-            await handleRequest(method: envelope.method, id: envelope.id, data: data)
+            if envelope.method == .cancelRequest {
+                // Handled inline so it can reach requests that are still running
+                let request = try decoder.decode(CancelRequest.self, from: data)
+                cancelRequest(request.params.requestId)
+                try await writer.writeVoid(id: envelope.id)
+                return
+            }
+            // Run each request in its own task so long waits don't block the loop
+            let id = envelope.id
+            inFlight[id] = Task {
+                await self.handleRequest(method: envelope.method, id: id, data: data)
+                self.finishRequest(id)
+            }
         } catch {
             // Try to extract just the id for error response
             if let partial = try? decoder.decode(PartialRequest.self, from: data) {
@@ -93,6 +108,18 @@ actor IPCHandler {
         }
     }
     
+    /// Cancel an in-flight request; its response is dropped
+    private func cancelRequest(_ requestId: String) {
+        Logger.log("IPC", "Cancelling request \(requestId)")
+        inFlight[requestId]?.cancel()
+        inFlight[requestId] = nil
+    }
+    
+    /// Forget a request once its handler has finished
+    private func finishRequest(_ id: String) {
+        inFlight[id] = nil
+    }
+    
     /// Route request to appropriate handler
     private func handleRequest(method: IPCRequestMethod, id: String, data: Data) async {
         Logger.log("IPC", "handleRequest: method=\(method), id=\(id)")
@@ -147,12 +174,45 @@ actor IPCHandler {
                 try await keyboardController.press(key: request.params.key, modifiers: request.params.modifiers)
                 try await writer.writeVoid(id: id)
                 
+            case .typeText:
+                let request = try decoder.decode(TypeTextRequest.self, from: data)
+                try await keyboardController.typeText(request.params.text, charDelayMs: request.params.charDelayMs)
+                try await writer.writeVoid(id: id)
+                
             case .getPixelColor:
                 let request = try decoder.decode(GetPixelColorRequest.self, from: data)
                 let color = try await screenCapture.getPixelColor(at: request.params.position)
                 let result = PixelColorResult(color: color)
                 try await writer.writeSuccess(id: id, result: result)
-                
+
+            case .checkPixelState:
+                let request = try decoder.decode(CheckPixelStateRequest.self, from: data)
+                let matched = try await screenCapture.checkPixelState(
+                    at: request.params.position,
+                    expectedColor: request.params.color,
+                    threshold: request.params.threshold
+                )
+                let result = WaitResult(matched: matched)
+                try await writer.writeSuccess(id: id, result: result)
+
+            case .checkPixelZone:
+                let request = try decoder.decode(CheckPixelZoneRequest.self, from: data)
+                let matched = try await screenCapture.checkPixelZone(
+                    rect: request.params.rect,
+                    expectedColor: request.params.color,
+                    threshold: request.params.threshold
+                )
+                let result = WaitResult(matched: matched)
+                try await writer.writeSuccess(id: id, result: result)
+
+            case .sampleZone:
+                let request = try decoder.decode(SampleZoneRequest.self, from: data)
+                let result = try await screenCapture.sampleZone(
+                    rect: request.params.rect,
+                    expectedColor: request.params.color
+                )
+                try await writer.writeSuccess(id: id, result: result)
+
             case .waitForPixelState:
                 let request = try decoder.decode(WaitForPixelStateRequest.self, from: data)
                 let matched = try await screenCapture.waitForPixelState(
@@ -174,8 +234,16 @@ actor IPCHandler {
                 )
                 let result = WaitResult(matched: matched)
                 try await writer.writeSuccess(id: id, result: result)
+                
+            case .cancelRequest:
+                // Handled in processMessage before dispatch
+                try await writer.writeVoid(id: id)
             }
         } catch {
+            // The controller already gave up on cancelled requests
+            if Task.isCancelled {
+                return
+            }
             do {
                 try await writer.writeError(id: id, error: "Handler error: \(error)")
             } catch {